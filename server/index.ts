@@ -0,0 +1,63 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { RoomManager } from './rooms';
+import { DEFAULT_SERVER_PORT } from '@/constants/online';
+
+/**
+ * Local draft server for real-time two-browser play.
+ *
+ * Hosts draft rooms over WebSockets: the server keeps the authoritative draft
+ * state, seats players as P1/P2, and applies their commands with the same
+ * DraftService the client uses. It needs no external services; card data is
+ * sent by the host along with the draft.
+ *
+ * Run with `npm run server` (PORT overrides the default port).
+ */
+
+/**
+ * How often connections are pinged to detect players who dropped without closing
+ */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * How often idle rooms are cleaned up
+ */
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+const port = Number(process.env.PORT) || DEFAULT_SERVER_PORT;
+const server = new WebSocketServer({ port });
+const rooms = new RoomManager();
+
+// Connections that answered the last heartbeat ping
+const aliveConnections = new WeakSet<WebSocket>();
+
+server.on('connection', (socket) => {
+  aliveConnections.add(socket);
+
+  socket.on('pong', () => aliveConnections.add(socket));
+  socket.on('message', (data) => rooms.handleMessage(socket, data.toString()));
+  socket.on('close', () => rooms.handleDisconnect(socket));
+  socket.on('error', (error) => console.warn('Connection error:', error.message));
+});
+
+// Drop connections that stopped answering pings so their seats can be reclaimed
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!aliveConnections.has(socket)) {
+      socket.terminate();
+      continue;
+    }
+    aliveConnections.delete(socket);
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL_MS);
+
+const cleanup = setInterval(() => rooms.removeIdleRooms(), CLEANUP_INTERVAL_MS);
+
+server.on('close', () => {
+  clearInterval(heartbeat);
+  clearInterval(cleanup);
+});
+
+server.on('listening', () => {
+  console.log(`Solomon Draft server listening on ws://localhost:${port}`);
+});
@@ -0,0 +1,417 @@
+import { randomBytes } from 'node:crypto';
+import type { WebSocket } from 'ws';
+import { DraftCommand, DraftState, PlayerId } from '@/types/draft';
+import { ClientMessage, OnlineErrorCode, ServerMessage } from '@/types/online';
+import { DraftService } from '@/services/draftService';
+import { DraftFileService } from '@/services/draftFileService';
+import { DraftError } from '@/services/draftErrors';
+import { getActivePlayer } from '@/utils/turnTokens';
+import { isDraftCommand } from '@/utils/draftCommands';
+
+/**
+ * Characters used for room codes (no 0/O or 1/I so codes are easy to read aloud)
+ */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Length of generated room codes
+ */
+const ROOM_CODE_LENGTH = 6;
+
+/**
+ * How long a room is kept after both players disconnect, so they can reconnect
+ */
+export const ROOM_IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Error raised while handling a client message; sent back to the client
+ */
+class RoomError extends Error {
+  /** Machine-readable reason sent to the client */
+  readonly code: OnlineErrorCode;
+
+  constructor(code: OnlineErrorCode, message: string) {
+    super(message);
+    this.name = 'RoomError';
+    this.code = code;
+  }
+}
+
+/**
+ * A player's seat in a room
+ */
+interface Seat {
+  /** Secret the player uses to reclaim the seat after a disconnect */
+  reconnectToken: string;
+  /** The player's current connection, or null while disconnected */
+  socket: WebSocket | null;
+}
+
+/**
+ * A draft room hosted by the server. The room holds the authoritative draft state;
+ * players only send commands, which are checked against whose turn it is.
+ */
+class DraftRoom {
+  /** Room code players use to join */
+  readonly id: string;
+  /** Authoritative draft state */
+  private draft: DraftState;
+  /** Seats for both players (null while free) */
+  private seats: Record<PlayerId, Seat | null> = { P1: null, P2: null };
+  /** When the last player disconnected, or null while someone is connected */
+  idleSince: number | null = null;
+
+  constructor(id: string, draft: DraftState) {
+    this.id = id;
+    this.draft = draft;
+  }
+
+  /**
+   * Seats a connection in the first free seat (the host gets P1)
+   * @param socket - Connection to seat
+   * @returns The seat taken
+   * @throws RoomError if both seats are taken
+   */
+  join(socket: WebSocket): PlayerId {
+    const seat = (['P1', 'P2'] as PlayerId[]).find(candidate => !this.seats[candidate]);
+    if (!seat) {
+      throw new RoomError('room-full', `Room ${this.id} already has two players`);
+    }
+
+    this.seats[seat] = { reconnectToken: createToken(), socket };
+    this.idleSince = null;
+    this.sendJoined(seat);
+    this.broadcastPresence();
+    return seat;
+  }
+
+  /**
+   * Reattaches a connection to a seat after a disconnect
+   * @param socket - The player's new connection
+   * @param reconnectToken - Token issued when the seat was taken
+   * @returns The seat reclaimed
+   * @throws RoomError if the token does not match a seat
+   */
+  reconnect(socket: WebSocket, reconnectToken: string): PlayerId {
+    const seat = (['P1', 'P2'] as PlayerId[]).find(candidate => this.seats[candidate]?.reconnectToken === reconnectToken);
+    if (!seat) {
+      throw new RoomError('not-in-room', 'This reconnect token is not valid for the room');
+    }
+
+    // Replace any connection still open for the seat (e.g. a stale tab)
+    const previous = this.seats[seat]!.socket;
+    if (previous && previous !== socket) previous.close();
+
+    this.seats[seat]!.socket = socket;
+    this.idleSince = null;
+    this.sendJoined(seat);
+    this.broadcastPresence();
+    return seat;
+  }
+
+  /**
+   * Marks a seat's connection as gone, keeping the seat for a reconnect
+   * @param seat - Seat whose connection closed
+   * @param socket - The connection that closed
+   */
+  disconnect(seat: PlayerId, socket: WebSocket): void {
+    const current = this.seats[seat];
+    if (!current || current.socket !== socket) return;
+
+    current.socket = null;
+    this.markIdleIfEmpty();
+    this.broadcastPresence();
+  }
+
+  /**
+   * Frees a seat so another player can take it
+   * @param seat - Seat to free
+   */
+  leave(seat: PlayerId): void {
+    this.seats[seat] = null;
+    this.markIdleIfEmpty();
+    this.broadcastPresence();
+  }
+
+  /**
+   * Applies a command sent by a player and broadcasts the new state
+   * @param seat - Seat of the player sending the command
+   * @param command - Command to apply
+   * @throws RoomError if it is not the player's turn or the engine rejects the command
+   */
+  applyCommand(seat: PlayerId, command: DraftCommand): void {
+    const activePlayer = getActivePlayer(this.draft.currentPhase);
+    if (seat !== activePlayer) {
+      throw new RoomError('not-your-turn', `It is ${activePlayer}'s turn (${this.draft.currentPhase})`);
+    }
+
+    try {
+      this.draft = DraftService.performDraftAction(this.draft, command);
+    } catch (error) {
+      if (error instanceof DraftError) {
+        throw new RoomError('invalid-command', error.message);
+      }
+      throw error;
+    }
+
+    this.broadcast({ type: 'state', draft: this.draft });
+  }
+
+  /**
+   * Sends a message to one seat, if it is connected
+   * @param seat - Seat to send to
+   * @param message - Message to send
+   */
+  private send(seat: PlayerId, message: ServerMessage): void {
+    const socket = this.seats[seat]?.socket;
+    if (socket && socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Sends a message to both seats
+   * @param message - Message to send
+   */
+  private broadcast(message: ServerMessage): void {
+    this.send('P1', message);
+    this.send('P2', message);
+  }
+
+  /**
+   * Tells a seat it has joined, with its reconnect token and the current state
+   * @param seat - Seat that joined
+   */
+  private sendJoined(seat: PlayerId): void {
+    this.send(seat, {
+      type: 'joined',
+      roomId: this.id,
+      seat,
+      reconnectToken: this.seats[seat]!.reconnectToken,
+      draft: this.draft,
+    });
+  }
+
+  /**
+   * Tells both seats which players are connected
+   */
+  private broadcastPresence(): void {
+    this.broadcast({
+      type: 'presence',
+      connected: { P1: !!this.seats.P1?.socket, P2: !!this.seats.P2?.socket },
+    });
+  }
+
+  /**
+   * Starts the idle timer once no player is connected
+   */
+  private markIdleIfEmpty(): void {
+    if (!this.seats.P1?.socket && !this.seats.P2?.socket) {
+      this.idleSince = Date.now();
+    }
+  }
+}
+
+/**
+ * Routes client messages to draft rooms and tracks which room and seat each connection holds
+ */
+export class RoomManager {
+  private rooms = new Map<string, DraftRoom>();
+  private connections = new Map<WebSocket, { room: DraftRoom; seat: PlayerId }>();
+
+  /**
+   * Handles a raw message from a client
+   * @param socket - Connection the message arrived on
+   * @param raw - Message text
+   */
+  handleMessage(socket: WebSocket, raw: string): void {
+    try {
+      this.dispatch(socket, parseClientMessage(raw));
+    } catch (error) {
+      const message: ServerMessage = error instanceof RoomError
+        ? { type: 'error', code: error.code, message: error.message }
+        : { type: 'error', code: 'bad-message', message: error instanceof Error ? error.message : 'Invalid message' };
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Handles a closed connection; the seat is kept so the player can reconnect
+   * @param socket - Connection that closed
+   */
+  handleDisconnect(socket: WebSocket): void {
+    const connection = this.connections.get(socket);
+    if (!connection) return;
+
+    this.connections.delete(socket);
+    connection.room.disconnect(connection.seat, socket);
+  }
+
+  /**
+   * Removes rooms nobody has been connected to for longer than the idle timeout
+   * @param now - Current time in milliseconds
+   */
+  removeIdleRooms(now: number = Date.now()): void {
+    for (const [id, room] of this.rooms) {
+      if (room.idleSince !== null && now - room.idleSince > ROOM_IDLE_TIMEOUT_MS) {
+        this.rooms.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Dispatches a parsed client message
+   * @param socket - Connection the message arrived on
+   * @param message - Parsed message
+   * @throws RoomError if the request cannot be fulfilled
+   */
+  private dispatch(socket: WebSocket, message: ClientMessage): void {
+    switch (message.type) {
+      case 'create-room': {
+        const draft = this.validateNewDraft(message.draft);
+        const room = new DraftRoom(this.createRoomId(), draft);
+        this.rooms.set(room.id, room);
+        this.seat(socket, room, room.join(socket));
+        return;
+      }
+      case 'join-room': {
+        const room = this.getRoom(message.roomId);
+        this.seat(socket, room, room.join(socket));
+        return;
+      }
+      case 'reconnect': {
+        const room = this.getRoom(message.roomId);
+        this.seat(socket, room, room.reconnect(socket, message.reconnectToken));
+        return;
+      }
+      case 'command': {
+        const connection = this.getConnection(socket);
+        connection.room.applyCommand(connection.seat, message.command);
+        return;
+      }
+      case 'leave-room': {
+        const connection = this.getConnection(socket);
+        this.connections.delete(socket);
+        connection.room.leave(connection.seat);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Records that a connection holds a seat, leaving any room it was in before
+   * @param socket - Connection
+   * @param room - Room joined
+   * @param seat - Seat taken
+   */
+  private seat(socket: WebSocket, room: DraftRoom, seat: PlayerId): void {
+    const previous = this.connections.get(socket);
+    if (previous && (previous.room !== room || previous.seat !== seat)) {
+      previous.room.leave(previous.seat);
+    }
+    this.connections.set(socket, { room, seat });
+  }
+
+  /**
+   * Checks a draft sent to host a room: it must be valid and consistent with its history.
+   * The room starts from the draft rebuilt by replaying that history, not the one sent.
+   * @param value - Draft sent by the host
+   * @returns Draft state replayed from the host's initial pool and history
+   * @throws RoomError if the draft is invalid
+   */
+  private validateNewDraft(value: unknown): DraftState {
+    try {
+      return DraftFileService.validateDraftState(value);
+    } catch (error) {
+      throw new RoomError('invalid-draft', error instanceof Error ? error.message : 'Invalid draft');
+    }
+  }
+
+  /**
+   * Gets a room by its code
+   * @param roomId - Room code (case-insensitive)
+   * @returns The room
+   * @throws RoomError if the room does not exist
+   */
+  private getRoom(roomId: string): DraftRoom {
+    const room = this.rooms.get(roomId.trim().toUpperCase());
+    if (!room) {
+      throw new RoomError('room-not-found', `Room ${roomId} does not exist (it may have expired)`);
+    }
+    return room;
+  }
+
+  /**
+   * Gets the room and seat a connection holds
+   * @param socket - Connection
+   * @returns The connection's room and seat
+   * @throws RoomError if the connection has not joined a room
+   */
+  private getConnection(socket: WebSocket): { room: DraftRoom; seat: PlayerId } {
+    const connection = this.connections.get(socket);
+    if (!connection) {
+      throw new RoomError('not-in-room', 'Join a room first');
+    }
+    return connection;
+  }
+
+  /**
+   * Generates an unused room code
+   * @returns New room code
+   */
+  private createRoomId(): string {
+    let id: string;
+    do {
+      id = Array.from(randomBytes(ROOM_CODE_LENGTH), byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('');
+    } while (this.rooms.has(id));
+    return id;
+  }
+}
+
+/**
+ * Parses and shape-checks a message from a client
+ * @param raw - Message text
+ * @returns Parsed message
+ * @throws Error if the message is not valid JSON or not a known message type
+ */
+function parseClientMessage(raw: string): ClientMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new Error('Message is not valid JSON');
+  }
+
+  if (typeof message !== 'object' || message === null) {
+    throw new Error('Message must be an object');
+  }
+
+  const { type } = message as { type?: unknown };
+  const fields = message as Record<string, unknown>;
+  switch (type) {
+    case 'create-room':
+      if (typeof fields.draft === 'object' && fields.draft !== null) return message as ClientMessage;
+      break;
+    case 'join-room':
+      if (typeof fields.roomId === 'string') return message as ClientMessage;
+      break;
+    case 'reconnect':
+      if (typeof fields.roomId === 'string' && typeof fields.reconnectToken === 'string') return message as ClientMessage;
+      break;
+    case 'command':
+      if (isDraftCommand(fields.command)) return message as ClientMessage;
+      break;
+    case 'leave-room':
+      return message as ClientMessage;
+  }
+
+  throw new Error(`Invalid message of type "${String(type)}"`);
+}
+
+/**
+ * Creates a random secret token
+ * @returns Hex token
+ */
+function createToken(): string {
+  return randomBytes(16).toString('hex');
+}
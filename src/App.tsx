@@ -1,5 +1,5 @@
-import React, { useState, useCallback } from 'react';
-import { GameState, DeckListInput } from '@/types/draft';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { GameState, DeckListInput, DraftAction, DraftCommand, DraftOptions, DraftState, FairStart, PlayerId } from '@/types/draft';
 import { DeckListParser } from '@/services/deckParsers';
 import { DraftService } from '@/services/draftService';
 import { Header } from '@/components/Header';
@@ -8,7 +8,39 @@ import { DraftSettings } from '@/components/DraftSettings';
 import { DraftInterface } from '@/components/DraftInterface';
 import { PlayerPicks } from '@/components/PlayerPicks';
 import { ExportSection } from '@/components/ExportSection';
+import { CommanderDeckCheck } from '@/components/CommanderDeckCheck';
+import { ColorPairTracker } from '@/components/ColorPairTracker';
+import { DeckBuilder } from '@/components/DeckBuilder';
 import { DraftHistory } from '@/components/DraftHistory';
+import { SavedDrafts } from '@/components/SavedDrafts';
+import { TurnTokenPanel } from '@/components/TurnTokenPanel';
+import { FairStartPanel } from '@/components/FairStartPanel';
+import { OnlinePlayPanel } from '@/components/OnlinePlayPanel';
+import { PeerPlayPanel } from '@/components/PeerPlayPanel';
+import { HotSeatPanel } from '@/components/HotSeatPanel';
+import { OnlineDraftClient, OnlineSession, OnlineStatus } from '@/services/onlineClient';
+import { PeerDraftSession, PeerRole, PeerStatus } from '@/services/peerSession';
+import { HotSeatSync } from '@/services/hotSeatSync';
+import { DraftBot } from '@/services/draftBot';
+import { DeckService } from '@/services/deckService';
+import { getRatingPoolKey, ratingService } from '@/services/ratingService';
+import { RatingsPanel } from '@/components/RatingsPanel';
+import { draftStorage, SavedDraft } from '@/services/draftStorage';
+import { DraftFileService } from '@/services/draftFileService';
+import { DEFAULT_DRAFT_OPTIONS } from '@/constants/draftDefaults';
+import { CardRatings } from '@/types/ratings';
+import { DeckBuild } from '@/types/deck';
+import { buildShareLink, parseShareLink } from '@/utils/shareLinks';
+import {
+  TurnToken,
+  getSeedHash,
+  getTurnCommands,
+  getTurnNumber,
+  parseTurnToken,
+  recordReceivedChainHash,
+  getActivePlayer,
+} from '@/utils/turnTokens';
+import { DraftVerification, getChainHash, verifyDraft } from '@/utils/fairPlay';
 
 /**
  * Static asset path for the Solomon Chop image
@@ -16,6 +48,68 @@ import { DraftHistory } from '@/components/DraftHistory';
  */
 const solomonChopImage = '/Solomon_Draft/solomon_chop.png';
 
+/**
+ * Creates a unique ID for a saved draft
+ * @returns New saved draft ID
+ */
+const createSaveId = (): string => `draft-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Pause before a bot makes its move, so players can follow what it did
+ */
+const BOT_MOVE_DELAY_MS = 700;
+
+/**
+ * Checks whether undone history entries include a move made by a bot
+ * @param draft - Draft the entries were undone from
+ * @param actions - Undone history entries
+ * @returns True if a bot split or chose in them
+ */
+const isBotMove = (draft: DraftState, actions: DraftAction[]): boolean =>
+  actions.some(action => {
+    const player = action.data.splitter ?? action.data.chooser;
+    return !!player && !!draft.settings.bots?.[player];
+  });
+
+/**
+ * Warning shown when an opponent's turn token does not match this draft's hash chain
+ */
+const CHAIN_MISMATCH_WARNING =
+  "Warning: your opponent's draft history does not match yours. See the Draft History for details.";
+
+/**
+ * Applies an opponent's turn token to a draft, dealing the next pack first if needed.
+ * The token's chain hash is checked against this draft's history and recorded on the move.
+ * @param draft - Draft to apply the turn to
+ * @param token - Decoded turn token
+ * @returns Promise resolving to the updated draft state and whether the chain hash matched
+ *          (null for older tokens without a chain hash)
+ * @throws Error if the token does not fit the draft or the move is invalid
+ */
+const applyTurnToken = async (
+  draft: DraftState,
+  token: TurnToken
+): Promise<{ draft: DraftState; chainVerified: boolean | null }> => {
+  const dealtDraft = draft.activePack || draft.isComplete
+    ? draft
+    : DraftService.performDraftAction(draft, { type: 'start-round' });
+  const commands = getTurnCommands(dealtDraft, token);
+  const updatedDraft = commands.reduce(
+    (current, command) => DraftService.performDraftAction(current, command),
+    dealtDraft
+  );
+
+  if (!token.chainHash) {
+    return { draft: updatedDraft, chainVerified: null };
+  }
+
+  const localChainHash = await getChainHash(dealtDraft.settings.seed, dealtDraft.history);
+  return {
+    draft: recordReceivedChainHash(updatedDraft, token.chainHash, commands.length),
+    chainVerified: localChainHash === token.chainHash,
+  };
+};
+
 /**
  * Main application component that manages the overall game state
  * and coordinates between different UI sections.
@@ -45,21 +139,114 @@ const App: React.FC = () => {
   // Seeded deck list state - stores deck list loaded from a seed
   const [seededDeckList, setSeededDeckList] = useState<DeckListInput | null>(null);
 
+  // Redo state - groups of history entries removed by undo, most recent last
+  const [redoStack, setRedoStack] = useState<DraftAction[][]>([]);
+
+  // Persistence state - the saved record the active draft autosaves to, and all saved drafts
+  const [activeSave, setActiveSave] = useState<{ id: string; name: string } | null>(null);
+  const [savedDrafts, setSavedDrafts] = useState<SavedDraft[]>([]);
+
+  // Tamper detection state - fair start agreed before the draft, and the active draft's verification result
+  const [fairStart, setFairStart] = useState<FairStart | null>(null);
+  const [verification, setVerification] = useState<DraftVerification | null>(null);
+
+  // Online state - connection to the draft server, the seat held and which players are connected
+  const onlineClient = useRef<OnlineDraftClient | null>(null);
+  const [onlineSession, setOnlineSession] = useState<OnlineSession | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<OnlineStatus>('disconnected');
+  const [onlinePresence, setOnlinePresence] = useState<Record<PlayerId, boolean> | null>(null);
+
+  // Peer-to-peer state - WebRTC session with the other browser, this browser's side and any detected desync
+  const peerSession = useRef<PeerDraftSession | null>(null);
+  const [peerRole, setPeerRole] = useState<PeerRole | null>(null);
+  const [peerStatus, setPeerStatus] = useState<PeerStatus>('idle');
+  const [peerDesync, setPeerDesync] = useState<string | null>(null);
+  const isPeerConnected = peerStatus === 'connected';
+
+  // Hot-seat state - sync with the other player's window on this computer, and the player this window is for
+  const hotSeat = useRef<HotSeatSync | null>(null);
+  const [hotSeatSeat, setHotSeatSeat] = useState<PlayerId | null>(null);
+
+  // Ratings state - card ratings imported for the active draft's cube
+  const [ratings, setRatings] = useState<CardRatings | null>(null);
+  const ratingPoolKey = gameState.draft ? getRatingPoolKey(gameState.draft) : null;
+
+  // Switch to the imported ratings for the cube whenever a draft from another cube opens
+  useEffect(() => {
+    setRatings(ratingService.setActivePool(ratingPoolKey));
+  }, [ratingPoolKey]);
+
+  // Re-verify the fair start and hash chain whenever the draft changes
+  useEffect(() => {
+    const draft = gameState.draft;
+    if (!draft) {
+      setVerification(null);
+      return;
+    }
+
+    let cancelled = false;
+    verifyDraft(draft)
+      .then(result => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch(error => console.warn('Failed to verify draft:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [gameState.draft]);
+
+  // Start each player's deck from their picks once the draft is complete
+  useEffect(() => {
+    const draft = gameState.draft;
+    if (!draft?.isComplete || draft.decks) return;
+
+    const decks = { P1: DeckService.createDeck(draft.p1Picks), P2: DeckService.createDeck(draft.p2Picks) };
+    setGameState(prev => (prev.draft === draft ? { ...prev, draft: { ...draft, decks } } : prev));
+  }, [gameState.draft]);
+
+  /**
+   * Reloads the list of saved drafts shown on the start screen.
+   */
+  const refreshSavedDrafts = useCallback(async (): Promise<void> => {
+    try {
+      setSavedDrafts(await draftStorage.listDrafts());
+    } catch (error) {
+      console.warn('Failed to load saved drafts:', error);
+    }
+  }, []);
+
+  // Refresh the saved draft list whenever the start screen is shown
+  useEffect(() => {
+    if (!gameState.draft) {
+      refreshSavedDrafts();
+    }
+  }, [gameState.draft, refreshSavedDrafts]);
+
+  // Autosave the active draft after every change (actions, undo, redo)
+  useEffect(() => {
+    if (!gameState.draft || !activeSave) return;
+
+    draftStorage
+      .saveDraft(activeSave.id, activeSave.name, gameState.draft)
+      .catch(error => console.warn('Failed to autosave draft:', error));
+  }, [gameState.draft, activeSave]);
+
   /**
    * Handles deck list input and parsing from a URL.
    * Supports Moxfield and CubeCobra URLs.
    * 
    * @param url - The deck list URL to parse (Moxfield or CubeCobra)
+   * @param settings - Optional draft settings to prefill (e.g. from a share link)
    * @throws Will set error state if URL parsing fails
    */
-  const handleDeckInput = useCallback(async (url: string): Promise<void> => {
+  const handleDeckInput = useCallback(async (url: string, settings?: Partial<DraftOptions>): Promise<void> => {
     // Set loading state and clear any previous errors
     setGameState(prev => ({ ...prev, isLoading: true, error: null }));
     
     try {
       // Parse the deck list URL and fetch card data
       const deckList = await DeckListParser.parseDeckListUrl(url);
-      setParsedDeckList(deckList);
+      setParsedDeckList(settings ? { ...deckList, settings: { ...DEFAULT_DRAFT_OPTIONS, ...settings } } : deckList);
       setGameState(prev => ({ ...prev, isLoading: false, error: null }));
     } catch (error) {
       // Handle parsing errors and update state
@@ -75,14 +262,10 @@ const App: React.FC = () => {
    * Starts a new draft with the given settings and automatically deals the first pack.
    * This function is called when starting a draft from a URL-loaded deck list.
    * 
-   * @param packSize - Number of cards per pack (typically 6-8)
-   * @param numberOfRounds - Number of rounds to draft (each round = 2 packs)
+   * @param options - Draft settings (pack size, rounds, who splits first)
    * @throws Will set error state if draft creation fails
    */
-  const handleStartDraft = useCallback((
-    packSize: number, 
-    numberOfRounds: number
-  ): void => {
+  const handleStartDraft = useCallback(async (options: DraftOptions): Promise<void> => {
     // Validate that we have a deck list loaded
     if (!parsedDeckList) {
       setGameState(prev => ({ 
@@ -93,14 +276,18 @@ const App: React.FC = () => {
     }
 
     try {
-      // Create the draft with the loaded deck list and settings
-      const draft = DraftService.createDraft(parsedDeckList, packSize, numberOfRounds);
+      // Create the draft with the loaded deck list and settings,
+      // shuffling with both players' entropy if they agreed a fair start
+      const draft = fairStart
+        ? await DraftService.createFairDraft(parsedDeckList, options, fairStart)
+        : DraftService.createDraft(parsedDeckList, options);
       
       // Automatically deal the first pack to start the draft
-      const draftWithFirstPack = DraftService.performDraftAction(draft, 'start-round', {});
+      const draftWithFirstPack = DraftService.performDraftAction(draft, { type: 'start-round' });
       
-      // Update game state to show the draft interface
+      // Update game state to show the draft interface and start autosaving it
       setGameState(prev => ({ ...prev, draft: draftWithFirstPack, error: null }));
+      setActiveSave({ id: createSaveId(), name: DeckListParser.getDisplayName(parsedDeckList) });
     } catch (error) {
       // Handle draft creation errors
       setGameState(prev => ({ 
@@ -108,45 +295,28 @@ const App: React.FC = () => {
         error: error instanceof Error ? error.message : 'Failed to create draft' 
       }));
     }
-  }, [parsedDeckList]);
+  }, [parsedDeckList, fairStart]);
 
   /**
    * Handles loading a seed and parsing it into a deck list.
    * Seeds allow recreating the exact same draft order from a previous session.
    * 
-   * @param seed - The seed string to load (base64 encoded card order)
+   * @param seed - The seed string to load (short seed or long-form card order)
+   * @param settings - Optional draft settings overriding those in the seed (e.g. from a share link)
    * @throws Will set error state if seed parsing or card fetching fails
    */
-  const handleLoadSeed = useCallback(async (seed: string): Promise<void> => {
+  const handleLoadSeed = useCallback(async (seed: string, settings?: Partial<DraftOptions>): Promise<void> => {
     // Set loading state and clear any previous errors
     setGameState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      // Dynamically import seed utilities to avoid circular dependencies
-      const { dehashCardOrder } = await import('@/utils/seedUtils');
-      
-      // Parse the seed to get the original card order and quantities
-      const cardData = dehashCardOrder(seed);
-      
-      // Convert card data to raw deck list format for Scryfall API
-      const deckList = cardData
-        .map(card => `${card.quantity} ${card.name}`)
-        .join('\n');
-      
-      // Use the existing deck list parser to fetch full card data from Scryfall
-      const parsedDeckList = await DeckListParser.parseRawDeckList(deckList);
-      
-      // Create a seeded deck list input with the actual cards and seed info
-      const seededDeckList: DeckListInput = {
-        url: `seed:${seed.substring(0, 20)}...`, // Truncated for display
-        type: 'seed',
-        cards: parsedDeckList.cards,
-        name: parsedDeckList.name,
-        seed: seed
-      };
+      // Load the pool the seed describes (from its source or from the encoded card order)
+      const seededDeckList = await DraftService.loadSeedDeckList(seed);
 
       // Update state with the seeded deck list and clear any URL-loaded list
-      setSeededDeckList(seededDeckList);
+      setSeededDeckList(settings
+        ? { ...seededDeckList, settings: { ...DEFAULT_DRAFT_OPTIONS, ...seededDeckList.settings, ...settings } }
+        : seededDeckList);
       setParsedDeckList(null); // Clear any existing deck list
       setGameState(prev => ({ ...prev, isLoading: false, error: null }));
     } catch (error) {
@@ -160,19 +330,292 @@ const App: React.FC = () => {
   }, []);
 
 
+  /**
+   * Opens a play-by-link turn link: finds the saved draft waiting for that turn,
+   * resumes it and applies the move.
+   * 
+   * @param input - Turn token from the link
+   */
+  const handleOpenTurnLink = useCallback(async (input: string): Promise<void> => {
+    try {
+      const token = parseTurnToken(input);
+      const savedDraft = (await draftStorage.listDrafts()).find(saved =>
+        getSeedHash(saved.draft.settings.seed) === token.seedHash &&
+        getTurnNumber(saved.draft.history) === token.turn
+      );
+      if (!savedDraft) {
+        throw new Error('No saved draft is waiting for this turn. Start or resume the draft from its seed, then paste the turn token.');
+      }
+
+      const { draft, chainVerified } = await applyTurnToken(savedDraft.draft, token);
+      setGameState(prev => ({ ...prev, draft, error: chainVerified === false ? CHAIN_MISMATCH_WARNING : null }));
+      setActiveSave({ id: savedDraft.id, name: savedDraft.name });
+      setRedoStack([]);
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Failed to open turn link' 
+      }));
+    }
+  }, []);
+
+  /**
+   * Creates a client for the draft server, replacing any existing connection.
+   * While connected, the server's draft state replaces the local one.
+   * 
+   * @param serverUrl - WebSocket URL of the draft server
+   * @returns The new client
+   */
+  const createOnlineClient = useCallback((serverUrl: string): OnlineDraftClient => {
+    onlineClient.current?.close();
+
+    const client = new OnlineDraftClient(serverUrl, {
+      onJoined: (session, draft) => {
+        setOnlineSession(session);
+        setGameState(prev => ({ ...prev, draft, error: null }));
+        setActiveSave(prev => prev ?? { id: createSaveId(), name: `Online room ${session.roomId}` });
+        setRedoStack([]);
+      },
+      onState: (draft) => setGameState(prev => ({ ...prev, draft, error: null })),
+      onPresence: setOnlinePresence,
+      onError: (message) => setGameState(prev => ({ ...prev, error: message })),
+      onStatus: (status) => {
+        setOnlineStatus(status);
+        if (status === 'disconnected') {
+          setOnlineSession(null);
+          setOnlinePresence(null);
+        }
+      },
+    });
+
+    onlineClient.current = client;
+    return client;
+  }, []);
+
+  /**
+   * Hosts the current draft in a new room on the draft server.
+   * 
+   * @param serverUrl - WebSocket URL of the draft server
+   */
+  const handleHostOnline = useCallback((serverUrl: string): void => {
+    if (!gameState.draft) return;
+    createOnlineClient(serverUrl).createRoom(gameState.draft);
+  }, [gameState.draft, createOnlineClient]);
+
+  /**
+   * Joins a room on the draft server.
+   * 
+   * @param serverUrl - WebSocket URL of the draft server
+   * @param roomId - Room code shared by the host
+   */
+  const handleJoinOnline = useCallback((serverUrl: string, roomId: string): void => {
+    createOnlineClient(serverUrl).joinRoom(roomId);
+  }, [createOnlineClient]);
+
+  /**
+   * Leaves the online room. The draft stays open locally.
+   */
+  const handleLeaveOnline = useCallback((): void => {
+    onlineClient.current?.leave();
+    onlineClient.current = null;
+  }, []);
+
+  /**
+   * Creates a peer-to-peer session, replacing any existing one.
+   * Both browsers apply every command locally and report the resulting draft here.
+   * 
+   * @param role - Whether this browser hosts (makes the offer) or joins
+   * @returns The new session
+   */
+  const createPeerSession = useCallback((role: PeerRole): PeerDraftSession => {
+    peerSession.current?.close();
+
+    const session = new PeerDraftSession(role, {
+      onState: (draft) => {
+        setGameState(prev => ({ ...prev, draft, error: null }));
+        setActiveSave(prev => prev ?? { id: createSaveId(), name: 'Peer-to-peer draft' });
+        setRedoStack([]);
+      },
+      onStatus: setPeerStatus,
+      onDesync: setPeerDesync,
+      onError: (message) => setGameState(prev => ({ ...prev, error: message })),
+    });
+
+    peerSession.current = session;
+    setPeerRole(role);
+    setPeerDesync(null);
+    return session;
+  }, []);
+
+  // Until the guest connects, keep the host's session on the latest draft so the guest receives it
+  useEffect(() => {
+    if (peerRole === 'host' && !isPeerConnected && gameState.draft) {
+      peerSession.current?.setDraft(gameState.draft);
+    }
+  }, [gameState.draft, peerRole, isPeerConnected]);
+
+  /**
+   * Hosts the current draft peer-to-peer.
+   * 
+   * @returns Promise resolving to the offer code for the other player
+   */
+  const handleHostPeer = useCallback(async (): Promise<string> => {
+    if (!gameState.draft) throw new Error('There is no draft to host');
+    return createPeerSession('host').createOffer(gameState.draft);
+  }, [gameState.draft, createPeerSession]);
+
+  /**
+   * Joins a peer-to-peer draft from the host's offer code.
+   * 
+   * @param offerCode - Offer code from the host
+   * @returns Promise resolving to the answer code to send back
+   */
+  const handleJoinPeer = useCallback(async (offerCode: string): Promise<string> => {
+    return createPeerSession('guest').acceptOffer(offerCode);
+  }, [createPeerSession]);
+
+  /**
+   * Completes the host's connection with the guest's answer code.
+   * 
+   * @param answerCode - Answer code from the guest
+   */
+  const handleAcceptPeerAnswer = useCallback(async (answerCode: string): Promise<void> => {
+    await peerSession.current?.acceptAnswer(answerCode);
+  }, []);
+
+  /**
+   * Closes the peer-to-peer connection. The draft stays open locally.
+   */
+  const handleDisconnectPeer = useCallback((): void => {
+    peerSession.current?.close();
+    peerSession.current = null;
+    setPeerRole(null);
+    setPeerStatus('idle');
+    setPeerDesync(null);
+  }, []);
+
+  /**
+   * Stops following the shared hot-seat draft in this window.
+   */
+  const leaveHotSeat = useCallback((): void => {
+    hotSeat.current?.close();
+    hotSeat.current = null;
+    setHotSeatSeat(null);
+    // Drop the #seat link so a reload does not rejoin
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  /**
+   * Makes this window one player's hot-seat window, following moves made in the other window.
+   * 
+   * @param seat - Player this window is for
+   * @returns The hot-seat connection
+   */
+  const joinHotSeat = useCallback((seat: PlayerId): HotSeatSync => {
+    hotSeat.current?.close();
+
+    const sync = new HotSeatSync(seat, ({ draft, save }) => {
+      if (draft) {
+        setGameState(prev => ({ ...prev, draft, error: null }));
+        setActiveSave(save);
+        return;
+      }
+
+      // The other window ended hot-seat play; the draft stays open there
+      leaveHotSeat();
+      setGameState({ draft: null, isLoading: false, error: null });
+      setActiveSave(null);
+    });
+
+    hotSeat.current = sync;
+    setHotSeatSeat(seat);
+    setRedoStack([]);
+    window.history.replaceState(null, '', buildShareLink({ seat }));
+    return sync;
+  }, [leaveHotSeat]);
+
+  /**
+   * Opens a player's hot-seat window in a new tab.
+   * 
+   * @param seat - Player the window is for
+   */
+  const handleOpenHotSeatWindow = useCallback((seat: PlayerId): void => {
+    window.open(buildShareLink({ seat }), '_blank');
+  }, []);
+
+  /**
+   * Splits the current draft into hot-seat windows: this window becomes
+   * Player 1's and a new window opens for Player 2.
+   */
+  const handleStartHotSeat = useCallback((): void => {
+    if (!gameState.draft) return;
+
+    const save = activeSave ?? { id: createSaveId(), name: 'Hot-seat draft' };
+    setActiveSave(save);
+    joinHotSeat('P1').publish({ draft: gameState.draft, save });
+    handleOpenHotSeatWindow('P2');
+  }, [gameState.draft, activeSave, joinHotSeat, handleOpenHotSeatWindow]);
+
+  /**
+   * Ends hot-seat play in every window. This window keeps the draft.
+   */
+  const handleEndHotSeat = useCallback((): void => {
+    hotSeat.current?.publish({ draft: null, save: null });
+    leaveHotSeat();
+  }, [leaveHotSeat]);
+
+  // Tracks whether the page URL has been checked for a share link (effects run twice in StrictMode)
+  const hasLoadedShareLink = useRef<boolean>(false);
+
+  /**
+   * Loads a seed or deck list passed in the page URL (a share link) on first render.
+   * Uses the same loading path as the seed and deck list inputs.
+   */
+  useEffect(() => {
+    if (hasLoadedShareLink.current) return;
+    hasLoadedShareLink.current = true;
+
+    // Reclaim the online seat held before a page reload
+    const savedSession = OnlineDraftClient.getSavedSession();
+    if (savedSession) {
+      createOnlineClient(savedSession.serverUrl).resume(savedSession);
+      return;
+    }
+
+    const shareLink = parseShareLink();
+    if (!shareLink) return;
+
+    if (shareLink.seat) {
+      // A hot-seat window follows the draft shared by the window that opened it
+      const shared = HotSeatSync.getSharedState();
+      if (shared?.draft) {
+        joinHotSeat(shareLink.seat);
+        setGameState(prev => ({ ...prev, draft: shared.draft }));
+        setActiveSave(shared.save);
+      } else {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setGameState(prev => ({ ...prev, error: 'No hot-seat draft is open in another window' }));
+      }
+    } else if (shareLink.turn) {
+      // Turn links are single-use, so clear the hash to avoid reapplying the turn on reload
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      handleOpenTurnLink(shareLink.turn);
+    } else if (shareLink.seed) {
+      handleLoadSeed(shareLink.seed, shareLink.settings);
+    } else if (shareLink.deckUrl) {
+      handleDeckInput(shareLink.deckUrl, shareLink.settings);
+    }
+  }, [handleLoadSeed, handleDeckInput, handleOpenTurnLink, createOnlineClient, joinHotSeat]);
+
   /**
    * Starts a draft with the current seeded deck list.
    * This function is called when starting a draft from a seed-loaded deck list.
    * The seed ensures the exact same card order as the original draft.
    * 
-   * @param packSize - Number of cards per pack (typically 6-8)
-   * @param numberOfRounds - Number of rounds to draft (each round = 2 packs)
+   * @param options - Draft settings (prefilled from the seed when it records them)
    * @throws Will set error state if seeded draft creation fails
    */
-  const handleStartSeededDraftFromList = useCallback(async (
-    packSize: number, 
-    numberOfRounds: number
-  ): Promise<void> => {
+  const handleStartSeededDraftFromList = useCallback((options: DraftOptions): void => {
     // Validate that we have a seeded deck list loaded
     if (!seededDeckList?.seed) {
       setGameState(prev => ({ 
@@ -182,44 +625,56 @@ const App: React.FC = () => {
       return;
     }
 
-    // Set loading state and clear any previous errors
-    setGameState(prev => ({ ...prev, isLoading: true, error: null }));
-
     try {
       // Create the seeded draft using the original seed for consistent card order
-      const draft = await DraftService.createSeededDraft(seededDeckList.seed, packSize, numberOfRounds);
+      const draft = DraftService.createDraftFromSeedList(seededDeckList, options);
       
       // Automatically deal the first pack to start the draft
-      const draftWithFirstPack = DraftService.performDraftAction(draft, 'start-round', {});
+      const draftWithFirstPack = DraftService.performDraftAction(draft, { type: 'start-round' });
       
-      // Update game state to show the draft interface
-      setGameState(prev => ({ ...prev, draft: draftWithFirstPack, isLoading: false, error: null }));
+      // Update game state to show the draft interface and start autosaving it
+      setGameState(prev => ({ ...prev, draft: draftWithFirstPack, error: null }));
+      setActiveSave({ id: createSaveId(), name: DeckListParser.getDisplayName(seededDeckList) });
     } catch (error) {
       // Handle seeded draft creation errors
       setGameState(prev => ({ 
         ...prev, 
-        isLoading: false,
         error: error instanceof Error ? error.message : 'Failed to create seeded draft' 
       }));
     }
   }, [seededDeckList]);
 
   /**
-   * Handles draft actions (splitting packs, choosing piles, etc.).
+   * Handles draft commands (splitting packs, choosing piles, etc.).
    * This is the main function that processes all user interactions during a draft.
    * 
-   * @param action - The action to perform (e.g., 'split-pack', 'choose-pile', 'start-round')
-   * @param data - Additional data for the action (e.g., pile assignments, chosen pile ID)
-   * @throws Will set error state if the draft action fails
+   * @param command - The command to apply (e.g., split-pack with piles, choose-pile with a pile ID)
+   * @throws Will set error state if the draft engine rejects the command
    */
-  const handleDraftAction = useCallback((action: string, data?: unknown): void => {
+  const handleDraftAction = useCallback((command: DraftCommand): void => {
     // Ensure we have an active draft before processing actions
     if (!gameState.draft) return;
 
+    // Online, the server applies the command and broadcasts the new state
+    if (onlineSession && onlineClient.current) {
+      onlineClient.current.sendCommand(command);
+      return;
+    }
+
+    // Peer-to-peer, the session applies the command and sends it to the other browser
+    if (isPeerConnected && peerSession.current) {
+      peerSession.current.sendCommand(command);
+      return;
+    }
+
     try {
-      // Process the draft action and get the updated draft state
-      const updatedDraft = DraftService.performDraftAction(gameState.draft, action, data);
+      // Process the draft command and get the updated draft state
+      const updatedDraft = DraftService.performDraftAction(gameState.draft, command);
       setGameState(prev => ({ ...prev, draft: updatedDraft }));
+      // A new action invalidates anything that was undone
+      setRedoStack([]);
+      // In hot-seat mode the other player's window updates from the shared draft
+      hotSeat.current?.publish({ draft: updatedDraft, save: activeSave });
     } catch (error) {
       // Handle draft action errors
       setGameState(prev => ({ 
@@ -227,13 +682,104 @@ const App: React.FC = () => {
         error: error instanceof Error ? error.message : 'Draft action failed' 
       }));
     }
+  }, [gameState.draft, onlineSession, isPeerConnected, activeSave]);
+
+  // Lets a bot move when it holds the active seat (bots only play in local drafts)
+  useEffect(() => {
+    const draft = gameState.draft;
+    if (!draft || draft.isComplete || onlineSession || peerRole || hotSeatSeat) return;
+
+    const difficulty = draft.settings.bots?.[getActivePlayer(draft.currentPhase)];
+    if (!difficulty) return;
+
+    const timer = setTimeout(() => handleDraftAction(DraftBot.getCommand(draft, difficulty)), BOT_MOVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [gameState.draft, onlineSession, peerRole, hotSeatSeat, handleDraftAction]);
+
+  /**
+   * Applies a turn token pasted by the player (play-by-link).
+   * 
+   * @param input - Turn token or turn link
+   * @throws Error if the token is invalid, for another draft, or out of order
+   */
+  const handleApplyTurnToken = useCallback(async (input: string): Promise<void> => {
+    if (!gameState.draft) return;
+
+    const { draft, chainVerified } = await applyTurnToken(gameState.draft, parseTurnToken(input));
+    setGameState(prev => ({ ...prev, draft, error: chainVerified === false ? CHAIN_MISMATCH_WARNING : null }));
+    setRedoStack([]);
+  }, [gameState.draft]);
+
+  /**
+   * Undoes the most recent split or pile choice.
+   * The draft is rebuilt by replaying the remaining history from the initial pool,
+   * so any pack dealt after the undone action goes back to the pool in order.
+   */
+  const handleUndo = useCallback((): void => {
+    if (!gameState.draft || !DraftService.canUndo(gameState.draft)) return;
+
+    try {
+      let { draft, undone } = DraftService.undoLastAction(gameState.draft);
+      const undoneGroups = [undone];
+
+      // Against a bot, keep undoing back to a person's move, or the bot would replay its move at once
+      while (isBotMove(draft, undone) && DraftService.canUndo(draft)) {
+        ({ draft, undone } = DraftService.undoLastAction(draft));
+        undoneGroups.push(undone);
+      }
+
+      setGameState(prev => ({ ...prev, draft, error: null }));
+      setRedoStack(prev => [...prev, ...undoneGroups]);
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Undo failed' 
+      }));
+    }
   }, [gameState.draft]);
 
+  /**
+   * Reapplies the most recently undone action.
+   */
+  const handleRedo = useCallback((): void => {
+    if (!gameState.draft || redoStack.length === 0) return;
+
+    try {
+      const actions = redoStack[redoStack.length - 1];
+      const draft = DraftService.redoActions(gameState.draft, actions);
+      setGameState(prev => ({ ...prev, draft, error: null }));
+      setRedoStack(prev => prev.slice(0, -1));
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Redo failed' 
+      }));
+    }
+  }, [gameState.draft, redoStack]);
+
+  /**
+   * Saves a change to a player's deck after the draft
+   * @param player - Player whose deck changed
+   * @param deck - Updated deck
+   */
+  const handleDeckChange = useCallback((player: PlayerId, deck: DeckBuild): void => {
+    if (!gameState.draft) return;
+
+    const updatedDraft = { ...gameState.draft, decks: { ...gameState.draft.decks, [player]: deck } };
+    setGameState(prev => ({ ...prev, draft: updatedDraft }));
+    // Both hot-seat windows autosave the same draft, so the other window must keep this deck too
+    hotSeat.current?.publish({ draft: updatedDraft, save: activeSave });
+  }, [gameState.draft, activeSave]);
+
   /**
    * Resets the game state to start over.
    * Clears all draft data, deck lists, and UI state to return to the start screen.
    */
   const handleReset = useCallback((): void => {
+    handleLeaveOnline();
+    handleDisconnectPeer();
+    if (hotSeat.current) handleEndHotSeat();
+
     // Reset all state to initial values
     setGameState({
       draft: null,
@@ -243,8 +789,119 @@ const App: React.FC = () => {
     setShowHistory(false);
     setParsedDeckList(null);
     setSeededDeckList(null);
+    setRedoStack([]);
+    setActiveSave(null);
+    setFairStart(null);
+  }, [handleLeaveOnline, handleDisconnectPeer, handleEndHotSeat]);
+
+  /**
+   * Resumes a draft saved in the browser.
+   * 
+   * @param id - ID of the saved draft to resume
+   */
+  const handleResumeDraft = useCallback(async (id: string): Promise<void> => {
+    try {
+      const savedDraft = await draftStorage.loadDraft(id);
+      if (!savedDraft) {
+        throw new Error('Saved draft not found');
+      }
+
+      setGameState(prev => ({ ...prev, draft: savedDraft.draft, error: null }));
+      setActiveSave({ id: savedDraft.id, name: savedDraft.name });
+      setRedoStack([]);
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Failed to resume draft' 
+      }));
+    }
+  }, []);
+
+  /**
+   * Imports an exported draft file and resumes the draft at its saved phase.
+   * The imported draft is saved in the browser as a new draft.
+   * 
+   * @param file - Draft file chosen by the user
+   * @throws Error if the file cannot be read or is not a valid draft file
+   */
+  const handleImportDraftFile = useCallback(async (file: File): Promise<void> => {
+    const { draft, name } = DraftFileService.importDraft(await file.text());
+
+    setGameState(prev => ({ ...prev, draft, error: null }));
+    setActiveSave({ id: createSaveId(), name: name ?? file.name.replace(/\.json$/i, '') });
+    setRedoStack([]);
   }, []);
 
+  /**
+   * Loads the cards of an exported deck file as the pool for a new draft.
+   *
+   * @param file - Deck file chosen by the user
+   * @throws Error if the file has no cards that can be found
+   */
+  const handleImportDeckFile = useCallback(async (file: File): Promise<void> => {
+    setGameState(prev => ({ ...prev, isLoading: true, error: null }));
+    try {
+      setParsedDeckList(await DeckListParser.parseDeckFile(file.name, await file.text()));
+    } finally {
+      setGameState(prev => ({ ...prev, isLoading: false }));
+    }
+  }, []);
+
+  /**
+   * Deletes a draft saved in the browser.
+   * 
+   * @param id - ID of the saved draft to delete
+   */
+  const handleDeleteSavedDraft = useCallback(async (id: string): Promise<void> => {
+    try {
+      await draftStorage.deleteDraft(id);
+      await refreshSavedDrafts();
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Failed to delete saved draft' 
+      }));
+    }
+  }, [refreshSavedDrafts]);
+
+  /**
+   * Renames a draft saved in the browser.
+   * 
+   * @param id - ID of the saved draft to rename
+   * @param name - New name for the draft
+   */
+  const handleRenameSavedDraft = useCallback(async (id: string, name: string): Promise<void> => {
+    try {
+      await draftStorage.renameDraft(id, name);
+      await refreshSavedDrafts();
+    } catch (error) {
+      setGameState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Failed to rename saved draft' 
+      }));
+    }
+  }, [refreshSavedDrafts]);
+
+  /**
+   * Imports card ratings for the active draft's cube.
+   * 
+   * @param file - CSV or JSON ratings file chosen by the user
+   * @throws Error if the file contains no ratings
+   */
+  const handleImportRatings = useCallback(async (file: File): Promise<void> => {
+    if (!ratingPoolKey) return;
+    setRatings(ratingService.importRatings(ratingPoolKey, await file.text(), file.name));
+  }, [ratingPoolKey]);
+
+  /**
+   * Removes the card ratings imported for the active draft's cube.
+   */
+  const handleRemoveRatings = useCallback((): void => {
+    if (!ratingPoolKey) return;
+    ratingService.removeRatings(ratingPoolKey);
+    setRatings(null);
+  }, [ratingPoolKey]);
+
   /**
    * Toggles the visibility of the draft history panel.
    * This allows users to view all actions taken during the current draft.
@@ -253,6 +910,10 @@ const App: React.FC = () => {
     setShowHistory(prev => !prev);
   }, []);
 
+  // Against a single bot, the draft is shown from the person's seat so the bot's turns read as waiting
+  const botSeats = Object.keys(gameState.draft?.settings.bots ?? {}) as PlayerId[];
+  const humanSeat: PlayerId | undefined = botSeats.length === 1 ? (botSeats[0] === 'P1' ? 'P2' : 'P1') : undefined;
+
   return (
     <div className="min-h-screen bg-gray-100">
       <Header />
@@ -330,6 +991,8 @@ const App: React.FC = () => {
                   <DeckInputForm 
                     onDeckInput={handleDeckInput}
                     onLoadSeed={handleLoadSeed}
+                    onImportDraftFile={handleImportDraftFile}
+                    onImportDeckFile={handleImportDeckFile}
                     isLoading={gameState.isLoading}
                   />
                   
@@ -340,9 +1003,52 @@ const App: React.FC = () => {
                     hasDeckList={!!(parsedDeckList || seededDeckList)}
                     parsedDeckList={parsedDeckList || seededDeckList}
                   />
+
+                  {/* Fair start - commit-reveal exchange for remote drafts from a Moxfield or CubeCobra list */}
+                  {parsedDeckList && DeckListParser.getPoolSource(parsedDeckList.url) && (
+                    <FairStartPanel
+                      fairStart={fairStart}
+                      onFairStartReady={setFairStart}
+                    />
+                  )}
                 </div>
               </div>
             </div>
+
+            {/* Saved drafts - resume, rename or delete drafts stored in the browser */}
+            <SavedDrafts
+              drafts={savedDrafts}
+              onResume={handleResumeDraft}
+              onDelete={handleDeleteSavedDraft}
+              onRename={handleRenameSavedDraft}
+            />
+
+            {/* Online play - join a room hosted on the draft server */}
+            {!peerRole && (
+              <OnlinePlayPanel
+                session={onlineSession}
+                status={onlineStatus}
+                connected={onlinePresence}
+                canHost={false}
+                onHost={handleHostOnline}
+                onJoin={handleJoinOnline}
+                onLeave={handleLeaveOnline}
+              />
+            )}
+
+            {/* Peer-to-peer play - join a draft from the host's offer code */}
+            {!onlineSession && (
+              <PeerPlayPanel
+                role={peerRole}
+                status={peerStatus}
+                desync={peerDesync}
+                canHost={false}
+                onHost={handleHostPeer}
+                onJoin={handleJoinPeer}
+                onAcceptAnswer={handleAcceptPeerAnswer}
+                onDisconnect={handleDisconnectPeer}
+              />
+            )}
           </div>
         ) : (
           /* DRAFT INTERFACE: Main game area when a draft is active */
@@ -352,35 +1058,148 @@ const App: React.FC = () => {
               draft={gameState.draft}
               onDraftAction={handleDraftAction}
               onReset={handleReset}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={!onlineSession && !isPeerConnected && !hotSeatSeat && DraftService.canUndo(gameState.draft)}
+              canRedo={!onlineSession && !isPeerConnected && !hotSeatSeat && redoStack.length > 0}
+              draftName={activeSave?.name}
+              seat={hotSeatSeat ?? onlineSession?.seat ?? (peerRole ? peerSession.current?.seat : undefined) ?? humanSeat}
+              hideFullDraft={!!hotSeatSeat}
             />
-            
-            {/* Player pick areas - shows cards collected by each player */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <PlayerPicks 
-                player="P1" 
-                picks={gameState.draft.p1Picks}
-                cardSize="large"
+
+            {/* Hot-seat play - a window per player on this computer */}
+            {!onlineSession && !peerRole && botSeats.length === 0 && (hotSeatSeat || !gameState.draft.isComplete) && (
+              <HotSeatPanel
+                seat={hotSeatSeat}
+                onStart={handleStartHotSeat}
+                onOpenWindow={handleOpenHotSeatWindow}
+                onEnd={handleEndHotSeat}
+              />
+            )}
+
+            {/* Online play - host this draft on the draft server, or show the room's status */}
+            {!peerRole && !hotSeatSeat && (
+              <OnlinePlayPanel
+                session={onlineSession}
+                status={onlineStatus}
+                connected={onlinePresence}
+                canHost={!gameState.draft.isComplete}
+                onHost={handleHostOnline}
+                onJoin={handleJoinOnline}
+                onLeave={handleLeaveOnline}
               />
-              <PlayerPicks 
-                player="P2" 
-                picks={gameState.draft.p2Picks}
-                cardSize="large"
+            )}
+
+            {/* Peer-to-peer play - host this draft over WebRTC, or show the connection and sync status */}
+            {!onlineSession && !hotSeatSeat && (peerRole || !gameState.draft.isComplete) && (
+              <PeerPlayPanel
+                role={peerRole}
+                status={peerStatus}
+                desync={peerDesync}
+                canHost={!gameState.draft.isComplete}
+                onHost={handleHostPeer}
+                onJoin={handleJoinPeer}
+                onAcceptAnswer={handleAcceptPeerAnswer}
+                onDisconnect={handleDisconnectPeer}
               />
+            )}
+
+            {/* Play by link - exchange turn tokens with a remote opponent (not needed while connected) */}
+            {!onlineSession && !isPeerConnected && !hotSeatSeat && (
+              <TurnTokenPanel
+                draft={gameState.draft}
+                onApplyTurnToken={handleApplyTurnToken}
+              />
+            )}
+            
+            {/* Player pick areas - shows cards collected by each player (only this player's in a hot-seat window) */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {hotSeatSeat !== 'P2' && (
+                <div className="space-y-4">
+                  <PlayerPicks 
+                    player="P1" 
+                    picks={gameState.draft.p1Picks}
+                    cardSize="large"
+                  />
+                  <ColorPairTracker
+                    player="P1"
+                    picks={gameState.draft.p1Picks}
+                    lastPick={DraftService.getLastPick(gameState.draft, 'P1')}
+                  />
+                </div>
+              )}
+              {hotSeatSeat !== 'P1' && (
+                <div className="space-y-4">
+                  <PlayerPicks 
+                    player="P2" 
+                    picks={gameState.draft.p2Picks}
+                    cardSize="large"
+                  />
+                  <ColorPairTracker
+                    player="P2"
+                    picks={gameState.draft.p2Picks}
+                    lastPick={DraftService.getLastPick(gameState.draft, 'P2')}
+                  />
+                </div>
+              )}
             </div>
             
-            {/* Export section - only shown when draft is complete */}
+            {/* Deckbuilding - each player builds their commander deck once the draft is complete */}
+            {gameState.draft.isComplete && gameState.draft.decks && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {hotSeatSeat !== 'P2' && gameState.draft.decks.P1 && (
+                  <DeckBuilder
+                    player="P1"
+                    picks={gameState.draft.p1Picks}
+                    deck={gameState.draft.decks.P1}
+                    onChange={(deck) => handleDeckChange('P1', deck)}
+                  />
+                )}
+                {hotSeatSeat !== 'P1' && gameState.draft.decks.P2 && (
+                  <DeckBuilder
+                    player="P2"
+                    picks={gameState.draft.p2Picks}
+                    deck={gameState.draft.decks.P2}
+                    onChange={(deck) => handleDeckChange('P2', deck)}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Export section - only shown when draft is complete (only this player's lists in a hot-seat window) */}
             {gameState.draft.isComplete && (
               <ExportSection 
                 p1Picks={gameState.draft.p1Picks}
                 p2Picks={gameState.draft.p2Picks}
+                decks={gameState.draft.decks}
+                cubeName={activeSave?.name ?? 'Solomon Draft'}
+                seed={gameState.draft.settings.seed}
+                seat={hotSeatSeat ?? undefined}
               />
             )}
+
+            {/* Commander limited legality - commander pairs and playable cards per player */}
+            {gameState.draft.isComplete && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {hotSeatSeat !== 'P2' && <CommanderDeckCheck player="P1" picks={gameState.draft.p1Picks} />}
+                {hotSeatSeat !== 'P1' && <CommanderDeckCheck player="P2" picks={gameState.draft.p2Picks} />}
+              </div>
+            )}
             
+            {/* Card ratings - import ratings for this cube (used by bots, badges and pile totals) */}
+            <RatingsPanel
+              ratings={ratings}
+              onImport={handleImportRatings}
+              onRemove={handleRemoveRatings}
+            />
+
             {/* Draft history - collapsible panel showing all actions taken */}
             <DraftHistory 
               history={gameState.draft.history}
+              verification={verification}
               isVisible={showHistory}
               onToggle={toggleHistory}
+              seat={hotSeatSeat ?? undefined}
             />
           </div>
         )}
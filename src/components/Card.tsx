@@ -1,6 +1,8 @@
 import React from 'react';
-import { CardInPool, Card as CardType } from '@/types/card';
+import { CardInPool } from '@/types/card';
 import { CardSize, getCardDimensions } from '@/constants/cardDimensions';
+import { ratingService } from '@/services/ratingService';
+import { getCardImageUrl, PLACEHOLDER_CARD_IMAGE } from '@/utils/cardImages';
 
 interface CardProps {
   cardInPool: CardInPool;
@@ -10,21 +12,6 @@ interface CardProps {
   isDraggable?: boolean;
 }
 
-/**
- * Gets the appropriate image URL for a card, handling both single-faced and double-faced cards
- * @param card - The card to get the image URL for
- * @returns The image URL for the card
- */
-const getCardImageUrl = (card: CardType): string => {
-  // For double-faced cards, use the front face image
-  if (card.card_faces && card.card_faces.length > 0) {
-    return card.card_faces[0].image_uris?.normal || card.card_faces[0].image_uris?.small || '/placeholder-card.png';
-  }
-  
-  // For single-faced cards, use the root image_uris
-  return card.image_uris?.normal || card.image_uris?.small || '/placeholder-card.png';
-};
-
 /**
  * Component for displaying individual Magic: The Gathering cards
  * Shows card image, name, mana cost, and other relevant information
@@ -36,6 +23,8 @@ export const Card: React.FC<CardProps> = ({
   isDraggable = false 
 }) => {
   const { card, quantity } = cardInPool;
+  const showRating = ratingService.getActiveRatings() !== null;
+  const isRated = showRating && ratingService.hasRating(card);
   
   const dimensions = getCardDimensions(size);
   const sizeClasses = `${dimensions.tailwindWidth} ${dimensions.tailwindHeight}`;
@@ -80,7 +69,7 @@ export const Card: React.FC<CardProps> = ({
           onError={(e) => {
             // Fallback to placeholder if image fails to load
             const target = e.target as HTMLImageElement;
-            target.src = '/placeholder-card.png';
+            target.src = PLACEHOLDER_CARD_IMAGE;
           }}
         />
         
@@ -90,6 +79,16 @@ export const Card: React.FC<CardProps> = ({
             {quantity}
           </div>
         )}
+
+        {/* Rating Badge - shown once ratings are imported for the cube; estimates are faded */}
+        {showRating && (
+          <div
+            className={`absolute bottom-1 left-1 bg-blue-600 text-white text-xs rounded px-1 ${isRated ? '' : 'opacity-75'}`}
+            title={isRated ? 'Imported rating' : 'No imported rating - estimated from rarity and mana value'}
+          >
+            {ratingService.getRating(card).toFixed(1)}
+          </div>
+        )}
       </div>
 
       {/* Card Info Overlay - Removed to show clean card images */}
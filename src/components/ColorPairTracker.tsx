@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { PlayerId } from '@/types/draft';
+import { CommanderValidator } from '@/services/commanderValidator';
+
+interface ColorPairTrackerProps {
+  player: PlayerId;
+  picks: PlayerPicks;
+  /** Cards from the player's most recent pick, shown as changes to the counts */
+  lastPick: CardInPool[];
+}
+
+/**
+ * Names of the two-color pairs
+ */
+const PAIR_NAMES: Record<string, string> = {
+  WU: 'Azorius',
+  WB: 'Orzhov',
+  WR: 'Boros',
+  WG: 'Selesnya',
+  UB: 'Dimir',
+  UR: 'Izzet',
+  UG: 'Simic',
+  BR: 'Rakdos',
+  BG: 'Golgari',
+  RG: 'Gruul',
+};
+
+/**
+ * Tracks which two-color pairs a player's picks support as the draft goes:
+ * playable cards and monocolored creature commanders for each pair, and how
+ * much the latest pick added to each.
+ */
+export const ColorPairTracker: React.FC<ColorPairTrackerProps> = ({ player, picks, lastPick }) => {
+  const stats = useMemo(
+    () =>
+      CommanderValidator.getColorPairStats(picks, lastPick).sort(
+        (a, b) => b.playableCount - a.playableCount || b.commanderCount - a.commanderCount
+      ),
+    [picks, lastPick]
+  );
+
+  /**
+   * Formats how much the latest pick added to a count
+   * @param gained - Cards the latest pick added
+   * @returns Change label, or nothing if the pick added none
+   */
+  const formatGain = (gained: number): React.ReactNode =>
+    gained > 0 ? <span className="text-green-600"> +{gained}</span> : null;
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold">{player === 'P1' ? 'Player 1' : 'Player 2'} Color Pairs</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Cards playable with two commanders of each pair; +N is what the last pick added
+      </p>
+
+      <div className="grid grid-cols-4 gap-1 text-sm">
+        <div className="font-medium text-gray-700">Pair</div>
+        <div className="font-medium text-gray-700 text-center">Playable</div>
+        <div className="font-medium text-gray-700 text-center">Commanders</div>
+        <div className="font-medium text-gray-700 text-center">Status</div>
+        {stats.map(pair => {
+          const key = pair.colors.join('');
+          return (
+            <React.Fragment key={key}>
+              <div className="truncate">
+                <strong className="font-mono">{key}</strong> <span className="text-gray-600">{PAIR_NAMES[key]}</span>
+              </div>
+              <div className="text-center">
+                {pair.playableCount}
+                {formatGain(pair.lastPickPlayable)}
+              </div>
+              <div className="text-center">
+                {pair.commanderCount}
+                {formatGain(pair.lastPickCommanders)}
+              </div>
+              <div
+                className={`text-center text-xs ${pair.hasCommanders ? 'text-green-800' : 'text-gray-500'}`}
+                title={pair.hasCommanders ? undefined : 'Needs a monocolored creature of each color to use both colors'}
+              >
+                {pair.hasCommanders ? 'Open' : 'Needs commanders'}
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
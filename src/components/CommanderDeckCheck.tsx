@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { PlayerId } from '@/types/draft';
+import { CommanderPair } from '@/types/commander';
+import { COMMANDER_DECK_SIZE, MAX_BASIC_LANDS } from '@/constants/commander';
+import { CommanderValidator, getPairName } from '@/services/commanderValidator';
+import { downloadFile } from '@/utils/download';
+
+interface CommanderDeckCheckProps {
+  player: PlayerId;
+  picks: PlayerPicks;
+}
+
+/**
+ * Gets a key identifying a commander pair
+ * @param pair - Commander pair
+ * @returns Both commanders' IDs
+ */
+const getPairKey = (pair: CommanderPair): string => pair.commanders.map(card => card.id).join('+');
+
+/**
+ * Checks a player's picks against the commander limited rules.
+ * Lists every legal commander pair and, for the chosen pair, which cards are
+ * playable, which are off-identity, and whether a 60-card deck can be built.
+ */
+export const CommanderDeckCheck: React.FC<CommanderDeckCheckProps> = ({ player, picks }) => {
+  const pairs = useMemo(() => CommanderValidator.getCommanderPairs(picks), [picks]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const playerName = player === 'P1' ? 'Player 1' : 'Player 2';
+
+  // The pair with the most playable cards is shown until another is chosen
+  const pair = pairs.find(candidate => getPairKey(candidate) === selectedKey) ?? pairs[0];
+  const report = useMemo(() => (pair ? CommanderValidator.validateDeck(picks, pair) : null), [picks, pair]);
+
+  /**
+   * Handles downloading the deck check as a text file
+   */
+  const handleDownload = (): void => {
+    if (!report) return;
+    downloadFile(
+      CommanderValidator.formatReport(report, playerName),
+      `${player === 'P1' ? 'player1' : 'player2'}-commander-check.txt`
+    );
+  };
+
+  /**
+   * Renders a list of cards with their quantities
+   * @param cards - Cards to list
+   * @returns Card list element
+   */
+  const renderCardList = (cards: CardInPool[]): React.ReactNode => (
+    <ul className="text-xs text-gray-700 overflow-y-auto max-h-40">
+      {cards.map(entry => (
+        <li key={entry.card.id}>
+          {entry.quantity} {entry.card.name}
+        </li>
+      ))}
+      {cards.length === 0 && <li className="text-gray-500">None</li>}
+    </ul>
+  );
+
+  if (!report) {
+    return (
+      <div className="card">
+        <h3 className="text-lg font-semibold">{playerName} Commander Check</h3>
+        <p className="text-sm text-gray-600">
+          No legal commander pair: at least two monocolored creatures are needed.
+        </p>
+      </div>
+    );
+  }
+
+  const playableCount = report.playable.reduce((total, entry) => total + entry.quantity, 0);
+  const offIdentityCount = report.offIdentity.reduce((total, entry) => total + entry.quantity, 0);
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">{playerName} Commander Check</h3>
+          <p className="text-sm text-gray-600">
+            {pairs.length} legal commander {pairs.length === 1 ? 'pair' : 'pairs'}
+          </p>
+        </div>
+        <button onClick={handleDownload} className="btn btn-sm btn-secondary">
+          Download Report
+        </button>
+      </div>
+
+      <label htmlFor={`commander-pair-${player}`} className="block text-sm font-medium text-gray-700 mb-2">
+        Commanders
+      </label>
+      <select
+        id={`commander-pair-${player}`}
+        value={getPairKey(report.pair)}
+        onChange={(e) => setSelectedKey(e.target.value)}
+        className="input"
+      >
+        {pairs.map(candidate => (
+          <option key={getPairKey(candidate)} value={getPairKey(candidate)}>
+            {getPairName(candidate)} ({candidate.colorIdentity.join('')}) · {candidate.playableCount} playable
+          </option>
+        ))}
+      </select>
+
+      <p className={`text-sm mt-3 ${report.isReachable ? 'text-green-800' : 'text-red-700'}`}>
+        {report.isReachable
+          ? `${COMMANDER_DECK_SIZE} cards reachable with ${report.basicsNeeded} basic lands`
+          : `Not enough playable cards: ${COMMANDER_DECK_SIZE} cards would need ${report.basicsNeeded} basic lands (at most ${MAX_BASIC_LANDS})`}
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 mt-3">
+        <div>
+          <h4 className="text-sm font-medium mb-2">Playable ({playableCount})</h4>
+          {renderCardList(report.playable)}
+        </div>
+        <div>
+          <h4 className="text-sm font-medium mb-2">Off-Identity ({offIdentityCount})</h4>
+          {renderCardList(report.offIdentity)}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React from 'react';
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { PlayerId } from '@/types/draft';
+import { DeckBuild } from '@/types/deck';
+import { BASIC_LAND_NAMES, COMMANDER_DECK_SIZE, MAX_CURVE_CMC } from '@/constants/commander';
+import { CommanderValidator } from '@/services/commanderValidator';
+import { DeckService } from '@/services/deckService';
+import { groupPicks } from '@/utils/cardInstances';
+
+interface DeckBuilderProps {
+  player: PlayerId;
+  picks: PlayerPicks;
+  deck: DeckBuild;
+  onChange: (deck: DeckBuild) => void;
+}
+
+/**
+ * Post-draft deckbuilder for one player.
+ * Chooses the two commanders, moves cards between the main deck and the
+ * sideboard, adds basic lands, and shows the mana curve and color sources.
+ */
+export const DeckBuilder: React.FC<DeckBuilderProps> = ({ player, picks, deck, onChange }) => {
+  const playerName = player === 'P1' ? 'Player 1' : 'Player 2';
+  const { commanders, mainDeck, sideboard } = DeckService.getDeckCards(deck, picks);
+  const deckSize = DeckService.getDeckSize(deck, picks);
+  const issues = DeckService.getIssues(deck, picks);
+  const curve = DeckService.getManaCurve(mainDeck);
+  const sources = DeckService.getColorSources(deck, mainDeck);
+  const tallestCurve = Math.max(1, ...curve);
+
+  const candidates = groupPicks(picks)
+    .filter(entry => CommanderValidator.isCommanderCandidate(entry.card))
+    .sort((a, b) => a.card.name.localeCompare(b.card.name));
+
+  /**
+   * Checks whether a creature can fill a commander slot, given the other slot's choice
+   * @param entry - Commander candidate
+   * @param slot - Commander slot being filled (0 or 1)
+   * @returns True unless the other slot already uses every copy of the card
+   */
+  const isAvailable = (entry: CardInPool, slot: number): boolean =>
+    entry.card.id !== deck.commanderIds[1 - slot] || entry.quantity > 1;
+
+  /**
+   * Handles choosing one of the two commanders
+   * @param slot - Which commander is being chosen (0 or 1)
+   * @param cardId - ID of the chosen card, or an empty string for none
+   */
+  const handleCommanderChange = (slot: number, cardId: string): void => {
+    const commanderIds = [deck.commanderIds[0] ?? '', deck.commanderIds[1] ?? ''];
+    commanderIds[slot] = cardId;
+    onChange(DeckService.setCommanders(deck, picks, commanderIds.filter(id => id !== '')));
+  };
+
+  /**
+   * Renders a list of cards that move to the other list when clicked
+   * @param cards - Cards to list
+   * @param toMainDeck - Whether clicking moves a copy into the main deck
+   * @returns Card list element
+   */
+  const renderCardList = (cards: CardInPool[], toMainDeck: boolean): React.ReactNode => (
+    <ul className="text-xs overflow-y-auto max-h-96">
+      {cards.map(entry => (
+        <li key={entry.card.id}>
+          <button
+            onClick={() => onChange(DeckService.moveCard(deck, picks, entry.card.id, toMainDeck))}
+            className="w-full text-left hover:text-blue-800"
+            title={toMainDeck ? 'Move a copy to the main deck' : 'Move a copy to the sideboard'}
+          >
+            {entry.quantity} {entry.card.name} <span className="text-gray-500">({entry.card.cmc})</span>
+          </button>
+        </li>
+      ))}
+      {cards.length === 0 && <li className="text-gray-500">None</li>}
+    </ul>
+  );
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">{playerName} Deck</h3>
+          <p className={`text-sm ${deckSize === COMMANDER_DECK_SIZE ? 'text-green-600' : 'text-gray-600'}`}>
+            {deckSize}/{COMMANDER_DECK_SIZE} cards
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => onChange(DeckService.fillBasicLands(deck, picks))} className="btn btn-sm btn-secondary">
+            Fill Basic Lands
+          </button>
+          <button onClick={() => onChange(DeckService.createDeck(picks))} className="btn btn-sm btn-secondary">
+            Reset Deck
+          </button>
+        </div>
+      </div>
+
+      {issues.length > 0 ? (
+        <ul className="text-sm text-red-700">
+          {issues.map(issue => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-green-800">The deck is legal for commander limited.</p>
+      )}
+
+      {/* Commanders */}
+      <div className="grid grid-cols-2 gap-2">
+        {[0, 1].map(slot => (
+          <div key={slot}>
+            <label htmlFor={`commander-${player}-${slot}`} className="block text-sm font-medium text-gray-700 mb-2">
+              Commander {slot + 1}
+            </label>
+            <select
+              id={`commander-${player}-${slot}`}
+              value={deck.commanderIds[slot] ?? ''}
+              onChange={(e) => handleCommanderChange(slot, e.target.value)}
+              className="input"
+            >
+              <option value="">None</option>
+              {candidates.filter(entry => isAvailable(entry, slot)).map(entry => (
+                <option key={entry.card.id} value={entry.card.id}>
+                  {entry.card.name} ({entry.card.color_identity.join('')})
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      {commanders.length === 0 && candidates.length === 0 && (
+        <p className="text-sm text-gray-600">No monocolored creatures were drafted, so no commanders are available.</p>
+      )}
+
+      {/* Main deck and sideboard */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-medium mb-2">
+            Main Deck ({mainDeck.reduce((total, entry) => total + entry.quantity, 0)}) · click to sideboard
+          </h4>
+          {renderCardList(mainDeck, false)}
+        </div>
+        <div>
+          <h4 className="text-sm font-medium mb-2">
+            Sideboard ({sideboard.reduce((total, entry) => total + entry.quantity, 0)}) · click to add
+          </h4>
+          {renderCardList(sideboard, true)}
+        </div>
+      </div>
+
+      {/* Basic lands */}
+      <div>
+        <h4 className="text-sm font-medium mb-2">Basic Lands</h4>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {Object.entries(BASIC_LAND_NAMES).map(([color, name]) => (
+            <div key={color} className="flex items-center justify-between gap-2">
+              <span>{name}</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onChange(DeckService.setBasicLands(deck, color, (deck.basicLands[color] ?? 0) - 1))}
+                  className="btn btn-sm btn-secondary"
+                  disabled={!deck.basicLands[color]}
+                >
+                  −
+                </button>
+                <span className="font-mono">{deck.basicLands[color] ?? 0}</span>
+                <button
+                  onClick={() => onChange(DeckService.setBasicLands(deck, color, (deck.basicLands[color] ?? 0) + 1))}
+                  className="btn btn-sm btn-secondary"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Mana curve and color sources */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-medium mb-2">Mana Curve</h4>
+          <div className="flex items-end gap-1 h-24">
+            {curve.map((count, cmc) => (
+              <div key={cmc} className="flex-1 text-center text-xs">
+                <div>{count}</div>
+                <div className="bg-blue-600 rounded" style={{ height: `${(count / tallestCurve) * 4}rem` }} />
+                <div className="text-gray-600">{cmc === MAX_CURVE_CMC ? `${cmc}+` : cmc}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium mb-2">Color Sources</h4>
+          <ul className="text-sm">
+            {Object.entries(sources).filter(([, count]) => count > 0).map(([color, count]) => (
+              <li key={color}>
+                <strong className="font-mono">{color}</strong> {count} {count === 1 ? 'land' : 'lands'}
+              </li>
+            ))}
+            {Object.values(sources).every(count => count === 0) && <li className="text-gray-500">No lands yet</li>}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
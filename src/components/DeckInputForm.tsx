@@ -3,6 +3,8 @@ import React, { useState } from 'react';
 interface DeckInputFormProps {
   onDeckInput: (url: string) => Promise<void>;
   onLoadSeed: (seed: string) => Promise<void>;
+  onImportDraftFile: (file: File) => Promise<void>;
+  onImportDeckFile: (file: File) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -10,11 +12,13 @@ interface DeckInputFormProps {
  * Form component for inputting deck list URLs
  * Supports Moxfield and CubeCobra URLs
  */
-export const DeckInputForm: React.FC<DeckInputFormProps> = ({ onDeckInput, onLoadSeed, isLoading }) => {
+export const DeckInputForm: React.FC<DeckInputFormProps> = ({ onDeckInput, onLoadSeed, onImportDraftFile, onImportDeckFile, isLoading }) => {
   const [url, setUrl] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [customSeed, setCustomSeed] = useState<string>('');
   const [isLoadingSeed, setIsLoadingSeed] = useState<boolean>(false);
+  const [isImportingFile, setIsImportingFile] = useState<boolean>(false);
+  const [isImportingDeckFile, setIsImportingDeckFile] = useState<boolean>(false);
 
 
 
@@ -38,6 +42,46 @@ export const DeckInputForm: React.FC<DeckInputFormProps> = ({ onDeckInput, onLoa
     }
   };
 
+  /**
+   * Handles importing an exported draft file to resume the draft
+   * @param event - File input change event
+   */
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be chosen again after an error
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImportingFile(true);
+    try {
+      await onImportDraftFile(file);
+    } catch (error) {
+      alert(`Failed to import draft file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImportingFile(false);
+    }
+  };
+
+  /**
+   * Handles loading a pool from an exported deck file
+   * @param event - File input change event
+   */
+  const handleImportDeckFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be chosen again after an error
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImportingDeckFile(true);
+    try {
+      await onImportDeckFile(file);
+    } catch (error) {
+      alert(`Failed to load deck file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImportingDeckFile(false);
+    }
+  };
+
   /**
    * Handles form submission and deck list parsing
    * @param event - Form submit event
@@ -127,7 +171,7 @@ export const DeckInputForm: React.FC<DeckInputFormProps> = ({ onDeckInput, onLoa
               type="text"
               value={customSeed}
               onChange={(e) => setCustomSeed(e.target.value)}
-              placeholder="Paste a seed to recreate an existing draft order"
+              placeholder="Paste a short seed (e.g. cc:my-cube:k3j9x2ab) or full seed to recreate a draft"
               className="input flex-1"
               disabled={isLoading || isLoadingSeed}
             />
@@ -141,6 +185,36 @@ export const DeckInputForm: React.FC<DeckInputFormProps> = ({ onDeckInput, onLoa
           </div>
         </div>
       </div>
+
+      {/* Draft File Import Section */}
+      <div className="mt-6">
+        <label htmlFor="draft-file-input" className="block text-sm font-medium text-gray-700 mb-2">
+          Draft File - Resume a draft exported from another machine
+        </label>
+        <input
+          id="draft-file-input"
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportFile}
+          className="input"
+          disabled={isLoading || isImportingFile}
+        />
+      </div>
+
+      {/* Deck File Import Section */}
+      <div className="mt-6">
+        <label htmlFor="deck-file-input" className="block text-sm font-medium text-gray-700 mb-2">
+          Deck File - Use the cards in a deck list file as the pool (text, Arena, MTGO .dek, Cockatrice .cod or CSV)
+        </label>
+        <input
+          id="deck-file-input"
+          type="file"
+          accept=".txt,.dek,.cod,.csv,text/plain,text/csv"
+          onChange={handleImportDeckFile}
+          className="input"
+          disabled={isLoading || isImportingDeckFile}
+        />
+      </div>
     </div>
   );
 };
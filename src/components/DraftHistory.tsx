@@ -1,21 +1,43 @@
 import React, { useState } from 'react';
-import { DraftAction } from '@/types/draft';
+import { DraftAction, PlayerId } from '@/types/draft';
 import { Card } from './Card';
+import { DraftVerification } from '@/utils/fairPlay';
+import { BURN_PILE_ID } from '@/constants/draftDefaults';
+
+/**
+ * Checks whether a history entry was made in a Winston draft
+ * @param action - History entry
+ * @returns True if the entry's phase is a Winston look phase
+ */
+const isWinstonAction = (action: DraftAction): boolean => action.phase.endsWith('look');
+
+/**
+ * Checks whether a history entry was made in a grid draft
+ * @param action - History entry
+ * @returns True if the entry's phase is a grid pick phase
+ */
+const isGridAction = (action: DraftAction): boolean => action.phase.endsWith('pick');
 
 interface DraftHistoryProps {
   history: DraftAction[];
+  verification?: DraftVerification | null;
   isVisible: boolean;
   onToggle: () => void;
+  /** Player this window is for in hot-seat mode; card details are hidden so each pool stays private */
+  seat?: PlayerId;
 }
 
 /**
  * Component for displaying the complete draft history
- * Shows all pack deals, splits, and choices in chronological order
+ * Shows all pack deals, splits, choices, Winston takes and passes and grid picks in chronological order,
+ * along with any tamper detection failures
  */
 export const DraftHistory: React.FC<DraftHistoryProps> = ({ 
   history, 
+  verification,
   isVisible, 
-  onToggle 
+  onToggle,
+  seat
 }) => {
   const [expandedActions, setExpandedActions] = useState<Set<string>>(new Set());
 
@@ -43,11 +65,28 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
   const getActionDescription = (action: DraftAction): string => {
     switch (action.actionType) {
       case 'pack-dealt':
-        return `Pack dealt to ${action.phase.includes('P1') ? 'Player 1' : 'Player 2'}`;
-      case 'pack-split':
-        return `${action.data.splitter} split pack into 2 piles`;
+        return isWinstonAction(action)
+          ? `Winston piles dealt, ${action.phase.includes('P1') ? 'Player 1' : 'Player 2'} to look first`
+          : isGridAction(action)
+            ? `Grid dealt, ${action.phase.includes('P1') ? 'Player 1' : 'Player 2'} to pick first`
+            : `Pack dealt to ${action.phase.includes('P1') ? 'Player 1' : 'Player 2'}`;
+      case 'pack-split': {
+        const burned = action.data.piles?.find(pile => pile.id === BURN_PILE_ID)?.cards.length ?? 0;
+        const pileCount = (action.data.piles?.length ?? 0) - (burned > 0 ? 1 : 0);
+        return `${action.data.splitter} split pack into ${pileCount} piles${burned > 0 ? ` and burned ${burned} ${burned === 1 ? 'card' : 'cards'}` : ''}`;
+      }
       case 'pile-chosen':
         return `${action.data.chooser} chose pile ${action.data.chosenPile?.replace('pile-', '')}`;
+      case 'pile-taken':
+        return `${action.data.chooser} took pile ${action.data.chosenPile?.replace('pile-', '')} (${action.data.chosenCards?.length} cards)`;
+      case 'pile-passed':
+        return action.data.chosenCards?.length
+          ? `${action.data.chooser} passed pile ${action.data.chosenPile?.replace('pile-', '')} and took a card from the pool unseen`
+          : `${action.data.chooser} passed pile ${action.data.chosenPile?.replace('pile-', '')}`;
+      case 'line-picked': {
+        const [kind, number] = (action.data.line ?? '').split('-');
+        return `${action.data.chooser} took ${kind === 'row' ? 'row' : 'column'} ${number} (${action.data.chosenCards?.length} cards)`;
+      }
       default:
         return 'Unknown action';
     }
@@ -65,7 +104,11 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
       case 'pack-split':
         return '✂️';
       case 'pile-chosen':
+      case 'pile-taken':
+      case 'line-picked':
         return '✅';
+      case 'pile-passed':
+        return '⏭️';
       default:
         return '❓';
     }
@@ -80,11 +123,53 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
     return new Date(timestamp).toLocaleTimeString();
   };
 
+  const failureCount =
+    Object.keys(verification?.failures ?? {}).length + (verification?.fairStart?.verified === false ? 1 : 0);
+
+  /**
+   * Renders the verification summary: fair start result and hash chain failures
+   * @returns JSX for the summary, or null if there is nothing to verify
+   */
+  const renderVerificationSummary = (): JSX.Element | null => {
+    if (!verification) return null;
+
+    const failedMoves = Object.keys(verification.failures).length;
+    const checkedMoves = verification.verifiedActionIds.length + failedMoves;
+    if (!verification.fairStart && checkedMoves === 0) return null;
+
+    return (
+      <div
+        className={`border rounded px-4 py-3 mb-4 ${
+          failureCount > 0 ? 'bg-red-100 border-red-400 text-red-700' : 'bg-green-100 border-green-400 text-green-800'
+        }`}
+      >
+        {verification.fairStart && (
+          <div>
+            {verification.fairStart.verified ? '🔒 Fair start verified: ' : '⚠️ Fair start failed: '}
+            {verification.fairStart.message}
+          </div>
+        )}
+        {checkedMoves > 0 && (
+          <div>
+            {failedMoves > 0
+              ? `⚠️ ${failedMoves} of ${checkedMoves} opponent moves failed hash chain verification`
+              : `🔒 All ${checkedMoves} opponent moves match this draft's hash chain`}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (!isVisible) {
     return (
       <div className="card">
         <div className="flex justify-between items-center">
-          <h3 className="text-lg font-semibold">Draft History</h3>
+          <h3 className="text-lg font-semibold">
+            Draft History
+            {failureCount > 0 && (
+              <span className="text-red-600"> - ⚠️ Verification failed</span>
+            )}
+          </h3>
           <button onClick={onToggle} className="btn btn-secondary">
             Show History ({history.length} actions)
           </button>
@@ -102,47 +187,65 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
         </button>
       </div>
 
+      {renderVerificationSummary()}
+
+      {seat && (
+        <p className="text-sm text-gray-500 mb-4">Card details are hidden in a hot-seat window.</p>
+      )}
+
       {history.length === 0 ? (
         <p className="text-gray-500 text-center py-4">No actions yet</p>
       ) : (
         <div className="space-y-3 max-h-96 overflow-y-auto">
           {history.map((action) => {
-            const isExpanded = expandedActions.has(action.id);
+            const isExpanded = !seat && expandedActions.has(action.id);
+            const failure = verification?.failures[action.id];
+            const isVerified = verification?.verifiedActionIds.includes(action.id);
             
             return (
               <div
                 key={action.id}
-                className="border rounded-lg p-3 bg-gray-50"
+                className={`border rounded-lg p-3 ${failure ? 'bg-red-100 border-red-400' : 'bg-gray-50'}`}
               >
                 <div
-                  className="flex items-center justify-between cursor-pointer"
-                  onClick={() => toggleExpanded(action.id)}
+                  className={`flex items-center justify-between ${seat ? '' : 'cursor-pointer'}`}
+                  onClick={() => !seat && toggleExpanded(action.id)}
                 >
                   <div className="flex items-center gap-3">
                     <span className="text-lg">{getActionIcon(action.actionType)}</span>
                     <div>
                       <div className="font-medium">
-                        Round {action.round} - {getActionDescription(action)}
+                        {isWinstonAction(action) ? 'Turn' : 'Round'} {action.round} - {getActionDescription(action)}
                       </div>
                       <div className="text-sm text-gray-500">
                         {formatTime(action.timestamp)}
+                        {isVerified && ' · 🔒 Verified'}
                       </div>
+                      {failure && (
+                        <div className="text-sm text-red-700 font-medium">
+                          ⚠️ Verification failed: {failure}
+                        </div>
+                      )}
                     </div>
                   </div>
-                  <div className="text-gray-400">
-                    {isExpanded ? '▼' : '▶'}
-                  </div>
+                  {!seat && (
+                    <div className="text-gray-400">
+                      {isExpanded ? '▼' : '▶'}
+                    </div>
+                  )}
                 </div>
 
                 {isExpanded && (
                   <div className="mt-3 pt-3 border-t border-gray-200">
                     {action.actionType === 'pack-dealt' && action.data.packCards && (
                       <div>
-                        <h4 className="font-medium mb-2">Pack Contents:</h4>
-                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+                        <h4 className="font-medium mb-2">
+                          {isWinstonAction(action) ? 'Top Card of Each Pile:' : isGridAction(action) ? 'Grid (row by row):' : 'Pack Contents:'}
+                        </h4>
+                        <div className={`grid ${isGridAction(action) ? 'grid-cols-3' : 'grid-cols-2 sm:grid-cols-3 md:grid-cols-4'} gap-2`}>
                           {action.data.packCards.map((cardInPool) => (
                             <Card
-                              key={cardInPool.card.id}
+                              key={cardInPool.instanceId}
                               cardInPool={cardInPool}
                               size="small"
                             />
@@ -154,16 +257,16 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
                     {action.actionType === 'pack-split' && action.data.piles && (
                       <div>
                         <h4 className="font-medium mb-2">Split Result:</h4>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className={`grid grid-cols-1 ${action.data.piles.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'} gap-4`}>
                           {action.data.piles.map((pile, index) => (
-                            <div key={pile.id} className="border rounded p-2">
+                            <div key={pile.id} className={`border rounded p-2 ${pile.id === BURN_PILE_ID ? 'bg-gray-50' : ''}`}>
                               <h5 className="font-medium mb-2">
-                                Pile {index + 1} ({pile.cards.length} cards)
+                                {pile.id === BURN_PILE_ID ? 'Burn Pile' : `Pile ${index + 1}`} ({pile.cards.length} cards)
                               </h5>
                               <div className="grid grid-cols-2 gap-1">
                                 {pile.cards.map((cardInPool) => (
                                   <Card
-                                    key={cardInPool.card.id}
+                                    key={cardInPool.instanceId}
                                     cardInPool={cardInPool}
                                     size="small"
                                   />
@@ -178,7 +281,7 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
                     {action.actionType === 'pile-chosen' && (
                       <div>
                         <h4 className="font-medium mb-2">Choice Result:</h4>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className={`grid grid-cols-1 ${action.data.discardedCards ? 'md:grid-cols-3' : 'md:grid-cols-2'} gap-4`}>
                           <div className="border rounded p-2 bg-green-50">
                             <h5 className="font-medium mb-2 text-green-800">
                               Chosen by {action.data.chooser} ({action.data.chosenCards?.length} cards)
@@ -186,7 +289,7 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
                             <div className="grid grid-cols-2 gap-1">
                               {action.data.chosenCards?.map((cardInPool) => (
                                 <Card
-                                  key={cardInPool.card.id}
+                                  key={cardInPool.instanceId}
                                   cardInPool={cardInPool}
                                   size="small"
                                 />
@@ -200,13 +303,99 @@ export const DraftHistory: React.FC<DraftHistoryProps> = ({
                             <div className="grid grid-cols-2 gap-1">
                               {action.data.remainingCards?.map((cardInPool) => (
                                 <Card
-                                  key={cardInPool.card.id}
+                                  key={cardInPool.instanceId}
+                                  cardInPool={cardInPool}
+                                  size="small"
+                                />
+                              ))}
+                            </div>
+                          </div>
+                          {action.data.discardedCards && (
+                            <div className="border rounded p-2 bg-gray-50">
+                              <h5 className="font-medium mb-2 text-gray-600">
+                                Burned ({action.data.discardedCards.length} cards)
+                              </h5>
+                              <div className="grid grid-cols-2 gap-1">
+                                {action.data.discardedCards.map((cardInPool) => (
+                                  <Card
+                                    key={cardInPool.instanceId}
+                                    cardInPool={cardInPool}
+                                    size="small"
+                                  />
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {action.actionType === 'line-picked' && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="border rounded p-2 bg-green-50">
+                          <h5 className="font-medium mb-2 text-green-800">
+                            Taken by {action.data.chooser} ({action.data.chosenCards?.length} cards)
+                          </h5>
+                          <div className="grid grid-cols-2 gap-1">
+                            {action.data.chosenCards?.map((cardInPool) => (
+                              <Card
+                                key={cardInPool.instanceId}
+                                cardInPool={cardInPool}
+                                size="small"
+                              />
+                            ))}
+                          </div>
+                        </div>
+                        {action.data.discardedCards && (
+                          <div className="border rounded p-2 bg-gray-50">
+                            <h5 className="font-medium mb-2 text-gray-600">
+                              Discarded ({action.data.discardedCards.length} cards)
+                            </h5>
+                            <div className="grid grid-cols-2 gap-1">
+                              {action.data.discardedCards.map((cardInPool) => (
+                                <Card
+                                  key={cardInPool.instanceId}
+                                  cardInPool={cardInPool}
+                                  size="small"
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {(action.actionType === 'pile-taken' || action.actionType === 'pile-passed') && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {!!action.data.chosenCards?.length && (
+                          <div className="border rounded p-2 bg-green-50">
+                            <h5 className="font-medium mb-2 text-green-800">
+                              {action.actionType === 'pile-taken' ? 'Taken' : 'Taken unseen from the pool'} by {action.data.chooser} ({action.data.chosenCards.length} cards)
+                            </h5>
+                            <div className="grid grid-cols-2 gap-1">
+                              {action.data.chosenCards.map((cardInPool) => (
+                                <Card
+                                  key={cardInPool.instanceId}
                                   cardInPool={cardInPool}
                                   size="small"
                                 />
                               ))}
                             </div>
                           </div>
+                        )}
+                        <div className="border rounded p-2 bg-gray-50">
+                          <h5 className="font-medium mb-2 text-gray-600">
+                            {action.actionType === 'pile-taken' ? 'Dealt onto the empty pile' : 'Added to the passed pile'} ({action.data.addedCards?.length ?? 0} cards)
+                          </h5>
+                          <div className="grid grid-cols-2 gap-1">
+                            {action.data.addedCards?.map((cardInPool) => (
+                              <Card
+                                key={cardInPool.instanceId}
+                                cardInPool={cardInPool}
+                                size="small"
+                              />
+                            ))}
+                          </div>
                         </div>
                       </div>
                     )}
@@ -1,67 +1,132 @@
-import React, { useState } from 'react';
-import { DraftState } from '@/types/draft';
-import { Pile } from '@/types/card';
+import React, { useState, useEffect } from 'react';
+import { DraftState, DraftCommand, DraftPhase, GridLine, PlayerId } from '@/types/draft';
+import { CardInstance, Pile } from '@/types/card';
 import { PackDisplay } from './PackDisplay';
 import { PileSelector } from './PileSelector';
-import { copyToClipboard } from '@/utils/seedUtils';
+import { WinstonPiles } from './WinstonPiles';
+import { GridDisplay } from './GridDisplay';
+import { copyToClipboard, hashCardOrder, parseShortSeed } from '@/utils/seedUtils';
+import { buildShareLink } from '@/utils/shareLinks';
+import { downloadFile } from '@/utils/download';
+import { DraftFileService } from '@/services/draftFileService';
+import { getActivePlayer } from '@/utils/turnTokens';
+import { SplitEvaluator } from '@/services/splitEvaluator';
+import { DraftService } from '@/services/draftService';
+import { resolveSplitRules } from '@/utils/splitRules';
+import { BURN_PILE_ID } from '@/constants/draftDefaults';
 
 interface DraftInterfaceProps {
   draft: DraftState;
-  onDraftAction: (action: string, data?: unknown) => void;
+  onDraftAction: (command: DraftCommand) => void;
   onReset: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  draftName?: string;
+  /** Player this window plays (hot-seat, online, peer-to-peer or against a bot); the other player's moves are hidden */
+  seat?: PlayerId;
+  /** Hides the buttons that reveal the whole draft (the full seed and the draft file), as in a hot-seat window */
+  hideFullDraft?: boolean;
 }
 
 /**
  * Main interface component for the draft process
- * Handles pack display, pile splitting, and pile selection
+ * Handles pack display, pile splitting, and pile selection, or the piles of a Winston draft and the grids of a grid draft
  */
 export const DraftInterface: React.FC<DraftInterfaceProps> = ({ 
   draft, 
   onDraftAction, 
-  onReset 
+  onReset,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  draftName,
+  seat,
+  hideFullDraft = false
 }) => {
-  const [pile1Cards, setPile1Cards] = useState<string[]>([]);
-  const [pile2Cards, setPile2Cards] = useState<string[]>([]);
+  // Instance IDs assigned to each pile, with the burn pile (if the split rules allow one) last
+  const [pileAssignments, setPileAssignments] = useState<string[][]>([]);
+  const splitRules = resolveSplitRules(draft.settings.splitRules);
+
+  // Clear any in-progress pile assignment when the draft moves (including undo/redo)
+  useEffect(() => {
+    setPileAssignments([]);
+  }, [draft.history.length]);
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Leave text fields with their native undo behavior
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        if (canUndo) onUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        if (canRedo) onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo, canUndo, canRedo]);
+
+  /**
+   * Handles downloading the complete draft as a JSON file that can be imported to resume it
+   */
+  const handleExportDraft = (): void => {
+    downloadFile(
+      DraftFileService.exportDraft(draft, draftName),
+      DraftFileService.getFileName(draft),
+      'application/json'
+    );
+  };
 
   /**
    * Handles starting a new round by dealing a pack
    */
   const handleStartRound = (): void => {
-    onDraftAction('start-round');
+    onDraftAction({ type: 'start-round' });
   };
 
   /**
-   * Handles splitting the current pack into two piles
+   * Gets the cards assigned to a pile
+   * @param index - Pile index (the burn pile comes after the others)
+   * @returns The pile's cards in pack order
+   */
+  const getPileCards = (index: number): CardInstance[] =>
+    draft.activePack?.cards.filter(entry => (pileAssignments[index] ?? []).includes(entry.instanceId)) ?? [];
+
+  /**
+   * Handles splitting the current pack into piles; pile sizes are checked by the draft engine
    */
   const handleSplitPack = (): void => {
-    if (pile1Cards.length === 0 || pile2Cards.length === 0) {
-      alert('Each pile must contain at least one card');
+    const assigned = pileAssignments.reduce((total, assignment) => total + assignment.length, 0);
+    if (assigned !== draft.activePack?.cards.length) {
+      alert('All cards must be assigned to piles');
       return;
     }
 
-    if (pile1Cards.length + pile2Cards.length !== draft.activePack?.cards.length) {
-      alert('All cards must be assigned to piles');
-      return;
+    const piles: Pile[] = Array.from({ length: splitRules.pileCount }, (_, index) => ({
+      id: `pile-${index + 1}`,
+      cards: getPileCards(index),
+    }));
+    const burned = splitRules.burnPile ? getPileCards(splitRules.pileCount) : [];
+    if (burned.length > 0) {
+      piles.push({ id: BURN_PILE_ID, cards: burned });
     }
 
-    const piles: Pile[] = [
-      {
-        id: 'pile-1',
-        cards: pile1Cards.map(cardId => 
-          draft.activePack!.cards.find(c => c.card.id === cardId)!
-        ),
-      },
-      {
-        id: 'pile-2',
-        cards: pile2Cards.map(cardId => 
-          draft.activePack!.cards.find(c => c.card.id === cardId)!
-        ),
-      },
-    ];
-
-    onDraftAction('split-pack', { piles });
-    setPile1Cards([]);
-    setPile2Cards([]);
+    onDraftAction({ type: 'split-pack', piles });
+    setPileAssignments([]);
   };
 
   /**
@@ -69,28 +134,52 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
    * @param pileId - ID of the chosen pile
    */
   const handleChoosePile = (pileId: string): void => {
-    onDraftAction('choose-pile', { pileId });
+    onDraftAction({ type: 'choose-pile', pileId });
+  };
+
+  /**
+   * Handles taking the Winston pile being looked at
+   */
+  const handleTakePile = (): void => {
+    onDraftAction({ type: 'take-pile' });
+  };
+
+  /**
+   * Handles passing the Winston pile being looked at
+   */
+  const handlePassPile = (): void => {
+    onDraftAction({ type: 'pass-pile' });
+  };
+
+  /**
+   * Handles picking a grid row or column
+   * @param line - Row or column to take
+   */
+  const handlePickLine = (line: GridLine): void => {
+    onDraftAction({ type: 'pick-line', line });
   };
 
   /**
    * Handles card selection for pile splitting
-   * @param cardId - ID of the card to toggle
-   * @param pileNumber - Which pile to assign the card to (1 or 2)
+   * @param instanceId - Instance ID of the card to move
+   * @param pileIndex - Which pile to move the card to (the burn pile comes after the others)
    */
-  const handleCardSelect = (cardId: string, pileNumber: 1 | 2): void => {
-    if (pileNumber === 1) {
-      setPile1Cards(prev => 
-        prev.includes(cardId) 
-          ? prev.filter(id => id !== cardId)
-          : [...prev, cardId]
-      );
-    } else {
-      setPile2Cards(prev => 
-        prev.includes(cardId) 
-          ? prev.filter(id => id !== cardId)
-          : [...prev, cardId]
+  const handleCardSelect = (instanceId: string, pileIndex: number): void => {
+    setPileAssignments(prev => {
+      const next = Array.from({ length: Math.max(prev.length, pileIndex + 1) }, (_, index) =>
+        (prev[index] ?? []).filter(id => id !== instanceId)
       );
-    }
+      next[pileIndex].push(instanceId);
+      return next;
+    });
+  };
+
+  /**
+   * Handles replacing the pile assignment with the most balanced split for the chooser
+   */
+  const handleSuggestSplit = (): void => {
+    const { piles, burned } = SplitEvaluator.suggestSplit(draft);
+    setPileAssignments([...piles, burned].map(pile => pile.map(entry => entry.instanceId)));
   };
 
   /**
@@ -98,11 +187,16 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
    */
   const getPhaseDescription = (): string => {
     const { currentPhase, currentRound, currentPack, settings } = draft;
-    const phaseDescriptions = {
+    const pileNumber = (draft.currentPile ?? 0) + 1;
+    const phaseDescriptions: Record<DraftPhase, string> = {
       'P1-split': `Round ${currentRound}/${settings.numberOfRounds}, Pack ${currentPack}/2 - Player 1: Split Pack`,
       'P1-choose': `Round ${currentRound}/${settings.numberOfRounds}, Pack ${currentPack}/2 - Player 1: Choose Pile`,
       'P2-split': `Round ${currentRound}/${settings.numberOfRounds}, Pack ${currentPack}/2 - Player 2: Split Pack`,
       'P2-choose': `Round ${currentRound}/${settings.numberOfRounds}, Pack ${currentPack}/2 - Player 2: Choose Pile`,
+      'P1-look': `Winston Turn ${currentRound} - Player 1: Look at Pile ${pileNumber}`,
+      'P2-look': `Winston Turn ${currentRound} - Player 2: Look at Pile ${pileNumber}`,
+      'P1-pick': `Round ${currentRound}/${settings.numberOfRounds}, Grid ${currentPack}/2 - Player 1: Take a Row or Column`,
+      'P2-pick': `Round ${currentRound}/${settings.numberOfRounds}, Grid ${currentPack}/2 - Player 2: Take a Row or Column`,
     };
     return phaseDescriptions[currentPhase];
   };
@@ -114,9 +208,24 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
         <p className="text-gray-600 mb-4">
           Both players have finished drafting. You can now export the final deck lists.
         </p>
-        <button onClick={onReset} className="btn btn-primary">
-          Start New Draft
-        </button>
+        <div className="flex gap-2 justify-center">
+          <button 
+            onClick={onUndo} 
+            className="btn btn-secondary"
+            disabled={!canUndo}
+            title="Undo last action (Ctrl+Z)"
+          >
+            Undo Last Action
+          </button>
+          {!hideFullDraft && (
+            <button onClick={handleExportDraft} className="btn btn-secondary">
+              Export Draft File
+            </button>
+          )}
+          <button onClick={onReset} className="btn btn-primary">
+            Start New Draft
+          </button>
+        </div>
       </div>
     );
   }
@@ -132,6 +241,36 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
     }
   };
 
+  /**
+   * Handles copying the long-form seed (full card order) to clipboard.
+   * This still reproduces the draft if the source list changes later.
+   */
+  const handleCopyFullSeed = async (): Promise<void> => {
+    try {
+      await copyToClipboard(hashCardOrder(draft.initialPool, draft.settings));
+    } catch (error) {
+      console.error('Failed to copy full seed:', error);
+    }
+  };
+
+  /**
+   * Handles copying a link that opens the app with this draft's seed and settings
+   */
+  const handleCopyShareLink = async (): Promise<void> => {
+    try {
+      const { seed, format, packSize, numberOfRounds, firstSplitter, collation, splitRules } = draft.settings;
+      await copyToClipboard(buildShareLink({
+        seed,
+        settings: { format, packSize, numberOfRounds, firstSplitter, collation, splitRules },
+      }));
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  const hasShortSeed = parseShortSeed(draft.settings.seed) !== null;
+  const activePlayer = getActivePlayer(draft.currentPhase);
+
   return (
     <div className="space-y-6">
       {/* Draft Status */}
@@ -144,12 +283,53 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
             </p>
           </div>
           <div className="flex gap-2">
+            <button 
+              onClick={onUndo}
+              className="btn btn-sm btn-secondary"
+              disabled={!canUndo}
+              title="Undo last action (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button 
+              onClick={onRedo}
+              className="btn btn-sm btn-secondary"
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
             <button 
               onClick={handleCopySeed}
               className="btn btn-sm btn-primary"
             >
               Copy Seed
             </button>
+            <button 
+              onClick={handleCopyShareLink}
+              className="btn btn-sm btn-primary"
+              title="Copies a link that loads this draft's seed and settings"
+            >
+              Copy Share Link
+            </button>
+            {hasShortSeed && !hideFullDraft && (
+              <button 
+                onClick={handleCopyFullSeed}
+                className="btn btn-sm btn-secondary"
+                title="Copies the full card order, which works even if the cube or deck list changes"
+              >
+                Copy Full Seed
+              </button>
+            )}
+            {!hideFullDraft && (
+              <button 
+                onClick={handleExportDraft}
+                className="btn btn-sm btn-secondary"
+                title="Downloads the whole draft, including picks, so it can be resumed on another machine"
+              >
+                Export Draft
+              </button>
+            )}
             <button onClick={onReset} className="btn btn-secondary">
               Reset Draft
             </button>
@@ -158,13 +338,44 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
       </div>
 
       {/* Pack Display and Actions */}
-      {!draft.activePack ? (
+      {seat && seat !== activePlayer ? (
+        <div className="card text-center">
+          <h3 className="text-lg font-semibold mb-2">
+            Waiting for {activePlayer === 'P1' ? 'Player 1' : 'Player 2'}
+          </h3>
+          <p className="text-gray-600">
+            {draft.currentPhase.endsWith('split') ? 'They are splitting the pack.'
+              : draft.currentPhase.endsWith('look') ? 'They are looking at the piles.'
+              : draft.currentPhase.endsWith('pick') ? 'They are picking from the grid.'
+              : 'They are choosing a pile.'}{' '}
+            This window updates as soon as they move.
+          </p>
+        </div>
+      ) : !draft.activePack ? (
         <div className="card text-center">
           <h3 className="text-lg font-semibold mb-4">Ready to Start Round</h3>
           <button onClick={handleStartRound} className="btn btn-primary">
-            Deal Pack
+            {draft.settings.format === 'winston' ? 'Deal Piles' : draft.settings.format === 'grid' ? 'Deal Grid' : 'Deal Pack'}
           </button>
         </div>
+      ) : draft.currentPhase.endsWith('look') && draft.activePack.piles ? (
+        <WinstonPiles
+          piles={draft.activePack.piles}
+          currentPile={draft.currentPile ?? 0}
+          poolCount={draft.cardsInPool.length}
+          canPass={DraftService.canPassPile(draft)}
+          onTakePile={handleTakePile}
+          onPassPile={handlePassPile}
+          cardSize="large"
+        />
+      ) : draft.currentPhase.endsWith('pick') ? (
+        <GridDisplay
+          cards={draft.activePack.cards}
+          takenSlots={draft.takenSlots ?? []}
+          lines={DraftService.getGridLines(draft)}
+          onPickLine={handlePickLine}
+          cardSize="large"
+        />
       ) : draft.activePack.piles ? (
         <PileSelector 
           piles={draft.activePack.piles}
@@ -176,11 +387,16 @@ export const DraftInterface: React.FC<DraftInterfaceProps> = ({
         <PackDisplay
           pack={draft.activePack}
           onCardSelect={handleCardSelect}
-          pile1Cards={pile1Cards}
-          pile2Cards={pile2Cards}
+          pileAssignments={pileAssignments}
+          splitRules={splitRules}
           onSplitPack={handleSplitPack}
           currentPhase={draft.currentPhase}
           cardSize="large"
+          evaluation={SplitEvaluator.evaluateSplit(draft, {
+            piles: Array.from({ length: splitRules.pileCount }, (_, index) => getPileCards(index)),
+            burned: splitRules.burnPile ? getPileCards(splitRules.pileCount) : [],
+          })}
+          onSuggestSplit={handleSuggestSplit}
         />
       )}
     </div>
@@ -1,19 +1,89 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { BotDifficulty, DeckListInput, DraftFormat, DraftOptions, PackCollation, PlayerId, SplitRules } from '@/types/draft';
+import { DEFAULT_DRAFT_OPTIONS, GRID_SIZE } from '@/constants/draftDefaults';
+import { PackCollator } from '@/services/packCollator';
+import { describeCollation, hasCollationRules, parseTemplate } from '@/utils/collation';
+import { describeSplitRules, hasSplitRules, validateSplitRules } from '@/utils/splitRules';
 
 interface DraftSettingsProps {
-  onStartDraft: (packSize: number, numberOfRounds: number) => void;
+  onStartDraft: (options: DraftOptions) => void;
   isLoading: boolean;
   hasDeckList: boolean;
-  parsedDeckList: { url: string; type: 'moxfield' | 'cubecobra' | 'seed'; cards: any[]; name?: string; seed?: string } | null;
+  parsedDeckList: DeckListInput | null;
 }
 
 /**
  * Component for configuring draft settings before starting
- * Allows players to set pack size and number of rounds
+ * Allows players to choose Solomon, Winston or grid and set pack size, number of rounds,
+ * who splits first, which seats bots play, how packs are collated and how Solomon packs are split
  */
 export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLoading, hasDeckList, parsedDeckList }) => {
-  const [packSize, setPackSize] = useState<number>(6);
-  const [numberOfRounds, setNumberOfRounds] = useState<number>(15);
+  const [format, setFormat] = useState<DraftFormat>('solomon');
+  const [packSize, setPackSize] = useState<number>(DEFAULT_DRAFT_OPTIONS.packSize);
+  const [numberOfRounds, setNumberOfRounds] = useState<number>(DEFAULT_DRAFT_OPTIONS.numberOfRounds);
+  const [firstSplitter, setFirstSplitter] = useState<PlayerId>(DEFAULT_DRAFT_OPTIONS.firstSplitter);
+  const [bots, setBots] = useState<Partial<Record<PlayerId, BotDifficulty>>>({});
+  const [balanceColors, setBalanceColors] = useState<boolean>(false);
+  const [spreadRarities, setSpreadRarities] = useState<boolean>(false);
+  // Caps and template are kept as typed; blank means no rule
+  const [maxLands, setMaxLands] = useState<string>('');
+  const [maxColorless, setMaxColorless] = useState<string>('');
+  const [templateText, setTemplateText] = useState<string>('');
+  // Pile sizes are kept as typed; blank means the classic rule (at least one card, no most)
+  const [pileCount, setPileCount] = useState<number>(2);
+  const [minPileSize, setMinPileSize] = useState<string>('');
+  const [maxPileSize, setMaxPileSize] = useState<string>('');
+  const [burnPile, setBurnPile] = useState<boolean>(false);
+  // A grid always holds one card per position, whatever pack size was typed
+  const draftPackSize = format === 'grid' ? GRID_SIZE * GRID_SIZE : packSize;
+
+  // Apply the settings recorded in a loaded seed so the draft is reproduced exactly
+  const seedSettings = parsedDeckList?.settings;
+  useEffect(() => {
+    if (!seedSettings) return;
+    setFormat(seedSettings.format ?? 'solomon');
+    setPackSize(seedSettings.packSize);
+    setNumberOfRounds(seedSettings.numberOfRounds);
+    setFirstSplitter(seedSettings.firstSplitter);
+    const collation = seedSettings.collation;
+    setBalanceColors(!!collation?.balanceColors);
+    setSpreadRarities(!!collation?.spreadRarities);
+    setMaxLands(collation?.maxLands !== undefined ? String(collation.maxLands) : '');
+    setMaxColorless(collation?.maxColorless !== undefined ? String(collation.maxColorless) : '');
+    setTemplateText(collation?.template?.join('') ?? '');
+    const splitRules = seedSettings.splitRules;
+    setPileCount(splitRules?.pileCount ?? 2);
+    setMinPileSize(splitRules?.minPileSize !== undefined ? String(splitRules.minPileSize) : '');
+    setMaxPileSize(splitRules?.maxPileSize !== undefined ? String(splitRules.maxPileSize) : '');
+    setBurnPile(!!splitRules?.burnPile);
+  }, [seedSettings]);
+
+  /**
+   * Builds the collation rules from the current inputs
+   * @returns The collation rules (empty if none are set)
+   * @throws Error if the template has a character that is not a slot
+   */
+  const buildCollation = (): PackCollation => {
+    const template = parseTemplate(templateText);
+    return {
+      ...(balanceColors && { balanceColors }),
+      ...(spreadRarities && { spreadRarities }),
+      ...(maxLands !== '' && { maxLands: Number(maxLands) }),
+      ...(maxColorless !== '' && { maxColorless: Number(maxColorless) }),
+      ...(template.length > 0 && { template }),
+    };
+  };
+
+  /**
+   * Builds the split rules from the current inputs
+   * @returns The split rules (empty for a classic split)
+   */
+  const buildSplitRules = (): SplitRules => ({
+    ...(pileCount !== 2 && { pileCount }),
+    ...(minPileSize !== '' && Number(minPileSize) !== 1 && { minPileSize: Number(minPileSize) }),
+    ...(maxPileSize !== '' && { maxPileSize: Number(maxPileSize) }),
+    ...(burnPile && { burnPile }),
+  });
 
   /**
    * Handles starting a new draft with the current settings
@@ -24,7 +94,57 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
       return;
     }
 
-    onStartDraft(packSize, numberOfRounds);
+    // Winston piles are fed from the whole pool, so packs are not collated
+    let collation: PackCollation = {};
+    if (format !== 'winston') {
+      try {
+        collation = buildCollation();
+        PackCollator.validate(collation, draftPackSize);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Invalid collation rules');
+        return;
+      }
+    }
+
+    // Only Solomon packs are split
+    const splitRules = format === 'solomon' ? buildSplitRules() : {};
+    try {
+      validateSplitRules(splitRules, draftPackSize);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid split rules');
+      return;
+    }
+
+    // Spread the seed's settings without its collation or split rules, so clearing the rules here takes effect
+    const { collation: _seedCollation, splitRules: _seedSplitRules, ...seedOptions } = seedSettings ?? {};
+    onStartDraft({
+      ...DEFAULT_DRAFT_OPTIONS,
+      ...seedOptions,
+      format,
+      packSize: draftPackSize,
+      numberOfRounds,
+      firstSplitter,
+      ...(Object.keys(bots).length > 0 && { bots }),
+      ...(hasCollationRules(collation) && { collation }),
+      ...(hasSplitRules(splitRules) && { splitRules }),
+    });
+  };
+
+  /**
+   * Handles choosing who plays a seat
+   * @param seat - Seat being changed
+   * @param value - "human" or a bot difficulty
+   */
+  const handleSeatChange = (seat: PlayerId, value: string): void => {
+    setBots(prev => {
+      const next = { ...prev };
+      if (value === 'human') {
+        delete next[seat];
+      } else {
+        next[seat] = value as BotDifficulty;
+      }
+      return next;
+    });
   };
 
 
@@ -50,8 +170,28 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
     }
   };
 
-  const totalCardsNeeded = 2 * packSize * numberOfRounds;
-  const availableCards = parsedDeckList?.cards.length || 0;
+  /**
+   * Handles number of piles input changes
+   * @param event - Input change event
+   */
+  const handlePileCountChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = parseInt(event.target.value, 10);
+    if (!isNaN(value) && value > 0) {
+      setPileCount(value);
+    }
+  };
+
+  const totalCardsNeeded = 2 * draftPackSize * numberOfRounds;
+  // Summary of the rules as typed; an unreadable template is reported when the draft starts
+  const collationSummary = (() => {
+    try {
+      return describeCollation(buildCollation());
+    } catch {
+      return 'invalid pack template';
+    }
+  })();
+  // Every copy of a card fills its own pack slot
+  const availableCards = parsedDeckList?.cards.reduce((total, entry) => total + entry.quantity, 0) ?? 0;
   const hasEnoughCards = availableCards >= totalCardsNeeded;
   const validationMessage = hasEnoughCards 
     ? `✓ Sufficient cards available (${availableCards} >= ${totalCardsNeeded})`
@@ -63,6 +203,23 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
       
       <div className="space-y-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="draft-format" className="block text-sm font-medium text-gray-700 mb-2">
+              Format
+            </label>
+            <select
+              id="draft-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DraftFormat)}
+              className="input"
+              disabled={isLoading}
+            >
+              <option value="solomon">Solomon (split and choose)</option>
+              <option value="winston">Winston (three face-down piles)</option>
+              <option value="grid">Grid (rows and columns of a 3×3 grid)</option>
+            </select>
+          </div>
+
           <div>
             <label htmlFor="pack-size" className="block text-sm font-medium text-gray-700 mb-2">
               Pack Size
@@ -72,10 +229,11 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
               type="number"
               min="1"
               max="20"
-              value={packSize}
+              value={draftPackSize}
               onChange={handlePackSizeChange}
               className="input"
-              disabled={isLoading}
+              disabled={isLoading || format === 'grid'}
+              title={format === 'grid' ? 'Each grid holds 9 cards' : undefined}
             />
           </div>
 
@@ -94,8 +252,201 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
               disabled={isLoading}
             />
           </div>
+
+          <div>
+            <label htmlFor="first-splitter" className="block text-sm font-medium text-gray-700 mb-2">
+              {format === 'winston' ? 'Looks First' : format === 'grid' ? 'Picks First' : 'Splits First'}
+            </label>
+            <select
+              id="first-splitter"
+              value={firstSplitter}
+              onChange={(e) => setFirstSplitter(e.target.value as PlayerId)}
+              className="input"
+              disabled={isLoading}
+            >
+              <option value="P1">Player 1</option>
+              <option value="P2">Player 2</option>
+            </select>
+          </div>
+
+          {(['P1', 'P2'] as PlayerId[]).map(seat => (
+            <div key={seat}>
+              <label htmlFor={`seat-${seat}`} className="block text-sm font-medium text-gray-700 mb-2">
+                {seat === 'P1' ? 'Player 1' : 'Player 2'}
+              </label>
+              <select
+                id={`seat-${seat}`}
+                value={bots[seat] ?? 'human'}
+                onChange={(e) => handleSeatChange(seat, e.target.value)}
+                className="input"
+                disabled={isLoading}
+              >
+                <option value="human">Human</option>
+                <option value="easy">Bot (Easy)</option>
+                <option value="medium">Bot (Medium)</option>
+                <option value="hard">Bot (Hard)</option>
+              </select>
+            </div>
+          ))}
         </div>
 
+        {format === 'grid' && (
+          <p className="text-sm text-gray-600">
+            Each round deals two grids of 9 cards, one for each player to pick from first. Take a row or column; your
+            opponent then takes a row or column from the cards left, and the rest of the grid is discarded.
+          </p>
+        )}
+
+        {format === 'winston' ? (
+          <p className="text-sm text-gray-600">
+            Winston uses a pool of 2 × pack size × rounds cards. One card is dealt onto each of three face-down piles;
+            on your turn, take a pile or pass it (adding a card from the pool), and after passing the last pile take the
+            top card of the pool unseen.
+          </p>
+        ) : (
+        <div className="border border-gray-200 rounded p-4 space-y-3">
+          <h3 className="font-medium text-gray-800">Pack Collation</h3>
+          <p className="text-sm text-gray-600">
+            Build packs by rules instead of dealing them straight from the shuffle. Seeds record the rules, so the same seed always gives the same packs.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={balanceColors}
+                onChange={(e) => setBalanceColors(e.target.checked)}
+                disabled={isLoading}
+              />
+              Balance colors across packs
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={spreadRarities}
+                onChange={(e) => setSpreadRarities(e.target.checked)}
+                disabled={isLoading}
+              />
+              Spread rarities across packs
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="max-lands" className="block text-sm font-medium text-gray-700 mb-2">
+                Most Lands per Pack
+              </label>
+              <input
+                id="max-lands"
+                type="number"
+                min="0"
+                placeholder="No limit"
+                value={maxLands}
+                onChange={(e) => setMaxLands(e.target.value)}
+                className="input"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="max-colorless" className="block text-sm font-medium text-gray-700 mb-2">
+                Most Colorless per Pack
+              </label>
+              <input
+                id="max-colorless"
+                type="number"
+                min="0"
+                placeholder="No limit"
+                value={maxColorless}
+                onChange={(e) => setMaxColorless(e.target.value)}
+                className="input"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="pack-template" className="block text-sm font-medium text-gray-700 mb-2">
+                Pack Template
+              </label>
+              <input
+                id="pack-template"
+                type="text"
+                placeholder="e.g. WUBRGM*"
+                value={templateText}
+                onChange={(e) => setTemplateText(e.target.value)}
+                className="input font-mono"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Template slots: W, U, B, R, G, C (colorless), M (multicolor) or * (any card). Slots past the template take any card.
+          </p>
+        </div>
+        )}
+
+        {format === 'solomon' && (
+          <div className="border border-gray-200 rounded p-4 space-y-3">
+            <h3 className="font-medium text-gray-800">Pile Splits</h3>
+            <p className="text-sm text-gray-600">
+              Split each pack into more than two piles, limit how many cards a pile may hold, or allow a burn pile of
+              cards no one drafts. The chooser takes one pile and the splitter takes the rest.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="pile-count" className="block text-sm font-medium text-gray-700 mb-2">
+                  Number of Piles
+                </label>
+                <input
+                  id="pile-count"
+                  type="number"
+                  min="2"
+                  max="9"
+                  value={pileCount}
+                  onChange={handlePileCountChange}
+                  className="input"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label htmlFor="min-pile-size" className="block text-sm font-medium text-gray-700 mb-2">
+                  Fewest Cards per Pile
+                </label>
+                <input
+                  id="min-pile-size"
+                  type="number"
+                  min="1"
+                  placeholder="1"
+                  value={minPileSize}
+                  onChange={(e) => setMinPileSize(e.target.value)}
+                  className="input"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label htmlFor="max-pile-size" className="block text-sm font-medium text-gray-700 mb-2">
+                  Most Cards per Pile
+                </label>
+                <input
+                  id="max-pile-size"
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={maxPileSize}
+                  onChange={(e) => setMaxPileSize(e.target.value)}
+                  className="input"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={burnPile}
+                onChange={(e) => setBurnPile(e.target.checked)}
+                disabled={isLoading}
+              />
+              Allow a burn pile (its cards are discarded)
+            </label>
+          </div>
+        )}
+
         <div className={`border rounded p-4 ${hasEnoughCards ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
           <h3 className={`font-medium mb-2 ${hasEnoughCards ? 'text-green-900' : 'text-red-900'}`}>
             {hasDeckList ? '✓ Deck List Loaded Successfully' : 'Draft Configuration'}
@@ -104,11 +455,27 @@ export const DraftSettings: React.FC<DraftSettingsProps> = ({ onStartDraft, isLo
             {hasDeckList && (
               <>
                 <p>• Source: <strong>{parsedDeckList?.type === 'moxfield' ? 'Moxfield' : parsedDeckList?.type === 'cubecobra' ? 'CubeCobra' : 'Seed'}</strong></p>
-                <p>• Total Cards: <strong>{parsedDeckList?.cards.length || 0}</strong></p>
+                <p>• Total Cards: <strong>{availableCards}</strong></p>
               </>
             )}
-            <p>• Pack size: <strong>{packSize}</strong> cards</p>
+            <p>• Format: <strong>{format === 'winston' ? 'Winston' : format === 'grid' ? 'Grid' : 'Solomon'}</strong></p>
+            <p>• Pack size: <strong>{draftPackSize}</strong> cards</p>
             <p>• Total rounds: <strong>{numberOfRounds}</strong></p>
+            <p>• {format === 'winston' ? 'Looks' : format === 'grid' ? 'Picks' : 'Splits'} first: <strong>{firstSplitter === 'P1' ? 'Player 1' : 'Player 2'}</strong></p>
+            {format !== 'winston' && (
+              <p>• Packs: <strong>{collationSummary}</strong></p>
+            )}
+            {format === 'solomon' && (
+              <p>• Splits: <strong>{describeSplitRules(buildSplitRules())}</strong></p>
+            )}
+            {Object.keys(bots).length > 0 && (
+              <p>• Bot opponent: <strong>{(Object.entries(bots) as [PlayerId, BotDifficulty][])
+                .map(([seat, difficulty]) => `${seat === 'P1' ? 'Player 1' : 'Player 2'} (${difficulty})`)
+                .join(', ')}</strong></p>
+            )}
+            {seedSettings && (
+              <p>• Settings loaded from seed</p>
+            )}
             <p>• Total cards needed: <strong>{totalCardsNeeded}</strong></p>
             <p className="font-medium">{validationMessage}</p>
             {hasEnoughCards && hasDeckList && (
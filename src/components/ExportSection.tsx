@@ -1,163 +1,265 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { PlayerPicks } from '@/types/card';
+import { PlayerId } from '@/types/draft';
+import { DeckBuild, DeckFileFormat } from '@/types/deck';
+import { DeckService } from '@/services/deckService';
+import { DeckFormatService } from '@/services/deckFormats';
+import { PoolImageService } from '@/services/poolImageService';
+import { CardSize } from '@/constants/cardDimensions';
+import { downloadFile } from '@/utils/download';
 
 interface ExportSectionProps {
   p1Picks: PlayerPicks;
   p2Picks: PlayerPicks;
+  /** Decks the players built; a player with a deck exports it instead of all their picks */
+  decks?: Partial<Record<PlayerId, DeckBuild>>;
+  /** Name of the cube or deck list, shown on pool images */
+  cubeName: string;
+  /** Seed of the draft, shown on pool images */
+  seed: string;
+  /** Player this window is for in hot-seat mode; only their deck list and pool are offered */
+  seat?: PlayerId;
 }
 
+/**
+ * Export formats offered, with their labels
+ */
+const EXPORT_FORMATS: Array<{ format: DeckFileFormat; label: string }> = [
+  { format: 'text', label: 'Plain text (.txt)' },
+  { format: 'arena', label: 'MTG Arena (.txt)' },
+  { format: 'mtgo', label: 'MTGO (.dek)' },
+  { format: 'cockatrice', label: 'Cockatrice (.cod)' },
+  { format: 'csv', label: 'CSV with Scryfall IDs (.csv)' },
+];
+
+/**
+ * Card sizes offered for pool images, with their labels
+ */
+const IMAGE_CARD_SIZES: Array<{ size: CardSize; label: string }> = [
+  { size: 'small', label: 'Small cards' },
+  { size: 'medium', label: 'Medium cards' },
+  { size: 'large', label: 'Large cards' },
+];
+
 /**
  * Component for exporting final deck lists in standard MTG format
- * Allows downloading both players' final deck lists as text files
+ * Allows downloading both players' final deck lists in several deck file formats,
+ * and their pools as PNG images for sharing (only the window's player in hot-seat mode)
  */
-export const ExportSection: React.FC<ExportSectionProps> = ({ p1Picks, p2Picks }) => {
+export const ExportSection: React.FC<ExportSectionProps> = ({ p1Picks, p2Picks, decks, cubeName, seed, seat }) => {
+  const [format, setFormat] = useState<DeckFileFormat>('text');
+  const [imageCardSize, setImageCardSize] = useState<CardSize>('medium');
+  const [isRenderingImage, setIsRenderingImage] = useState<boolean>(false);
+
   /**
-   * Converts player picks to standard MTG deck list format
+   * Converts a player's deck (or, before deckbuilding, their picks) to the chosen format
    * @param picks - Player's drafted cards organized by color
+   * @param deck - Deck the player built, if any, exported with its commanders and sideboard marked
+   * @param deckName - Name recorded in formats that keep one
    * @returns Formatted deck list string
    */
-  const formatDeckList = (picks: PlayerPicks): string => {
-    const allCards: Array<{ name: string; quantity: number }> = [];
-    
-    // Flatten all cards from all colors
-    Object.values(picks).forEach(cards => {
-      cards.forEach(cardInPool => {
-        const existingCard = allCards.find(c => c.name === cardInPool.card.name);
-        if (existingCard) {
-          existingCard.quantity += cardInPool.quantity;
-        } else {
-          allCards.push({
-            name: cardInPool.card.name,
-            quantity: cardInPool.quantity,
-          });
-        }
-      });
-    });
-
-    // Sort by name for consistent output
-    allCards.sort((a, b) => a.name.localeCompare(b.name));
-
-    // Format as standard MTG deck list
-    return allCards
-      .map(card => `${card.quantity} ${card.name}`)
-      .join('\n');
-  };
-
-  /**
-   * Downloads a text file with the given content and filename
-   * @param content - File content
-   * @param filename - Name of the file to download
-   */
-  const downloadFile = (content: string, filename: string): void => {
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const formatDeckList = (picks: PlayerPicks, deck: DeckBuild | undefined, deckName: string): string => {
+    return DeckFormatService.format(format, DeckFormatService.getEntries(picks, deck), deckName);
   };
 
   /**
    * Handles downloading P1's deck list
    */
   const handleDownloadP1 = (): void => {
-    const deckList = formatDeckList(p1Picks);
-    downloadFile(deckList, 'player1-decklist.txt');
+    const deckList = formatDeckList(p1Picks, decks?.P1, 'Player 1');
+    downloadFile(deckList, DeckFormatService.getFileName(format, 'player1-decklist'));
   };
 
   /**
    * Handles downloading P2's deck list
    */
   const handleDownloadP2 = (): void => {
-    const deckList = formatDeckList(p2Picks);
-    downloadFile(deckList, 'player2-decklist.txt');
+    const deckList = formatDeckList(p2Picks, decks?.P2, 'Player 2');
+    downloadFile(deckList, DeckFormatService.getFileName(format, 'player2-decklist'));
   };
 
   /**
-   * Handles downloading both deck lists as a combined file
+   * Handles downloading both deck lists. Plain text combines them in one file;
+   * the other formats hold a single deck, so each player's file is downloaded.
    */
   const handleDownloadBoth = (): void => {
-    const p1List = formatDeckList(p1Picks);
-    const p2List = formatDeckList(p2Picks);
+    if (format !== 'text') {
+      handleDownloadP1();
+      handleDownloadP2();
+      return;
+    }
+
+    const p1List = formatDeckList(p1Picks, decks?.P1, 'Player 1');
+    const p2List = formatDeckList(p2Picks, decks?.P2, 'Player 2');
     const combined = `Player 1 Deck List:\n${p1List}\n\nPlayer 2 Deck List:\n${p2List}`;
     downloadFile(combined, 'draft-results.txt');
   };
 
+  /**
+   * Handles downloading an image of players' pools, side by side when both are included
+   * @param players - Players whose pools are drawn
+   */
+  const handleDownloadImage = async (players: PlayerId[]): Promise<void> => {
+    setIsRenderingImage(true);
+    try {
+      const image = await PoolImageService.render(
+        players.map(player => ({ player, picks: player === 'P1' ? p1Picks : p2Picks })),
+        { cubeName, seed },
+        imageCardSize
+      );
+      downloadFile(image, PoolImageService.getFileName(players), 'image/png');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create the image');
+    } finally {
+      setIsRenderingImage(false);
+    }
+  };
+
   /**
    * Gets the total card count for a player
    * @param picks - Player's picks
+   * @param deck - Deck the player built, if any
    * @returns Total number of cards
    */
-  const getTotalCardCount = (picks: PlayerPicks): number => {
+  const getTotalCardCount = (picks: PlayerPicks, deck?: DeckBuild): number => {
+    if (deck) {
+      return DeckService.getDeckSize(deck, picks);
+    }
     return Object.values(picks).reduce((total, cards) => total + cards.length, 0);
   };
 
   return (
     <div className="card">
       <h2 className="text-xl font-bold mb-4">Export Deck Lists</h2>
+
+      <div className="mb-6">
+        <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 mb-2">
+          Format
+        </label>
+        <select
+          id="export-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as DeckFileFormat)}
+          className="input"
+        >
+          {EXPORT_FORMATS.map(option => (
+            <option key={option.format} value={option.format}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
         {/* Player 1 Export */}
-        <div className="border rounded-lg p-4">
-          <h3 className="font-semibold mb-2">Player 1</h3>
-          <p className="text-sm text-gray-600 mb-3">
-            {getTotalCardCount(p1Picks)} cards total
-          </p>
-          <button
-            onClick={handleDownloadP1}
-            className="btn btn-primary w-full"
-          >
-            Download P1 Deck List
-          </button>
-        </div>
+        {seat !== 'P2' && (
+          <div className="border rounded-lg p-4">
+            <h3 className="font-semibold mb-2">Player 1</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              {getTotalCardCount(p1Picks, decks?.P1)} cards total
+            </p>
+            <button
+              onClick={handleDownloadP1}
+              className="btn btn-primary w-full"
+            >
+              Download P1 Deck List
+            </button>
+          </div>
+        )}
 
         {/* Player 2 Export */}
-        <div className="border rounded-lg p-4">
-          <h3 className="font-semibold mb-2">Player 2</h3>
-          <p className="text-sm text-gray-600 mb-3">
-            {getTotalCardCount(p2Picks)} cards total
-          </p>
+        {seat !== 'P1' && (
+          <div className="border rounded-lg p-4">
+            <h3 className="font-semibold mb-2">Player 2</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              {getTotalCardCount(p2Picks, decks?.P2)} cards total
+            </p>
+            <button
+              onClick={handleDownloadP2}
+              className="btn btn-primary w-full"
+            >
+              Download P2 Deck List
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Combined Export */}
+      {!seat && (
+        <div className="text-center">
           <button
-            onClick={handleDownloadP2}
-            className="btn btn-primary w-full"
+            onClick={handleDownloadBoth}
+            className="btn btn-success px-8 py-3"
           >
-            Download P2 Deck List
+            Download Both Deck Lists
           </button>
+          <p className="text-sm text-gray-600 mt-2">
+            {format === 'text'
+              ? "Downloads a single file with both players' deck lists"
+              : "Downloads each player's deck list as its own file"}
+          </p>
         </div>
-      </div>
+      )}
 
-      {/* Combined Export */}
-      <div className="text-center">
-        <button
-          onClick={handleDownloadBoth}
-          className="btn btn-success px-8 py-3"
-        >
-          Download Both Deck Lists
-        </button>
-        <p className="text-sm text-gray-600 mt-2">
-          Downloads a single file with both players' deck lists
+      {/* Pool Images */}
+      <div className="mt-8">
+        <h3 className="font-semibold mb-2">Pool Images</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Download a PNG of the drafted cards by color, with the cube name and seed, to share in chat
         </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            id="image-card-size"
+            aria-label="Card size"
+            value={imageCardSize}
+            onChange={(e) => setImageCardSize(e.target.value as CardSize)}
+            className="input w-auto"
+            disabled={isRenderingImage}
+          >
+            {IMAGE_CARD_SIZES.map(option => (
+              <option key={option.size} value={option.size}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {seat !== 'P2' && (
+            <button onClick={() => handleDownloadImage(['P1'])} className="btn btn-secondary" disabled={isRenderingImage}>
+              P1 Image
+            </button>
+          )}
+          {seat !== 'P1' && (
+            <button onClick={() => handleDownloadImage(['P2'])} className="btn btn-secondary" disabled={isRenderingImage}>
+              P2 Image
+            </button>
+          )}
+          {!seat && (
+            <button onClick={() => handleDownloadImage(['P1', 'P2'])} className="btn btn-secondary" disabled={isRenderingImage}>
+              {isRenderingImage ? 'Drawing...' : 'Both Side by Side'}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Preview Section */}
       <div className="mt-8">
         <h3 className="font-semibold mb-4">Deck List Preview</h3>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div>
-            <h4 className="font-medium mb-2">Player 1</h4>
-            <pre className="bg-gray-100 p-3 rounded text-xs overflow-auto max-h-40">
-              {formatDeckList(p1Picks)}
-            </pre>
-          </div>
-          <div>
-            <h4 className="font-medium mb-2">Player 2</h4>
-            <pre className="bg-gray-100 p-3 rounded text-xs overflow-auto max-h-40">
-              {formatDeckList(p2Picks)}
-            </pre>
-          </div>
+          {seat !== 'P2' && (
+            <div>
+              <h4 className="font-medium mb-2">Player 1</h4>
+              <pre className="bg-gray-100 p-3 rounded text-xs overflow-auto max-h-40">
+                {formatDeckList(p1Picks, decks?.P1, 'Player 1')}
+              </pre>
+            </div>
+          )}
+          {seat !== 'P1' && (
+            <div>
+              <h4 className="font-medium mb-2">Player 2</h4>
+              <pre className="bg-gray-100 p-3 rounded text-xs overflow-auto max-h-40">
+                {formatDeckList(p2Picks, decks?.P2, 'Player 2')}
+              </pre>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { FairStart } from '@/types/draft';
+import { copyToClipboard } from '@/utils/seedUtils';
+import {
+  createCommitment,
+  createEntropy,
+  formatFairStartCode,
+  parseFairStartCode,
+} from '@/utils/fairPlay';
+
+interface FairStartPanelProps {
+  fairStart: FairStart | null;
+  onFairStartReady: (fairStart: FairStart | null) => void;
+}
+
+/**
+ * Steps of the fair start exchange, from either player's side
+ */
+type FairStartStep =
+  | { role: 'none' }
+  | { role: 'committer'; entropy: string; commitment: string }
+  | { role: 'responder'; commitment: string; entropy: string };
+
+/**
+ * Panel for a fair start: both players exchange codes so the pool shuffle uses
+ * entropy from each of them (commit-reveal). One player commits first,
+ * the other responds with their entropy, then the first player reveals.
+ */
+export const FairStartPanel: React.FC<FairStartPanelProps> = ({ fairStart, onFairStartReady }) => {
+  const [step, setStep] = useState<FairStartStep>({ role: 'none' });
+  const [codeInput, setCodeInput] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Starts the exchange as the committing player
+   */
+  const handleCommit = async (): Promise<void> => {
+    const entropy = createEntropy();
+    setStep({ role: 'committer', entropy, commitment: await createCommitment(entropy) });
+  };
+
+  /**
+   * Handles a code pasted from the opponent, depending on the current step
+   */
+  const handleSubmitCode = async (): Promise<void> => {
+    setError(null);
+    try {
+      if (step.role === 'none') {
+        // Opponent committed first: respond with our own entropy
+        const commitment = parseFairStartCode(codeInput, 'commitment');
+        setStep({ role: 'responder', commitment, entropy: createEntropy() });
+      } else if (step.role === 'committer') {
+        // Opponent sent their entropy: the fair start is complete on this side
+        const responderEntropy = parseFairStartCode(codeInput, 'entropy');
+        onFairStartReady({ commitment: step.commitment, committerEntropy: step.entropy, responderEntropy });
+      } else {
+        // Opponent revealed their entropy: check it against their commitment before accepting it
+        const committerEntropy = parseFairStartCode(codeInput, 'reveal');
+        if (await createCommitment(committerEntropy) !== step.commitment) {
+          throw new Error("The revealed code does not match your opponent's commitment. Do not start this draft.");
+        }
+        onFairStartReady({ commitment: step.commitment, committerEntropy, responderEntropy: step.entropy });
+      }
+      setCodeInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid code');
+    }
+  };
+
+  /**
+   * Cancels the exchange
+   */
+  const handleCancel = (): void => {
+    setStep({ role: 'none' });
+    setCodeInput('');
+    setError(null);
+    onFairStartReady(null);
+  };
+
+  /**
+   * Renders a code for the player to send, with a copy button
+   * @param label - What the code is
+   * @param code - The code text
+   * @returns JSX for the code row
+   */
+  const renderCode = (label: string, code: string): JSX.Element => (
+    <div>
+      <div className="block text-sm font-medium text-gray-700 mb-2">{label}</div>
+      <div className="flex gap-2">
+        <input type="text" value={code} readOnly className="input flex-1 font-mono text-sm" />
+        <button onClick={() => copyToClipboard(code)} className="btn btn-sm btn-primary">
+          Copy
+        </button>
+      </div>
+    </div>
+  );
+
+  const expectedCode =
+    step.role === 'none' ? "your opponent's commitment code" :
+    step.role === 'committer' ? "your opponent's entropy code" :
+    "your opponent's reveal code";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Fair Start (optional)</h3>
+        <p className="text-sm text-gray-600">
+          Playing remotely? Exchange codes so the pack order is shuffled with randomness from both players.
+          Both players must load the same list and use the same settings.
+        </p>
+      </div>
+
+      {fairStart ? (
+        <div className="bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded">
+          Fair start ready - start the draft to shuffle with both players' randomness.
+          {step.role === 'committer' && (
+            <div className="mt-2">
+              {renderCode('Send this reveal code to your opponent', formatFairStartCode('reveal', step.entropy))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <>
+          {step.role === 'none' && (
+            <button onClick={handleCommit} className="btn btn-secondary">
+              I'll Go First (Create Commitment)
+            </button>
+          )}
+          {step.role === 'committer' &&
+            renderCode('Send this commitment code to your opponent', formatFairStartCode('commitment', step.commitment))}
+          {step.role === 'responder' &&
+            renderCode('Send this entropy code to your opponent', formatFairStartCode('entropy', step.entropy))}
+
+          <div>
+            <label htmlFor="fair-start-code" className="block text-sm font-medium text-gray-700 mb-2">
+              Paste {expectedCode}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="fair-start-code"
+                type="text"
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                className="input flex-1 font-mono text-sm"
+              />
+              <button onClick={handleSubmitCode} disabled={!codeInput.trim()} className="btn btn-primary">
+                Submit
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {step.role !== 'none' && (
+        <button onClick={handleCancel} className="btn btn-sm btn-secondary">
+          Cancel Fair Start
+        </button>
+      )}
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CardInstance } from '@/types/card';
+import { GridLine } from '@/types/draft';
+import { Card } from './Card';
+import { CardSize, getCardDimensions } from '@/constants/cardDimensions';
+import { GRID_SIZE } from '@/constants/draftDefaults';
+import { ratingService } from '@/services/ratingService';
+
+interface GridDisplayProps {
+  /** The grid's cards, row by row */
+  cards: CardInstance[];
+  /** Positions whose cards have already been picked */
+  takenSlots: number[];
+  /** Rows and columns that still have cards, with the cards left in each */
+  lines: Array<{ line: GridLine; cards: CardInstance[] }>;
+  onPickLine: (line: GridLine) => void;
+  cardSize?: CardSize;
+}
+
+/**
+ * Component for the 3×3 grid of a grid draft
+ * Shows the grid with a button beside each row and under each column; picked cards leave empty spaces
+ */
+export const GridDisplay: React.FC<GridDisplayProps> = ({
+  cards,
+  takenSlots,
+  lines,
+  onPickLine,
+  cardSize = 'large',
+}) => {
+  const showRatings = ratingService.getActiveRatings() !== null;
+  const dimensions = getCardDimensions(cardSize);
+  const isFirstPick = takenSlots.length === 0;
+
+  /**
+   * Renders the button for picking a row or column
+   * @param line - Row or column the button picks
+   * @returns JSX for the button, or a spacer if the line has no cards left
+   */
+  const renderLineButton = (line: GridLine): JSX.Element => {
+    const entry = lines.find(candidate => candidate.line === line);
+    if (!entry) return <div key={line} />;
+
+    const [kind, number] = line.split('-');
+    const rating = showRatings ? ` · ${ratingService.getTotalRating(entry.cards).toFixed(1)}` : '';
+    return (
+      <button key={line} onClick={() => onPickLine(line)} className="btn btn-primary px-4 py-2 text-sm">
+        Take {kind === 'row' ? 'Row' : 'Column'} {number} ({entry.cards.length}){rating}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-green-200 border border-black rounded-lg shadow-lg p-2">
+        <div
+          className="grid items-center justify-center"
+          style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, auto) auto`, gap: '0.25rem' }}
+        >
+          {Array.from({ length: GRID_SIZE }, (_, row) => (
+            <React.Fragment key={row}>
+              {Array.from({ length: GRID_SIZE }, (_, col) => {
+                const slot = row * GRID_SIZE + col;
+                const cardInPool = cards[slot];
+                return cardInPool && !takenSlots.includes(slot) ? (
+                  <Card key={cardInPool.instanceId} cardInPool={cardInPool} size={cardSize} />
+                ) : (
+                  // Picked cards leave their space so the grid keeps its shape
+                  <div
+                    key={slot}
+                    className={`${dimensions.tailwindWidth} ${dimensions.tailwindHeight} rounded-lg border-2 border-gray-300 bg-gray-100`}
+                  />
+                );
+              })}
+              {renderLineButton(`row-${row + 1}` as GridLine)}
+            </React.Fragment>
+          ))}
+          {Array.from({ length: GRID_SIZE }, (_, col) => renderLineButton(`col-${col + 1}` as GridLine))}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 text-center">
+        {isFirstPick
+          ? 'Take any row or column. Your opponent then takes a row or column from the cards left.'
+          : 'Take a row or column from the cards left. The cards you leave are discarded.'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PlayerId } from '@/types/draft';
+
+interface HotSeatPanelProps {
+  seat: PlayerId | null;
+  onStart: () => void;
+  onOpenWindow: (seat: PlayerId) => void;
+  onEnd: () => void;
+}
+
+/**
+ * Panel for hot-seat play on one computer with a window per player.
+ * Before starting it offers to split the draft into player windows;
+ * in a player window it shows whose window it is.
+ */
+export const HotSeatPanel: React.FC<HotSeatPanelProps> = ({ seat, onStart, onOpenWindow, onEnd }) => {
+  const playerName = (player: PlayerId): string => (player === 'P1' ? 'Player 1' : 'Player 2');
+
+  if (seat) {
+    const otherSeat: PlayerId = seat === 'P1' ? 'P2' : 'P1';
+    return (
+      <div className="card">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold">{playerName(seat)}'s Window</h3>
+            <p className="text-sm text-gray-600">
+              Hot-seat draft · Only your moves and your picks are shown here
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => onOpenWindow(otherSeat)} className="btn btn-sm btn-primary">
+              Open {playerName(otherSeat)}'s Window
+            </button>
+            <button onClick={onEnd} className="btn btn-sm btn-secondary">
+              End Hot-Seat
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Hot-Seat Windows</h3>
+          <p className="text-sm text-gray-600">
+            Sharing one computer? Give each player their own window that shows only their moves and picks.
+          </p>
+        </div>
+        <button onClick={onStart} className="btn btn-primary">
+          Split Into Player Windows
+        </button>
+      </div>
+    </div>
+  );
+};
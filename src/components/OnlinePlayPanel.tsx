@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { PlayerId } from '@/types/draft';
+import { OnlineSession, OnlineStatus } from '@/services/onlineClient';
+import { DEFAULT_SERVER_URL } from '@/constants/online';
+
+interface OnlinePlayPanelProps {
+  session: OnlineSession | null;
+  status: OnlineStatus;
+  connected: Record<PlayerId, boolean> | null;
+  canHost: boolean;
+  onHost: (serverUrl: string) => void;
+  onJoin: (serverUrl: string, roomId: string) => void;
+  onLeave: () => void;
+}
+
+/**
+ * Panel for real-time play through the local draft server (npm run server).
+ * Before connecting it offers hosting the current draft or joining a room;
+ * once connected it shows the room code, seat and who is online.
+ */
+export const OnlinePlayPanel: React.FC<OnlinePlayPanelProps> = ({
+  session,
+  status,
+  connected,
+  canHost,
+  onHost,
+  onJoin,
+  onLeave,
+}) => {
+  const [serverUrl, setServerUrl] = useState<string>(session?.serverUrl ?? DEFAULT_SERVER_URL);
+  const [roomId, setRoomId] = useState<string>('');
+
+  const statusText: Record<OnlineStatus, string> = {
+    connecting: 'Connecting...',
+    connected: 'Connected',
+    reconnecting: 'Connection lost - reconnecting...',
+    disconnected: 'Not connected',
+  };
+
+  if (session || status === 'connecting' || status === 'reconnecting') {
+    return (
+      <div className="card">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold">Online Room {session?.roomId}</h3>
+            <p className="text-sm text-gray-600">
+              {statusText[status]}
+              {session && ` · You are ${session.seat === 'P1' ? 'Player 1' : 'Player 2'}`}
+              {connected && ` · Player 1 ${connected.P1 ? 'online' : 'offline'}, Player 2 ${connected.P2 ? 'online' : 'offline'}`}
+            </p>
+          </div>
+          <button onClick={onLeave} className="btn btn-sm btn-secondary">
+            Leave Room
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold mb-2">Play Online</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Draft live on two machines through a draft server (run <code>npm run server</code>).
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="server-url" className="block text-sm font-medium text-gray-700 mb-2">
+            Server
+          </label>
+          <input
+            id="server-url"
+            type="text"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            className="input font-mono text-sm"
+          />
+        </div>
+
+        {canHost ? (
+          <button onClick={() => onHost(serverUrl.trim())} disabled={!serverUrl.trim()} className="btn btn-primary">
+            Host This Draft Online
+          </button>
+        ) : (
+          <div>
+            <label htmlFor="room-code" className="block text-sm font-medium text-gray-700 mb-2">
+              Room Code
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="room-code"
+                type="text"
+                value={roomId}
+                onChange={(e) => setRoomId(e.target.value.toUpperCase())}
+                placeholder="e.g. K7QM2X"
+                className="input flex-1 font-mono"
+              />
+              <button
+                onClick={() => onJoin(serverUrl.trim(), roomId.trim())}
+                disabled={!serverUrl.trim() || !roomId.trim()}
+                className="btn btn-primary"
+              >
+                Join Room
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
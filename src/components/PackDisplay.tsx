@@ -1,106 +1,160 @@
 import React from 'react';
 import { Pack } from '@/types/card';
+import { DraftPhase } from '@/types/draft';
 import { Card } from './Card';
 import { CardSize, getZoneHeight } from '@/constants/cardDimensions';
+import { BALANCED_SPLIT_GAP } from '@/constants/ratings';
+import { SplitEvaluation } from '@/services/splitEvaluator';
+import { ResolvedSplitRules } from '@/utils/splitRules';
 
 interface PackDisplayProps {
   pack: Pack;
-  onCardSelect: (cardId: string, pileNumber: 1 | 2) => void;
-  pile1Cards: string[];
-  pile2Cards: string[];
+  /** Moves a card into a pile (by index; the burn pile, if allowed, comes after the others) */
+  onCardSelect: (instanceId: string, pileIndex: number) => void;
+  /** Instance IDs of the cards assigned to each pile, burn pile last */
+  pileAssignments: string[][];
+  /** Split rules of the draft */
+  splitRules: ResolvedSplitRules;
   onSplitPack: () => void;
-  currentPhase: 'P1-split' | 'P1-choose' | 'P2-split' | 'P2-choose';
+  currentPhase: DraftPhase;
   cardSize?: CardSize;
+  /** Value of the piles so far to the player who will choose one */
+  evaluation?: SplitEvaluation;
+  /** Replaces the pile assignment with the most balanced split */
+  onSuggestSplit?: () => void;
 }
 
+/**
+ * Gets the letter a pile is shown with
+ * @param index - Pile index
+ * @returns "A" for the first pile, "B" for the second and so on
+ */
+const getPileLetter = (index: number): string => String.fromCharCode(65 + index);
+
 /**
  * Component for displaying the current pack and handling pile splitting
- * Shows cards in a grid with options to assign them to different piles
+ * Shows cards in a grid with options to assign them to the piles the split rules call for,
+ * including a burn pile when the draft allows one
  */
 export const PackDisplay: React.FC<PackDisplayProps> = ({
   pack,
   onCardSelect,
-  pile1Cards,
-  pile2Cards,
+  pileAssignments,
+  splitRules,
   onSplitPack,
   currentPhase,
   cardSize = 'large',
+  evaluation,
+  onSuggestSplit,
 }) => {
   const isSplittingPhase = currentPhase === 'P1-split' || currentPhase === 'P2-split';
-  const bothPilesHaveCards = pile1Cards.length > 0 && pile2Cards.length > 0;
+  const pileCount = splitRules.pileCount + (splitRules.burnPile ? 1 : 0);
+  const burnIndex = splitRules.burnPile ? splitRules.pileCount : -1;
+  const getAssignment = (index: number): string[] => pileAssignments[index] ?? [];
+  const cardLabel = (count: number): string => `${count} ${count === 1 ? 'card' : 'cards'}`;
 
   /**
-   * Handles card click for pile assignment
-   * @param cardId - ID of the clicked card
+   * Handles card click for pile assignment: unassigned cards go to the first
+   * pile, and assigned cards move on to the next pile
+   * @param instanceId - Instance ID of the clicked card
    */
-  const handleCardClick = (cardId: string): void => {
+  const handleCardClick = (instanceId: string): void => {
     if (!isSplittingPhase) return;
 
-    // If card is already in pile 1, move to pile 2
-    if (pile1Cards.includes(cardId)) {
-      onCardSelect(cardId, 1); // Remove from pile 1
-      onCardSelect(cardId, 2); // Add to pile 2
-    }
-    // If card is already in pile 2, move to pile 1
-    else if (pile2Cards.includes(cardId)) {
-      onCardSelect(cardId, 2); // Remove from pile 2
-      onCardSelect(cardId, 1); // Add to pile 1
-    }
-    // If card is not assigned, add to pile 1
-    else {
-      onCardSelect(cardId, 1);
-    }
+    const currentIndex = Array.from({ length: pileCount }, (_, index) => index)
+      .find(index => getAssignment(index).includes(instanceId));
+    onCardSelect(instanceId, currentIndex === undefined ? 0 : (currentIndex + 1) % pileCount);
   };
 
+  /**
+   * Finds the first split rule the current assignment breaks
+   * @returns Description of the problem, or null if the piles can be submitted
+   */
+  const getSizeProblem = (): string | null => {
+    for (let index = 0; index < splitRules.pileCount; index++) {
+      const size = getAssignment(index).length;
+      if (size < splitRules.minPileSize) {
+        return splitRules.minPileSize === 1
+          ? 'Each pile must have at least one card'
+          : `Pile ${getPileLetter(index)} needs at least ${cardLabel(splitRules.minPileSize)}`;
+      }
+      if (splitRules.maxPileSize !== undefined && size > splitRules.maxPileSize) {
+        return `Pile ${getPileLetter(index)} may hold at most ${cardLabel(splitRules.maxPileSize)}`;
+      }
+    }
+    return null;
+  };
 
   // Separate cards by their current state
-  const unassignedCards = pack.cards.filter(cardInPool => 
-    !pile1Cards.includes(cardInPool.card.id) && !pile2Cards.includes(cardInPool.card.id)
-  );
-  const pile1CardObjects = pack.cards.filter(cardInPool => 
-    pile1Cards.includes(cardInPool.card.id)
-  );
-  const pile2CardObjects = pack.cards.filter(cardInPool => 
-    pile2Cards.includes(cardInPool.card.id)
+  const unassignedCards = pack.cards.filter(cardInPool =>
+    !pileAssignments.some(assignment => assignment.includes(cardInPool.instanceId))
   );
+  const sizeProblem = getSizeProblem();
+
+  /**
+   * Renders one pile's column
+   * @param index - Pile index
+   * @returns JSX for the pile
+   */
+  const renderPile = (index: number): JSX.Element => {
+    const isBurnPile = index === burnIndex;
+    const pileCards = pack.cards.filter(cardInPool => getAssignment(index).includes(cardInPool.instanceId));
+
+    return (
+      <div
+        key={index}
+        className={`${isBurnPile ? 'bg-gray-100' : 'bg-green-200'} p-1 flex-1 ${index < pileCount - 1 ? 'border-r border-black' : ''}`}
+      >
+        <h3 className="text-sm font-medium text-gray-800 text-center mb-1">
+          {isBurnPile ? 'Burn Pile (discarded)' : `Pile ${getPileLetter(index)}`}
+        </h3>
+        <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
+          {pileCards.slice(0, 6).map((cardInPool) => (
+            <div
+              key={cardInPool.instanceId}
+              className={`
+                relative transition-all duration-200
+                ${isSplittingPhase ? 'cursor-pointer hover:scale-105' : ''}
+              `}
+              onClick={() => isSplittingPhase && handleCardClick(cardInPool.instanceId)}
+            >
+              <Card
+                cardInPool={cardInPool}
+                size={cardSize}
+                isSelected={!isBurnPile}
+              />
+            </div>
+          ))}
+          {/* Show overflow indicator if more than 6 cards */}
+          {pileCards.length > 6 && (
+            <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
+              +{pileCards.length - 6} more cards
+            </div>
+          )}
+          {pileCards.length === 0 && (index === 1 ? (
+            <div className="col-span-3 flex items-start justify-start h-32 text-gray-500 text-xs px-1 pt-4">
+              <div className="text-left" style={{ fontSize: '10px', lineHeight: '1.2' }}>
+                <div>Click cards to assign them to Piles.</div>
+                <div>Each pile must have at least {splitRules.minPileSize === 1 ? 'one card' : cardLabel(splitRules.minPileSize)}.</div>
+                {splitRules.maxPileSize !== undefined && <div>Each pile may have at most {cardLabel(splitRules.maxPileSize)}.</div>}
+                <div>All cards must be assigned.</div>
+              </div>
+            </div>
+          ) : (
+            <div className="col-span-3 flex items-center justify-center h-32 text-gray-500 text-sm">
+              {isBurnPile ? 'No cards burned' : 'No cards assigned'}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-4">
-      {/* Three Column Layout */}
+      {/* Pile A, the pack, then the other piles */}
       <div className="flex border border-black rounded-lg overflow-hidden shadow-lg">
-        {/* Pile A (Left Column) */}
-        <div className="bg-green-200 p-1 flex-1 border-r border-black">
-          <h3 className="text-sm font-medium text-gray-800 text-center mb-1">Pile A</h3>
-          <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
-            {pile1CardObjects.slice(0, 6).map((cardInPool) => (
-              <div
-                key={cardInPool.card.id}
-                className={`
-                  relative transition-all duration-200
-                  ${isSplittingPhase ? 'cursor-pointer hover:scale-105' : ''}
-                `}
-                onClick={() => isSplittingPhase && handleCardClick(cardInPool.card.id)}
-              >
-                <Card
-                  cardInPool={cardInPool}
-                  size={cardSize}
-                  isSelected={true}
-                />
-              </div>
-            ))}
-            {/* Show overflow indicator if more than 6 cards */}
-            {pile1CardObjects.length > 6 && (
-              <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
-                +{pile1CardObjects.length - 6} more cards
-              </div>
-            )}
-            {pile1CardObjects.length === 0 && (
-              <div className="col-span-3 flex items-center justify-center h-32 text-gray-500 text-sm">
-                No cards assigned
-              </div>
-            )}
-          </div>
-        </div>
+        {renderPile(0)}
 
         {/* Initial Pack Area (Middle Column) */}
         <div className="bg-amber-200 p-1 flex-1 border-r border-black relative">
@@ -108,12 +162,12 @@ export const PackDisplay: React.FC<PackDisplayProps> = ({
           <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
             {unassignedCards.slice(0, 6).map((cardInPool) => (
               <div
-                key={cardInPool.card.id}
+                key={cardInPool.instanceId}
                 className={`
                   relative transition-all duration-200
                   ${isSplittingPhase ? 'cursor-pointer hover:scale-105' : ''}
                 `}
-                onClick={() => isSplittingPhase && handleCardClick(cardInPool.card.id)}
+                onClick={() => isSplittingPhase && handleCardClick(cardInPool.instanceId)}
               >
                 <Card
                   cardInPool={cardInPool}
@@ -140,17 +194,17 @@ export const PackDisplay: React.FC<PackDisplayProps> = ({
               <div className="flex flex-col items-center justify-center">
                 <button
                   onClick={onSplitPack}
-                  disabled={!bothPilesHaveCards}
+                  disabled={!!sizeProblem}
                   className={`
                     btn btn-primary px-6 py-2 text-sm
-                    ${!bothPilesHaveCards ? 'opacity-50 cursor-not-allowed' : ''}
+                    ${sizeProblem ? 'opacity-50 cursor-not-allowed' : ''}
                   `}
                 >
                   Split Pack
                 </button>
-                {!bothPilesHaveCards && (
+                {sizeProblem && (
                   <p className="text-xs text-red-600 mt-1 text-center">
-                    Each pile must have at least one card
+                    {sizeProblem}
                   </p>
                 )}
               </div>
@@ -158,47 +212,39 @@ export const PackDisplay: React.FC<PackDisplayProps> = ({
           )}
         </div>
 
-        {/* Pile B (Right Column) */}
-        <div className="bg-green-200 p-1 flex-1">
-          <h3 className="text-sm font-medium text-gray-800 text-center mb-1">Pile B</h3>
-          <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
-            {pile2CardObjects.slice(0, 6).map((cardInPool) => (
-              <div
-                key={cardInPool.card.id}
-                className={`
-                  relative transition-all duration-200
-                  ${isSplittingPhase ? 'cursor-pointer hover:scale-105' : ''}
-                `}
-                onClick={() => isSplittingPhase && handleCardClick(cardInPool.card.id)}
-              >
-                <Card
-                  cardInPool={cardInPool}
-                  size={cardSize}
-                  isSelected={true}
-                />
-              </div>
-            ))}
-            {/* Show overflow indicator if more than 6 cards */}
-            {pile2CardObjects.length > 6 && (
-              <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
-                +{pile2CardObjects.length - 6} more cards
-              </div>
-            )}
-            {pile2CardObjects.length === 0 && (
-              <div className="col-span-3 flex items-start justify-start h-32 text-gray-500 text-xs px-1 pt-4">
-                <div className="text-left" style={{ fontSize: '10px', lineHeight: '1.2' }}>
-                  <div>Click cards to assign them to Piles.</div>
-                  <div>Each pile must have at least one card.</div>
-                  <div>All cards must be assigned.</div>
-                </div>
-              </div>
+        {Array.from({ length: pileCount - 1 }, (_, offset) => renderPile(offset + 1))}
+      </div>
+
+      {/* Live value of each pile to the chooser */}
+      {isSplittingPhase && evaluation && (
+        <div className="card flex justify-between items-center gap-4 text-sm">
+          <div>
+            <span className="text-gray-700">
+              Value to {evaluation.chooser === 'P1' ? 'Player 1' : 'Player 2'}:{' '}
+              {evaluation.pileValues.map((pileValue, index) => (
+                <React.Fragment key={index}>
+                  Pile {getPileLetter(index)} <strong>{pileValue.toFixed(1)}</strong> ·{' '}
+                </React.Fragment>
+              ))}
+            </span>
+            <span className={evaluation.gap <= BALANCED_SPLIT_GAP ? 'text-green-800' : 'text-red-700'}>
+              Gap <strong>{evaluation.gap.toFixed(1)}</strong>
+            </span>
+            {evaluation.unassigned > 0 && (
+              <span className="text-gray-500"> ({evaluation.unassigned} cards unassigned)</span>
             )}
           </div>
+          {onSuggestSplit && (
+            <button
+              onClick={onSuggestSplit}
+              className="btn btn-secondary text-sm"
+              title="Assigns the cards to the piles that are closest in value to your opponent"
+            >
+              Suggest Split
+            </button>
+          )}
         </div>
-      </div>
-
+      )}
     </div>
   );
 };
-
-
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { PeerRole, PeerStatus } from '@/services/peerSession';
+import { copyToClipboard } from '@/utils/seedUtils';
+
+interface PeerPlayPanelProps {
+  role: PeerRole | null;
+  status: PeerStatus;
+  desync: string | null;
+  canHost: boolean;
+  onHost: () => Promise<string>;
+  onJoin: (offerCode: string) => Promise<string>;
+  onAcceptAnswer: (answerCode: string) => Promise<void>;
+  onDisconnect: () => void;
+}
+
+/**
+ * Panel for peer-to-peer play over WebRTC, without a server.
+ * The host creates an offer code for the current draft; the guest pastes it
+ * and sends back an answer code; once the host pastes the answer the two
+ * browsers are connected directly.
+ */
+export const PeerPlayPanel: React.FC<PeerPlayPanelProps> = ({
+  role,
+  status,
+  desync,
+  canHost,
+  onHost,
+  onJoin,
+  onAcceptAnswer,
+  onDisconnect,
+}) => {
+  const [ownCode, setOwnCode] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState<string>('');
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusText: Record<PeerStatus, string> = {
+    idle: 'Not connected',
+    'waiting-for-answer': 'Waiting for the answer code',
+    connecting: 'Connecting...',
+    connected: 'Connected',
+    disconnected: 'Disconnected',
+  };
+
+  /**
+   * Runs a signaling step, showing its error in the panel
+   * @param step - Step to run
+   */
+  const runStep = async (step: () => Promise<void>): Promise<void> => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await step();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Handles disconnecting, clearing the exchanged codes
+   */
+  const handleDisconnect = (): void => {
+    setOwnCode(null);
+    setCodeInput('');
+    setError(null);
+    onDisconnect();
+  };
+
+  /**
+   * Handles copying this browser's code to the clipboard
+   */
+  const handleCopy = async (): Promise<void> => {
+    if (!ownCode) return;
+    try {
+      await copyToClipboard(ownCode);
+    } catch (err) {
+      console.error('Failed to copy connection code:', err);
+    }
+  };
+
+  const errorBox = error && (
+    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+      {error}
+    </div>
+  );
+
+  if (status === 'connected' || (role && status === 'disconnected')) {
+    return (
+      <div className="card space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold">Peer-to-Peer Game</h3>
+            <p className="text-sm text-gray-600">
+              {statusText[status]}
+              {role && ` · You are ${role === 'host' ? 'Player 1' : 'Player 2'}`}
+            </p>
+          </div>
+          <button onClick={handleDisconnect} className="btn btn-sm btn-secondary">
+            Disconnect
+          </button>
+        </div>
+        {desync && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            Out of sync: {desync}
+          </div>
+        )}
+        {errorBox}
+      </div>
+    );
+  }
+
+  const isHost = role === 'host' || (!role && canHost);
+  const expectedCode = isHost ? 'answer' : 'offer';
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold mb-2">Play Peer-to-Peer</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {isHost
+          ? 'Connect directly to another browser: send your offer code, then paste the answer code you get back.'
+          : "Connect directly to another browser: paste the host's offer code, then send your answer code back."}
+        {role && ` · ${statusText[status]}`}
+      </p>
+
+      <div className="space-y-4">
+        {isHost && !ownCode && (
+          <button
+            onClick={() => runStep(async () => setOwnCode(await onHost()))}
+            disabled={isWorking}
+            className="btn btn-primary"
+          >
+            {isWorking ? 'Creating Offer...' : 'Create Offer Code'}
+          </button>
+        )}
+
+        {ownCode && (
+          <div>
+            <div className="block text-sm font-medium text-gray-700 mb-2">
+              Your {isHost ? 'offer' : 'answer'} code - send this to the other player
+            </div>
+            <div className="flex gap-2">
+              <input type="text" value={ownCode} readOnly className="input flex-1 font-mono text-sm" />
+              <button onClick={handleCopy} className="btn btn-sm btn-primary">
+                Copy Code
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(!isHost || ownCode) && !(role === 'guest' && ownCode) && (
+          <div>
+            <label htmlFor="peer-code-input" className="block text-sm font-medium text-gray-700 mb-2">
+              {isHost ? 'Answer code' : 'Offer code'}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="peer-code-input"
+                type="text"
+                value={codeInput}
+                onChange={(e) => {
+                  setCodeInput(e.target.value);
+                  if (error) setError(null);
+                }}
+                placeholder={`Paste the ${expectedCode} code`}
+                className="input flex-1 font-mono text-sm"
+              />
+              <button
+                onClick={() =>
+                  runStep(async () => {
+                    if (isHost) {
+                      await onAcceptAnswer(codeInput);
+                    } else {
+                      setOwnCode(await onJoin(codeInput));
+                    }
+                    setCodeInput('');
+                  })
+                }
+                disabled={!codeInput.trim() || isWorking}
+                className="btn btn-primary"
+              >
+                {isHost ? 'Connect' : 'Create Answer'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {role && (
+          <button onClick={handleDisconnect} className="btn btn-sm btn-secondary">
+            Cancel
+          </button>
+        )}
+
+        {errorBox}
+      </div>
+    </div>
+  );
+};
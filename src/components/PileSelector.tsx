@@ -1,18 +1,21 @@
 import React from 'react';
 import { Pile } from '@/types/card';
+import { DraftPhase } from '@/types/draft';
 import { Card } from './Card';
 import { CardSize, getZoneHeight } from '@/constants/cardDimensions';
+import { ratingService } from '@/services/ratingService';
+import { BURN_PILE_ID } from '@/constants/draftDefaults';
 
 interface PileSelectorProps {
   piles: Pile[];
   onChoosePile: (pileId: string) => void;
-  currentPhase: 'P1-split' | 'P1-choose' | 'P2-split' | 'P2-choose';
+  currentPhase: DraftPhase;
   cardSize?: CardSize;
 }
 
 /**
- * Component for displaying two piles and allowing the active player to choose one
- * Shows both piles side by side with clear visual distinction
+ * Component for displaying the piles of a split and allowing the active player to choose one
+ * Shows the piles side by side with clear visual distinction; a burn pile is shown but cannot be chosen
  */
 export const PileSelector: React.FC<PileSelectorProps> = ({
   piles,
@@ -21,6 +24,17 @@ export const PileSelector: React.FC<PileSelectorProps> = ({
   cardSize = 'large',
 }) => {
   const isChoosingPhase = currentPhase === 'P1-choose' || currentPhase === 'P2-choose';
+  const showRatings = ratingService.getActiveRatings() !== null;
+  const choosablePiles = piles.filter(pile => pile.id !== BURN_PILE_ID);
+
+  /**
+   * Gets a pile's heading, with its rating total once ratings are imported
+   * @param label - Pile label
+   * @param pile - Pile to total
+   * @returns Heading text
+   */
+  const getPileHeading = (label: string, pile: Pile): string =>
+    showRatings ? `${label} · rating ${ratingService.getTotalRating(pile.cards).toFixed(1)}` : label;
 
   /**
    * Handles pile selection via button click
@@ -31,88 +45,75 @@ export const PileSelector: React.FC<PileSelectorProps> = ({
     onChoosePile(pileId);
   };
 
+  /**
+   * Renders one pile's column
+   * @param pile - Pile to show
+   * @param index - Position of the pile
+   * @returns JSX for the pile
+   */
+  const renderPile = (pile: Pile, index: number): JSX.Element => {
+    const isBurnPile = pile.id === BURN_PILE_ID;
+    const label = isBurnPile ? 'Burn Pile (discarded)' : `Pile ${String.fromCharCode(65 + index)}`;
 
-  return (
-    <div className="space-y-4">
-      {/* Three Column Layout */}
-      <div className="flex border border-black rounded-lg overflow-hidden shadow-lg">
-        {/* Pile A (Left Column) */}
-        <div className="bg-green-200 p-1 flex-1 border-r border-black flex flex-col">
-          <h3 className="text-sm font-medium text-gray-800 text-center mb-1">Pile A</h3>
-          <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
-            {piles[0]?.cards.slice(0, 6).map((cardInPool) => (
-                <Card
-                  key={cardInPool.card.id}
-                  cardInPool={cardInPool}
-                  size={cardSize}
-                />
-            ))}
-            {/* Show overflow indicator if more than 6 cards */}
-            {piles[0]?.cards && piles[0].cards.length > 6 && (
-              <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
-                +{piles[0].cards.length - 6} more cards
-              </div>
-            )}
-          </div>
-          {/* Select Button */}
-          {isChoosingPhase && (
-            <div className="mt-2 flex justify-center">
-              <button
-                onClick={() => handlePileSelect(piles[0]?.id || '')}
-                className="btn btn-primary px-4 py-2 text-sm"
-              >
-                Select Pile A
-              </button>
+    return (
+      <div
+        key={pile.id}
+        className={`${isBurnPile ? 'bg-gray-100' : 'bg-green-200'} p-1 flex-1 ${index === 0 || index < piles.length - 1 ? 'border-r border-black' : ''} flex flex-col`}
+      >
+        <h3 className="text-sm font-medium text-gray-800 text-center mb-1">{getPileHeading(label, pile)}</h3>
+        <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
+          {pile.cards.slice(0, 6).map((cardInPool) => (
+              <Card
+                key={cardInPool.instanceId}
+                cardInPool={cardInPool}
+                size={cardSize}
+              />
+          ))}
+          {/* Show overflow indicator if more than 6 cards */}
+          {pile.cards.length > 6 && (
+            <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
+              +{pile.cards.length - 6} more cards
             </div>
           )}
         </div>
+        {/* Select Button; the burn pile cannot be chosen */}
+        {isChoosingPhase && !isBurnPile && (
+          <div className="mt-2 flex justify-center">
+            <button
+              onClick={() => handlePileSelect(pile.id)}
+              className="btn btn-primary px-4 py-2 text-sm"
+            >
+              Select {label}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Pile A, the instructions, then the other piles */}
+      <div className="flex border border-black rounded-lg overflow-hidden shadow-lg">
+        {piles[0] && renderPile(piles[0], 0)}
 
         {/* Middle Column with Instructions */}
         <div className="bg-amber-200 p-1 flex-1 border-r border-black flex flex-col">
           <div className="flex-1 flex items-center justify-center text-center">
             <p className="text-gray-700 text-sm">
               {isChoosingPhase 
-                ? 'Click "Select" on the pile you want to add to your collection'
+                ? choosablePiles.length > 2
+                  ? 'Click "Select" on the pile you want to add to your collection. Your opponent takes the other piles.'
+                  : 'Click "Select" on the pile you want to add to your collection'
                 : 'Waiting for pile selection...'
               }
             </p>
           </div>
         </div>
 
-        {/* Pile B (Right Column) */}
-        <div className="bg-green-200 p-1 flex-1 flex flex-col">
-          <h3 className="text-sm font-medium text-gray-800 text-center mb-1">Pile B</h3>
-          <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
-            {piles[1]?.cards.slice(0, 6).map((cardInPool) => (
-                <Card
-                  key={cardInPool.card.id}
-                  cardInPool={cardInPool}
-                  size={cardSize}
-                />
-            ))}
-            {/* Show overflow indicator if more than 6 cards */}
-            {piles[1]?.cards && piles[1].cards.length > 6 && (
-              <div className="col-span-3 flex items-center justify-center text-gray-500 text-xs">
-                +{piles[1].cards.length - 6} more cards
-              </div>
-            )}
-          </div>
-          {/* Select Button */}
-          {isChoosingPhase && (
-            <div className="mt-2 flex justify-center">
-              <button
-                onClick={() => handlePileSelect(piles[1]?.id || '')}
-                className="btn btn-primary px-4 py-2 text-sm"
-              >
-                Select Pile B
-              </button>
-            </div>
-          )}
-        </div>
+        {piles.slice(1).map((pile, offset) => renderPile(pile, offset + 1))}
       </div>
 
     </div>
   );
 };
-
-
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { PlayerPicks as PlayerPicksType, ColorIdentity } from '@/types/card';
 import { Card } from './Card';
 import { CardSize } from '@/constants/cardDimensions';
+import { COLOR_COLUMN_NAMES, COLOR_COLUMN_ORDER } from '@/constants/colors';
 
 interface PlayerPicksProps {
   player: 'P1' | 'P2';
@@ -22,16 +23,7 @@ export const PlayerPicks: React.FC<PlayerPicksProps> = ({ player, picks, cardSiz
    * @returns Display name for the color
    */
   const getColorDisplayName = (colorIdentity: ColorIdentity): string => {
-    const colorNames = {
-      'W': 'White',
-      'U': 'Blue', 
-      'B': 'Black',
-      'R': 'Red',
-      'G': 'Green',
-      'C': 'Colorless',
-      'M': 'Multicolor',
-    };
-    return colorNames[colorIdentity];
+    return COLOR_COLUMN_NAMES[colorIdentity];
   };
 
 
@@ -77,8 +69,6 @@ export const PlayerPicks: React.FC<PlayerPicksProps> = ({ player, picks, cardSiz
     setSortOrder(newSortOrder);
   };
 
-  const colorOrder: ColorIdentity[] = ['W', 'U', 'B', 'R', 'G', 'C', 'M'];
-
 
   return (
     <div className="card bg-gray-800">
@@ -111,7 +101,7 @@ export const PlayerPicks: React.FC<PlayerPicksProps> = ({ player, picks, cardSiz
 
       {/* Color Columns - Always show all 7 columns */}
       <div className="flex gap-2">
-        {colorOrder.map((colorIdentity) => {
+        {COLOR_COLUMN_ORDER.map((colorIdentity) => {
           const cards = picks[colorIdentity] || [];
           const sortedCards = sortCards(cards);
 
@@ -134,7 +124,7 @@ export const PlayerPicks: React.FC<PlayerPicksProps> = ({ player, picks, cardSiz
                     const isBottomCard = index === sortedCards.length - 1;
                     return (
                       <div 
-                        key={cardInPool.card.id} 
+                        key={cardInPool.instanceId} 
                         className="absolute w-full group cursor-pointer transition-all duration-200"
                         style={{ 
                           top: `${index * 2}rem`, // 2rem spacing for more art visibility
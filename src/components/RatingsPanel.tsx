@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { CardRatings } from '@/types/ratings';
+
+interface RatingsPanelProps {
+  ratings: CardRatings | null;
+  onImport: (file: File) => Promise<void>;
+  onRemove: () => void;
+}
+
+/**
+ * Panel for importing card ratings for the draft's cube.
+ * Ratings drive the bots and are shown as badges on cards and as pile totals.
+ */
+export const RatingsPanel: React.FC<RatingsPanelProps> = ({ ratings, onImport, onRemove }) => {
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles importing a ratings file
+   * @param event - File input change event
+   */
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset the input so the same file can be chosen again after an error
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setIsImporting(true);
+    try {
+      await onImport(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import ratings');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const ratedCount = ratings ? Object.keys(ratings.scores).length : 0;
+  const archetypeCount = ratings ? Object.keys(ratings.archetypeScores).length : 0;
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Card Ratings</h3>
+          <p className="text-sm text-gray-600">
+            {ratings
+              ? `${ratedCount} cards rated${archetypeCount > 0 ? `, ${archetypeCount} archetypes` : ''} · from ${ratings.source} (${ratings.importedAt.toLocaleDateString()})`
+              : 'No ratings for this cube. Unrated cards are estimated from rarity and mana value.'}
+          </p>
+        </div>
+        {ratings && (
+          <button onClick={onRemove} className="btn btn-sm btn-secondary">
+            Remove Ratings
+          </button>
+        )}
+      </div>
+
+      <label htmlFor="ratings-file-input" className="block text-sm font-medium text-gray-700 mb-2">
+        Import a CSV or JSON file of card name and score (optionally per archetype or color pair), or a CubeCobra cube export
+      </label>
+      <input
+        id="ratings-file-input"
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={handleImportFile}
+        className="input"
+        disabled={isImporting}
+      />
+
+      {error && (
+        <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { SavedDraft } from '@/services/draftStorage';
+
+interface SavedDraftsProps {
+  drafts: SavedDraft[];
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}
+
+/**
+ * Component listing drafts saved in the browser
+ * Lets players resume, rename, or delete an in-progress draft
+ */
+export const SavedDrafts: React.FC<SavedDraftsProps> = ({ drafts, onResume, onDelete, onRename }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState<string>('');
+
+  /**
+   * Starts renaming a saved draft
+   * @param savedDraft - Draft to rename
+   */
+  const handleStartRename = (savedDraft: SavedDraft): void => {
+    setEditingId(savedDraft.id);
+    setEditName(savedDraft.name);
+  };
+
+  /**
+   * Saves the new name for the draft being renamed
+   */
+  const handleConfirmRename = (): void => {
+    if (editingId && editName.trim()) {
+      onRename(editingId, editName.trim());
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * Deletes a saved draft after confirmation
+   * @param savedDraft - Draft to delete
+   */
+  const handleDelete = (savedDraft: SavedDraft): void => {
+    if (window.confirm(`Delete saved draft "${savedDraft.name}"?`)) {
+      onDelete(savedDraft.id);
+    }
+  };
+
+  /**
+   * Gets a short progress description for a saved draft
+   * @param savedDraft - Draft to describe
+   * @returns Round and phase description
+   */
+  const getProgressDescription = (savedDraft: SavedDraft): string => {
+    const { draft } = savedDraft;
+    if (draft.isComplete) return 'Complete';
+    if (draft.settings.format === 'winston') return `Winston turn ${draft.currentRound} - ${draft.currentPhase}`;
+    return `Round ${draft.currentRound}/${draft.settings.numberOfRounds} - ${draft.currentPhase}`;
+  };
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <h2 className="text-xl font-bold mb-4">Resume Draft</h2>
+
+      <div className="space-y-2">
+        {drafts.map((savedDraft) => (
+          <div key={savedDraft.id} className="border rounded-lg p-3 flex justify-between items-center gap-4">
+            <div className="flex-1 min-w-0">
+              {editingId === savedDraft.id ? (
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleConfirmRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onBlur={handleConfirmRename}
+                  className="input"
+                  autoFocus
+                />
+              ) : (
+                <div className="font-medium truncate">{savedDraft.name}</div>
+              )}
+              <div className="text-sm text-gray-500">
+                {getProgressDescription(savedDraft)} · Last updated {savedDraft.updatedAt.toLocaleString()}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => onResume(savedDraft.id)} className="btn btn-sm btn-primary">
+                Resume
+              </button>
+              <button onClick={() => handleStartRename(savedDraft)} className="btn btn-sm btn-secondary">
+                Rename
+              </button>
+              <button onClick={() => handleDelete(savedDraft)} className="btn btn-sm btn-danger">
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
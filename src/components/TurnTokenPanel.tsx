@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { DraftState, PlayerId } from '@/types/draft';
+import { copyToClipboard } from '@/utils/seedUtils';
+import { buildShareLink } from '@/utils/shareLinks';
+import { createLastTurnToken, getActivePlayer, getTurnNumber } from '@/utils/turnTokens';
+
+interface TurnTokenPanelProps {
+  draft: DraftState;
+  onApplyTurnToken: (input: string) => Promise<void>;
+}
+
+/**
+ * Panel for playing a draft asynchronously by exchanging turn tokens.
+ * Shows whose turn it is, the token for the last move, and an input
+ * for applying the opponent's token.
+ */
+export const TurnTokenPanel: React.FC<TurnTokenPanelProps> = ({ draft, onApplyTurnToken }) => {
+  const [seat, setSeat] = useState<PlayerId | 'both'>('both');
+  const [tokenInput, setTokenInput] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [lastToken, setLastToken] = useState<string | null>(null);
+
+  // The token includes a SHA-256 chain hash, so it is computed asynchronously
+  useEffect(() => {
+    let cancelled = false;
+    createLastTurnToken(draft)
+      .then(token => {
+        if (!cancelled) setLastToken(token);
+      })
+      .catch(err => console.error('Failed to create turn token:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [draft]);
+
+  const activePlayer = getActivePlayer(draft.currentPhase);
+  const playerName = (player: PlayerId): string => (player === 'P1' ? 'Player 1' : 'Player 2');
+
+  /**
+   * Gets a description of whose turn it is from this player's point of view
+   * @returns Turn status text
+   */
+  const getTurnStatus = (): string => {
+    if (draft.isComplete) return 'The draft is complete.';
+
+    const move = draft.currentPhase.endsWith('split') ? 'split the pack'
+      : draft.currentPhase.endsWith('look') ? 'take or pass the piles'
+      : draft.currentPhase.endsWith('pick') ? 'take a row or column of the grid'
+      : 'choose a pile';
+    if (seat === 'both') return `${playerName(activePlayer)} to ${move}.`;
+    return seat === activePlayer
+      ? `Your turn: ${move}, then send the turn token to your opponent.`
+      : `Waiting for ${playerName(activePlayer)} to ${move}. Paste their turn token below.`;
+  };
+
+  /**
+   * Handles applying the pasted turn token
+   */
+  const handleApply = async (): Promise<void> => {
+    setError(null);
+    try {
+      await onApplyTurnToken(tokenInput);
+      setTokenInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply turn token');
+    }
+  };
+
+  /**
+   * Handles copying the last move's token or link to the clipboard
+   * @param asLink - Whether to copy a link instead of the bare token
+   */
+  const handleCopy = async (asLink: boolean): Promise<void> => {
+    if (!lastToken) return;
+    try {
+      await copyToClipboard(asLink ? buildShareLink({ turn: lastToken }) : lastToken);
+    } catch (err) {
+      console.error('Failed to copy turn token:', err);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Play by Link</h3>
+        <label className="text-sm text-gray-700 flex items-center gap-2">
+          Playing as
+          <select
+            value={seat}
+            onChange={(e) => setSeat(e.target.value as PlayerId | 'both')}
+            className="input"
+          >
+            <option value="both">Both players</option>
+            <option value="P1">Player 1</option>
+            <option value="P2">Player 2</option>
+          </select>
+        </label>
+      </div>
+
+      <p className={`mb-4 font-medium ${seat !== 'both' && seat === activePlayer ? 'text-green-600' : 'text-gray-700'}`}>
+        {getTurnStatus()}
+      </p>
+
+      <div className="space-y-4">
+        {lastToken && (
+          <div>
+            <div className="block text-sm font-medium text-gray-700 mb-2">
+              Last move (move {getTurnNumber(draft.history)}) - send this to your opponent
+            </div>
+            <div className="flex gap-2">
+              <input type="text" value={lastToken} readOnly className="input flex-1 font-mono text-sm" />
+              <button onClick={() => handleCopy(false)} className="btn btn-sm btn-primary">
+                Copy Token
+              </button>
+              <button onClick={() => handleCopy(true)} className="btn btn-sm btn-secondary">
+                Copy Link
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="turn-token-input" className="block text-sm font-medium text-gray-700 mb-2">
+            Apply opponent's turn
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="turn-token-input"
+              type="text"
+              value={tokenInput}
+              onChange={(e) => {
+                setTokenInput(e.target.value);
+                if (error) setError(null);
+              }}
+              placeholder="Paste a turn token or link"
+              className="input flex-1 font-mono text-sm"
+            />
+            <button onClick={handleApply} disabled={!tokenInput.trim()} className="btn btn-primary">
+              Apply
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
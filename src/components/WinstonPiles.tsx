@@ -0,0 +1,106 @@
+import React from 'react';
+import { Pile } from '@/types/card';
+import { Card } from './Card';
+import { CardSize, getCardDimensions, getZoneHeight } from '@/constants/cardDimensions';
+import { ratingService } from '@/services/ratingService';
+
+interface WinstonPilesProps {
+  piles: Pile[];
+  /** Index of the pile the active player is looking at */
+  currentPile: number;
+  /** Cards left face down in the pool */
+  poolCount: number;
+  /** Whether the pile being looked at may be passed */
+  canPass: boolean;
+  onTakePile: () => void;
+  onPassPile: () => void;
+  cardSize?: CardSize;
+}
+
+/**
+ * Component for the three face-down piles of a Winston draft
+ * Shows the pile the active player is looking at face up, with buttons to take or pass it
+ */
+export const WinstonPiles: React.FC<WinstonPilesProps> = ({
+  piles,
+  currentPile,
+  poolCount,
+  canPass,
+  onTakePile,
+  onPassPile,
+  cardSize = 'large',
+}) => {
+  const showRatings = ratingService.getActiveRatings() !== null;
+  const dimensions = getCardDimensions(cardSize);
+  const isLastPile = !piles.some((pile, index) => index > currentPile && pile.cards.length > 0);
+
+  /**
+   * Gets a pile's heading, with its rating total once ratings are imported
+   * @param pile - Pile to describe
+   * @param index - Position of the pile
+   * @returns Heading text
+   */
+  const getPileHeading = (pile: Pile, index: number): string => {
+    const heading = `Pile ${index + 1} · ${pile.cards.length} ${pile.cards.length === 1 ? 'card' : 'cards'}`;
+    return showRatings && index === currentPile
+      ? `${heading} · rating ${ratingService.getTotalRating(pile.cards).toFixed(1)}`
+      : heading;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex border border-black rounded-lg overflow-hidden shadow-lg">
+        {piles.map((pile, index) => (
+          <div
+            key={pile.id}
+            className={`p-1 flex-1 flex flex-col ${index < piles.length - 1 ? 'border-r border-black' : ''} ${
+              index === currentPile ? 'bg-green-200' : 'bg-amber-100'
+            }`}
+          >
+            <h3 className="text-sm font-medium text-gray-800 text-center mb-1">{getPileHeading(pile, index)}</h3>
+            {index === currentPile ? (
+              <>
+                <div className={`grid grid-cols-3 ${getZoneHeight(cardSize)}`} style={{ gap: '0.0625rem 0.25rem' }}>
+                  {pile.cards.map((cardInPool) => (
+                    <Card
+                      key={cardInPool.instanceId}
+                      cardInPool={cardInPool}
+                      size={cardSize}
+                    />
+                  ))}
+                </div>
+                <div className="mt-2 flex justify-center gap-2">
+                  <button onClick={onTakePile} className="btn btn-primary px-4 py-2 text-sm">
+                    Take Pile
+                  </button>
+                  <button
+                    onClick={onPassPile}
+                    className="btn btn-secondary px-4 py-2 text-sm"
+                    disabled={!canPass}
+                    title={canPass ? undefined : 'The pool has no card left to take instead, so this pile must be taken'}
+                  >
+                    {isLastPile ? 'Pass & Take Unseen Card' : 'Pass Pile'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center">
+                {/* Piles other than the one being looked at stay face down */}
+                <div
+                  className={`${dimensions.tailwindWidth} ${dimensions.tailwindHeight} rounded-lg border-2 border-gray-600 bg-blue-600 flex items-center justify-center text-white font-bold`}
+                >
+                  {pile.cards.length > 0 ? (index < currentPile ? 'Passed' : '?') : 'Empty'}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 text-center">
+        Cards left in the pool: <strong>{poolCount}</strong>. Passing a pile adds the top card of the pool to it;
+        passing the last pile also takes the next card of the pool unseen.
+      </p>
+    </div>
+  );
+};
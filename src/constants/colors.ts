@@ -0,0 +1,32 @@
+import { Card, ColorIdentity } from '@/types/card';
+
+/**
+ * Order of the color columns picks are shown in
+ */
+export const COLOR_COLUMN_ORDER: ColorIdentity[] = ['W', 'U', 'B', 'R', 'G', 'C', 'M'];
+
+/**
+ * Display name of each color column
+ */
+export const COLOR_COLUMN_NAMES: Record<ColorIdentity, string> = {
+  W: 'White',
+  U: 'Blue',
+  B: 'Black',
+  R: 'Red',
+  G: 'Green',
+  C: 'Colorless',
+  M: 'Multicolor',
+};
+
+/**
+ * Gets the color column a card is shown in
+ * @param card - Card to analyze
+ * @returns Its single color, C for colorless or M for multicolor
+ */
+export const getColorColumn = (card: Card): ColorIdentity => {
+  const { color_identity } = card;
+
+  if (color_identity.length === 0) return 'C'; // Colorless
+  if (color_identity.length === 1) return color_identity[0] as ColorIdentity; // Single color
+  return 'M'; // Multicolor
+};
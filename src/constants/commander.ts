@@ -0,0 +1,27 @@
+/**
+ * Size of a commander limited deck, including both commanders
+ */
+export const COMMANDER_DECK_SIZE = 60;
+
+/**
+ * Most basic lands a deck is expected to run; a deck that needs more to reach
+ * its full size has too few playable cards
+ */
+export const MAX_BASIC_LANDS = 24;
+
+
+/**
+ * Basic land added to a deck for each color
+ */
+export const BASIC_LAND_NAMES: Record<string, string> = {
+  W: 'Plains',
+  U: 'Island',
+  B: 'Swamp',
+  R: 'Mountain',
+  G: 'Forest',
+};
+
+/**
+ * Highest mana value with its own column in the mana curve; costlier cards are counted in it
+ */
+export const MAX_CURVE_CMC = 7;
@@ -0,0 +1,21 @@
+import { DraftOptions } from '@/types/draft';
+
+/**
+ * Default draft settings - used to initialize the settings form and to fill
+ * in any settings a seed or saved draft does not record.
+ */
+export const DEFAULT_DRAFT_OPTIONS: DraftOptions = {
+  packSize: 6,
+  numberOfRounds: 15,
+  firstSplitter: 'P1',
+};
+
+/**
+ * Rows and columns in a grid draft's grid, which holds GRID_SIZE × GRID_SIZE cards
+ */
+export const GRID_SIZE = 3;
+
+/**
+ * ID of the burn pile in a split, whose cards are discarded rather than drafted
+ */
+export const BURN_PILE_ID = 'burn';
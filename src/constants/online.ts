@@ -0,0 +1,19 @@
+/**
+ * Default port of the local draft server (npm run server)
+ */
+export const DEFAULT_SERVER_PORT = 8787;
+
+/**
+ * Default address the client connects to for real-time play
+ */
+export const DEFAULT_SERVER_URL = `ws://localhost:${DEFAULT_SERVER_PORT}`;
+
+/**
+ * STUN servers used to find a route between two browsers in peer-to-peer play
+ */
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+/**
+ * Longest wait for ICE candidates before a peer-to-peer code is shown anyway
+ */
+export const ICE_GATHERING_TIMEOUT_MS = 5000;
@@ -0,0 +1,27 @@
+import { RatingFallback } from '@/types/ratings';
+
+/**
+ * Highest rating; imported scores on other scales (such as Elo) are scaled to 0-RATING_SCALE_MAX
+ */
+export const RATING_SCALE_MAX = 5;
+
+/**
+ * Default estimate for cards without an imported rating
+ */
+export const DEFAULT_RATING_FALLBACK: RatingFallback = {
+  rarityRatings: {
+    common: 2,
+    uncommon: 2.5,
+    rare: 3.25,
+    mythic: 3.5,
+  },
+  cheapMaxCmc: 2,
+  cheapBonus: 0.25,
+  expensiveMinCmc: 6,
+  expensivePenalty: 0.5,
+};
+
+/**
+ * Largest value gap, in rating points, at which a split is shown as balanced
+ */
+export const BALANCED_SPLIT_GAP = 0.5;
@@ -0,0 +1,215 @@
+import { Card, CardInPool, PlayerPicks } from '@/types/card';
+import { ColorPairStats, CommanderDeckReport, CommanderPair } from '@/types/commander';
+import { COMMANDER_DECK_SIZE, MAX_BASIC_LANDS } from '@/constants/commander';
+import { groupPicks } from '@/utils/cardInstances';
+
+/**
+ * Order colors are listed in
+ */
+const COLOR_ORDER = 'WUBRG';
+
+/**
+ * Checks a player's picks against the commander limited rules: any two
+ * monocolored creatures can be commanders, and every card in the deck must be
+ * within their combined color identity.
+ */
+export class CommanderValidator {
+  /**
+   * Checks whether a card can be one of a player's commanders
+   * @param card - Card to check
+   * @returns True for creatures with a single color in their color identity
+   */
+  static isCommanderCandidate(card: Card): boolean {
+    // Only the front face counts for double-faced cards
+    const frontType = card.type_line.split('//')[0];
+    return frontType.includes('Creature') && card.color_identity.length === 1;
+  }
+
+  /**
+   * Lists every legal commander pair in a player's picks
+   * @param picks - Player's drafted cards
+   * @returns Commander pairs, those with the most playable cards first
+   */
+  static getCommanderPairs(picks: PlayerPicks): CommanderPair[] {
+    const cards = groupPicks(picks);
+    const candidates = cards.filter(entry => this.isCommanderCandidate(entry.card));
+    const pairs: CommanderPair[] = [];
+
+    for (let i = 0; i < candidates.length; i++) {
+      // A second copy of the same creature can be paired with the first
+      for (let j = candidates[i].quantity > 1 ? i : i + 1; j < candidates.length; j++) {
+        pairs.push(this.createPair(cards, [candidates[i].card, candidates[j].card]));
+      }
+    }
+
+    return pairs.sort((a, b) =>
+      b.playableCount - a.playableCount || getPairName(a).localeCompare(getPairName(b))
+    );
+  }
+
+  /**
+   * Counts the playable cards and commander candidates for each of the ten color pairs
+   * @param picks - Player's drafted cards
+   * @param lastPick - Cards from the player's most recent pick, already included in their picks
+   * @returns Stats for each color pair, in WUBRG order
+   */
+  static getColorPairStats(picks: PlayerPicks, lastPick: CardInPool[] = []): ColorPairStats[] {
+    const cards = Object.values(picks).flat();
+    const stats: ColorPairStats[] = [];
+
+    for (let i = 0; i < COLOR_ORDER.length; i++) {
+      for (let j = i + 1; j < COLOR_ORDER.length; j++) {
+        const colors: [string, string] = [COLOR_ORDER[i], COLOR_ORDER[j]];
+        const playable = (entries: CardInPool[]): CardInPool[] =>
+          entries.filter(entry => fitsIdentity(entry.card, colors));
+        const commanders = (entries: CardInPool[]): CardInPool[] =>
+          playable(entries).filter(entry => this.isCommanderCandidate(entry.card));
+        const candidates = commanders(cards);
+
+        stats.push({
+          colors,
+          playableCount: countCards(playable(cards)),
+          commanderCount: countCards(candidates),
+          hasCommanders: colors.every(color => candidates.some(entry => entry.card.color_identity[0] === color)),
+          lastPickPlayable: countCards(playable(lastPick)),
+          lastPickCommanders: countCards(commanders(lastPick)),
+        });
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Checks a player's picks as a deck for a commander pair
+   * @param picks - Player's drafted cards
+   * @param pair - Commanders to build around
+   * @returns Playable and off-identity cards, and whether the deck can be filled
+   */
+  static validateDeck(picks: PlayerPicks, pair: CommanderPair): CommanderDeckReport {
+    const playable: CardInPool[] = [];
+    const offIdentity: CardInPool[] = [];
+
+    for (const entry of withoutCommanders(groupPicks(picks), pair.commanders)) {
+      (fitsIdentity(entry.card, pair.colorIdentity) ? playable : offIdentity).push(entry);
+    }
+
+    const deckCards = pair.commanders.length + countCards(playable);
+    const basicsNeeded = Math.max(0, COMMANDER_DECK_SIZE - deckCards);
+
+    return {
+      pair,
+      playable: sortByName(playable),
+      offIdentity: sortByName(offIdentity),
+      basicsNeeded,
+      isReachable: basicsNeeded <= MAX_BASIC_LANDS,
+    };
+  }
+
+  /**
+   * Formats a deck check as plain text for download
+   * @param report - Deck check to format
+   * @param playerName - Name of the player whose picks were checked
+   * @returns Report text
+   */
+  static formatReport(report: CommanderDeckReport, playerName: string): string {
+    const formatCards = (cards: CardInPool[]): string =>
+      cards.length > 0 ? cards.map(entry => `${entry.quantity} ${entry.card.name}`).join('\n') : '(none)';
+    const identity = report.pair.colorIdentity.join('') || 'C';
+
+    return [
+      `${playerName} Commander Deck Check`,
+      `Commanders: ${getPairName(report.pair)} (${identity})`,
+      `Playable cards: ${countCards(report.playable)}`,
+      `Off-identity cards: ${countCards(report.offIdentity)}`,
+      `Basic lands needed for ${COMMANDER_DECK_SIZE} cards: ${report.basicsNeeded}`,
+      report.isReachable
+        ? `${COMMANDER_DECK_SIZE} cards reachable: yes`
+        : `${COMMANDER_DECK_SIZE} cards reachable: no (needs more than ${MAX_BASIC_LANDS} basic lands)`,
+      '',
+      'Commanders:',
+      report.pair.commanders.map(card => `1 ${card.name}`).join('\n'),
+      '',
+      'Playable:',
+      formatCards(report.playable),
+      '',
+      'Off-identity:',
+      formatCards(report.offIdentity),
+    ].join('\n');
+  }
+
+  /**
+   * Builds a commander pair and counts the cards playable with it
+   * @param cards - All of the player's drafted cards
+   * @param commanders - The two commanders
+   * @returns The commander pair
+   */
+  private static createPair(cards: CardInPool[], commanders: [Card, Card]): CommanderPair {
+    const colorIdentity = getCombinedIdentity(commanders);
+    const playable = withoutCommanders(cards, commanders).filter(entry => fitsIdentity(entry.card, colorIdentity));
+
+    return { commanders, colorIdentity, playableCount: countCards(playable) };
+  }
+}
+
+/**
+ * Gets the display name of a commander pair
+ * @param pair - Commander pair
+ * @returns Both commanders' names
+ */
+export function getPairName(pair: CommanderPair): string {
+  return pair.commanders.map(card => card.name).join(' & ');
+}
+
+/**
+ * Gets the combined color identity of a group of cards, such as a pair of commanders
+ * @param cards - Cards to combine
+ * @returns Colors in WUBRG order
+ */
+export function getCombinedIdentity(cards: Card[]): string[] {
+  return [...new Set(cards.flatMap(card => card.color_identity))]
+    .sort((a, b) => COLOR_ORDER.indexOf(a) - COLOR_ORDER.indexOf(b));
+}
+
+/**
+ * Checks whether a card is within a color identity
+ * @param card - Card to check
+ * @param colorIdentity - Allowed colors
+ * @returns True if every color in the card's identity is allowed
+ */
+export function fitsIdentity(card: Card, colorIdentity: string[]): boolean {
+  return card.color_identity.every(color => colorIdentity.includes(color));
+}
+
+/**
+ * Removes one copy of each commander from a list of cards
+ * @param cards - Drafted cards
+ * @param commanders - Commanders to take out
+ * @returns The remaining cards
+ */
+function withoutCommanders(cards: CardInPool[], commanders: Card[]): CardInPool[] {
+  return cards
+    .map(entry => ({
+      ...entry,
+      quantity: entry.quantity - commanders.filter(card => card.id === entry.card.id).length,
+    }))
+    .filter(entry => entry.quantity > 0);
+}
+
+/**
+ * Counts cards, including extra copies
+ * @param cards - Cards to count
+ * @returns Total number of cards
+ */
+export function countCards(cards: CardInPool[]): number {
+  return cards.reduce((total, entry) => total + entry.quantity, 0);
+}
+
+/**
+ * Sorts cards by name
+ * @param cards - Cards to sort
+ * @returns The same cards, sorted
+ */
+function sortByName(cards: CardInPool[]): CardInPool[] {
+  return cards.sort((a, b) => a.card.name.localeCompare(b.card.name));
+}
@@ -0,0 +1,439 @@
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { DeckBuild, DeckFileEntry, DeckFileFormat, DeckSection } from '@/types/deck';
+import { BASIC_LAND_NAMES } from '@/constants/commander';
+import { formatCsvLine, parseCsvLine } from '@/utils/csv';
+import { groupPicks } from '@/utils/cardInstances';
+import { DeckService } from './deckService';
+
+/**
+ * File extension of each format
+ */
+const FILE_EXTENSIONS: Record<DeckFileFormat, string> = {
+  text: 'txt',
+  mtgo: 'dek',
+  arena: 'txt',
+  cockatrice: 'cod',
+  csv: 'csv',
+};
+
+/**
+ * Section headings of the text and Arena formats
+ */
+const SECTION_HEADINGS: Record<DeckSection, string> = {
+  commander: 'Commander',
+  main: 'Deck',
+  sideboard: 'Sideboard',
+};
+
+/**
+ * Columns of the CSV format
+ */
+const CSV_COLUMNS = ['Section', 'Quantity', 'Name', 'Set', 'Collector Number', 'Scryfall ID', 'Color Identity'];
+
+/**
+ * Line in the comments of a Cockatrice deck naming its commanders (Cockatrice has no commander zone)
+ */
+const COCKATRICE_COMMANDERS_PREFIX = 'Commanders: ';
+
+/**
+ * Arena deck line: quantity, name, and optionally "(SET) number"
+ */
+const ARENA_LINE_PATTERN = /^(\d+)\s+(.+?)(?:\s+\(([A-Za-z0-9]+)\)\s+(\S+))?$/;
+
+/**
+ * Exports pools and built decks to common deck file formats and reads them back.
+ *
+ * - text: "N Name" lines, with Commander / Deck / Sideboard headings once a deck is built
+ * - mtgo: MTGO .dek XML; commanders go in the sideboard with a Commander="true" attribute
+ * - arena: MTG Arena import text with set code and collector number
+ * - cockatrice: Cockatrice .cod XML; commanders are in the main zone and named in the comments
+ * - csv: one row per card with Scryfall ID and color identity
+ */
+export class DeckFormatService {
+  /**
+   * Lists a player's cards for export
+   * @param picks - Player's drafted cards
+   * @param deck - Deck the player built; without one, every pick is exported as the main deck
+   * @returns Deck file entries, commanders first, then the main deck (basic lands last) and sideboard
+   */
+  static getEntries(picks: PlayerPicks, deck?: DeckBuild): DeckFileEntry[] {
+    const toEntries = (cards: CardInPool[], section: DeckSection): DeckFileEntry[] =>
+      cards.map(entry => ({
+        section,
+        quantity: entry.quantity,
+        name: entry.card.name,
+        set: entry.card.set,
+        collectorNumber: entry.card.collector_number,
+        scryfallId: entry.card.id,
+        colorIdentity: entry.card.color_identity,
+      }));
+
+    if (!deck) {
+      const cards = groupPicks(picks).sort((a, b) => a.card.name.localeCompare(b.card.name));
+      return toEntries(cards, 'main');
+    }
+
+    const { commanders, mainDeck, sideboard } = DeckService.getDeckCards(deck, picks);
+    const basics: DeckFileEntry[] = Object.entries(deck.basicLands).map(([color, quantity]) => ({
+      section: 'main',
+      quantity,
+      name: BASIC_LAND_NAMES[color],
+      colorIdentity: [],
+    }));
+
+    return [
+      ...toEntries(commanders, 'commander'),
+      ...toEntries(mainDeck, 'main'),
+      ...basics,
+      ...toEntries(sideboard, 'sideboard'),
+    ];
+  }
+
+  /**
+   * Writes deck file entries in a format
+   * @param format - File format
+   * @param entries - Cards to write
+   * @param deckName - Name recorded in formats that keep one
+   * @returns File contents
+   */
+  static format(format: DeckFileFormat, entries: DeckFileEntry[], deckName = 'Solomon Draft'): string {
+    switch (format) {
+      case 'text':
+        return formatSections(mergePrintings(entries), entry => `${entry.quantity} ${entry.name}`);
+      case 'arena':
+        return formatSections(entries, entry =>
+          entry.set && entry.collectorNumber
+            ? `${entry.quantity} ${entry.name} (${entry.set.toUpperCase()}) ${entry.collectorNumber}`
+            : `${entry.quantity} ${entry.name}`
+        );
+      case 'mtgo':
+        return formatMtgo(entries);
+      case 'cockatrice':
+        return formatCockatrice(entries, deckName);
+      case 'csv':
+        return formatCsv(entries);
+    }
+  }
+
+  /**
+   * Reads deck file entries from a file in a format
+   * @param format - File format
+   * @param text - File contents
+   * @returns Cards in the file
+   * @throws Error if the file has no cards in the format
+   */
+  static parse(format: DeckFileFormat, text: string): DeckFileEntry[] {
+    const entries =
+      format === 'mtgo' ? parseMtgo(text)
+      : format === 'cockatrice' ? parseCockatrice(text)
+      : format === 'csv' ? parseCsv(text)
+      : parseSections(text);
+
+    if (entries.length === 0) {
+      throw new Error('The file does not contain any cards');
+    }
+    return entries;
+  }
+
+  /**
+   * Works out the format of a deck file from its name and contents
+   * @param fileName - Name of the file
+   * @param text - File contents
+   * @returns The file's format
+   */
+  static detectFormat(fileName: string, text: string): DeckFileFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'dek' || text.includes('<Deck')) return 'mtgo';
+    if (extension === 'cod' || text.includes('<cockatrice_deck')) return 'cockatrice';
+    if (extension === 'csv') return 'csv';
+    // Arena lines end with the printing, e.g. "1 Lightning Bolt (M10) 146"
+    return /^\d+\s+.+\s\([A-Za-z0-9]+\)\s+\S+\s*$/m.test(text) ? 'arena' : 'text';
+  }
+
+  /**
+   * Gets the file name for an export
+   * @param format - File format
+   * @param baseName - File name without extension
+   * @returns File name with the format's extension
+   */
+  static getFileName(format: DeckFileFormat, baseName: string): string {
+    return `${baseName}${format === 'arena' ? '-arena' : ''}.${FILE_EXTENSIONS[format]}`;
+  }
+}
+
+/**
+ * Combines entries for different printings of the same card in the same section
+ * @param entries - Cards to combine
+ * @returns One entry per card name and section, without printing details
+ */
+function mergePrintings(entries: DeckFileEntry[]): DeckFileEntry[] {
+  const merged = new Map<string, DeckFileEntry>();
+  for (const entry of entries) {
+    const key = `${entry.section}|${entry.name}`;
+    const existing = merged.get(key);
+    merged.set(key, {
+      section: entry.section,
+      name: entry.name,
+      quantity: (existing?.quantity ?? 0) + entry.quantity,
+    });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Writes entries as lines under Commander / Deck / Sideboard headings.
+ * A pool with only main deck cards is written without headings.
+ * @param entries - Cards to write
+ * @param formatLine - Formats one entry as a line
+ * @returns Deck list text
+ */
+function formatSections(entries: DeckFileEntry[], formatLine: (entry: DeckFileEntry) => string): string {
+  if (entries.every(entry => entry.section === 'main')) {
+    return entries.map(formatLine).join('\n');
+  }
+
+  return (Object.entries(SECTION_HEADINGS) as Array<[DeckSection, string]>)
+    .map(([section, heading]) => [heading, ...entries.filter(entry => entry.section === section).map(formatLine)])
+    .filter(lines => lines.length > 1)
+    .map(lines => lines.join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Reads "N Name" or Arena lines, with optional section headings (a blank line
+ * before the sideboard also starts it, as in deck lists without headings)
+ * @param text - Deck list text
+ * @returns Cards in the list
+ */
+function parseSections(text: string): DeckFileEntry[] {
+  const entries: DeckFileEntry[] = [];
+  const headings = Object.entries(SECTION_HEADINGS) as Array<[DeckSection, string]>;
+  let section: DeckSection = 'main';
+  let hasHeadings = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    const heading = headings.find(([, name]) => name.toLowerCase() === line.toLowerCase());
+    if (heading) {
+      section = heading[0];
+      hasHeadings = true;
+      continue;
+    }
+    if (!line) {
+      if (!hasHeadings && entries.length > 0) section = 'sideboard';
+      continue;
+    }
+
+    const match = line.match(ARENA_LINE_PATTERN);
+    if (!match) continue;
+    entries.push({
+      section,
+      quantity: parseInt(match[1], 10),
+      name: match[2].trim(),
+      ...(match[3] && { set: match[3].toLowerCase(), collectorNumber: match[4] }),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Writes entries as an MTGO .dek file
+ * @param entries - Cards to write
+ * @returns XML text
+ */
+function formatMtgo(entries: DeckFileEntry[]): string {
+  const lines = entries.map(entry => {
+    const commander = entry.section === 'commander' ? ' Commander="true"' : '';
+    const sideboard = entry.section === 'main' ? 'false' : 'true';
+    return `  <Cards CatID="0" Quantity="${entry.quantity}" Sideboard="${sideboard}" Name="${escapeXml(entry.name)}"${commander} />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <NetDeckID>0</NetDeckID>',
+    '  <PreconstructedDeckID>0</PreconstructedDeckID>',
+    ...lines,
+    '</Deck>',
+  ].join('\n');
+}
+
+/**
+ * Reads the cards of an MTGO .dek file
+ * @param text - XML text
+ * @returns Cards in the file
+ */
+function parseMtgo(text: string): DeckFileEntry[] {
+  return readXmlElements(text, 'Cards').map(attributes => ({
+    section: attributes.Commander === 'true' ? 'commander' : attributes.Sideboard === 'true' ? 'sideboard' : 'main',
+    quantity: parseInt(attributes.Quantity, 10) || 1,
+    name: attributes.Name ?? '',
+  }));
+}
+
+/**
+ * Writes entries as a Cockatrice .cod file
+ * @param entries - Cards to write
+ * @param deckName - Name of the deck
+ * @returns XML text
+ */
+function formatCockatrice(entries: DeckFileEntry[], deckName: string): string {
+  const formatCard = (entry: DeckFileEntry): string => {
+    const printing = entry.set && entry.collectorNumber
+      ? ` setShortName="${escapeXml(entry.set.toUpperCase())}" collectorNumber="${escapeXml(entry.collectorNumber)}"`
+      : '';
+    return `    <card number="${entry.quantity}" name="${escapeXml(entry.name)}"${printing}/>`;
+  };
+  const commanders = entries.filter(entry => entry.section === 'commander');
+  const comments = commanders.length > 0
+    ? `${COCKATRICE_COMMANDERS_PREFIX}${commanders.map(entry => entry.name).join('; ')}`
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<cockatrice_deck version="1">',
+    `  <deckname>${escapeXml(deckName)}</deckname>`,
+    `  <comments>${escapeXml(comments)}</comments>`,
+    '  <zone name="main">',
+    ...entries.filter(entry => entry.section !== 'sideboard').map(formatCard),
+    '  </zone>',
+    '  <zone name="side">',
+    ...entries.filter(entry => entry.section === 'sideboard').map(formatCard),
+    '  </zone>',
+    '</cockatrice_deck>',
+  ].join('\n');
+}
+
+/**
+ * Reads the cards of a Cockatrice .cod file
+ * @param text - XML text
+ * @returns Cards in the file
+ */
+function parseCockatrice(text: string): DeckFileEntry[] {
+  const comments = unescapeXml(text.match(/<comments>([\s\S]*?)<\/comments>/)?.[1] ?? '');
+  const commanderLine = comments.split('\n').find(line => line.startsWith(COCKATRICE_COMMANDERS_PREFIX));
+  const commanderNames = commanderLine ? commanderLine.slice(COCKATRICE_COMMANDERS_PREFIX.length).split('; ') : [];
+  const entries: DeckFileEntry[] = [];
+
+  for (const zone of text.matchAll(/<zone\s+name="([^"]*)"\s*>([\s\S]*?)<\/zone>/g)) {
+    for (const attributes of readXmlElements(zone[2], 'card')) {
+      const entry: DeckFileEntry = {
+        section: zone[1] === 'side' ? 'sideboard' : 'main',
+        quantity: parseInt(attributes.number, 10) || 1,
+        name: attributes.name ?? '',
+        ...(attributes.setShortName && { set: attributes.setShortName.toLowerCase() }),
+        ...(attributes.collectorNumber && { collectorNumber: attributes.collectorNumber }),
+      };
+
+      // Each listed commander name claims one main zone copy; other copies stay in the main deck
+      let commanderCopies = 0;
+      while (entry.section === 'main' && commanderCopies < entry.quantity && commanderNames.includes(entry.name)) {
+        commanderNames.splice(commanderNames.indexOf(entry.name), 1);
+        commanderCopies++;
+      }
+      if (commanderCopies > 0) entries.push({ ...entry, section: 'commander', quantity: commanderCopies });
+      if (entry.quantity > commanderCopies) entries.push({ ...entry, quantity: entry.quantity - commanderCopies });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Writes entries as CSV with a header row
+ * @param entries - Cards to write
+ * @returns CSV text
+ */
+function formatCsv(entries: DeckFileEntry[]): string {
+  return [
+    formatCsvLine(CSV_COLUMNS),
+    ...entries.map(entry => formatCsvLine([
+      entry.section,
+      String(entry.quantity),
+      entry.name,
+      entry.set ?? '',
+      entry.collectorNumber ?? '',
+      entry.scryfallId ?? '',
+      entry.colorIdentity?.join('') ?? '',
+    ])),
+  ].join('\n');
+}
+
+/**
+ * Reads CSV written by formatCsv; columns are found by their header
+ * @param text - CSV text
+ * @returns Cards in the file
+ */
+function parseCsv(text: string): DeckFileEntry[] {
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+  if (!header) return [];
+
+  const columns = parseCsvLine(header).map(cell => cell.trim().toLowerCase());
+  const column = (cells: string[], name: string): string =>
+    cells[columns.indexOf(name.toLowerCase())]?.trim() ?? '';
+  const sections: DeckSection[] = ['commander', 'main', 'sideboard'];
+
+  return rows
+    .map(parseCsvLine)
+    .filter(cells => column(cells, 'Name'))
+    .map(cells => {
+      const section = column(cells, 'Section').toLowerCase() as DeckSection;
+      const colorIdentity = column(cells, 'Color Identity');
+      return {
+        section: sections.includes(section) ? section : 'main',
+        quantity: parseInt(column(cells, 'Quantity'), 10) || 1,
+        name: column(cells, 'Name'),
+        ...(column(cells, 'Set') && { set: column(cells, 'Set').toLowerCase() }),
+        ...(column(cells, 'Collector Number') && { collectorNumber: column(cells, 'Collector Number') }),
+        ...(column(cells, 'Scryfall ID') && { scryfallId: column(cells, 'Scryfall ID') }),
+        ...(columns.includes('color identity') && { colorIdentity: colorIdentity.split('').filter(Boolean) }),
+      };
+    });
+}
+
+/**
+ * Reads the attributes of every self-closing XML element with a tag name
+ * @param text - XML text
+ * @param tagName - Element name
+ * @returns Attributes of each element, unescaped
+ */
+function readXmlElements(text: string, tagName: string): Array<Record<string, string>> {
+  const elements: Array<Record<string, string>> = [];
+  for (const element of text.matchAll(new RegExp(`<${tagName}\\s([^>]*?)\\/?>`, 'g'))) {
+    const attributes: Record<string, string> = {};
+    for (const attribute of element[1].matchAll(/([\w:-]+)="([^"]*)"/g)) {
+      attributes[attribute[1]] = unescapeXml(attribute[2]);
+    }
+    elements.push(attributes);
+  }
+  return elements;
+}
+
+/**
+ * Escapes text for an XML attribute or element
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Reverses escapeXml
+ * @param text - Escaped text
+ * @returns Original text
+ */
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
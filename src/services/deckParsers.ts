@@ -1,5 +1,16 @@
+import { Card, CardInPool } from '@/types/card';
 import { DeckListInput } from '@/types/draft';
+import { DeckFileEntry } from '@/types/deck';
+import { PoolSource } from '@/utils/seedUtils';
 import { scryfallService } from './scryfall';
+import { DeckFormatService } from './deckFormats';
+
+/**
+ * URL patterns used to extract deck and cube IDs
+ */
+const MOXFIELD_DECK_PATTERN = /moxfield\.com\/decks\/([a-zA-Z0-9]+)/;
+const CUBECOBRA_LIST_PATTERN = /cubecobra\.com\/cube\/list\/([a-zA-Z0-9-]+)/;
+const CUBECOBRA_OVERVIEW_PATTERN = /cubecobra\.com\/cube\/overview\/([a-zA-Z0-9-]+)/;
 
 /**
  * Parser for extracting deck lists from various online sources
@@ -14,7 +25,7 @@ export class DeckListParser {
    */
   static async parseMoxfieldUrl(url: string): Promise<DeckListInput> {
     // Extract deck ID from Moxfield URL using regex pattern
-    const match = url.match(/moxfield\.com\/decks\/([a-zA-Z0-9]+)/);
+    const match = url.match(MOXFIELD_DECK_PATTERN);
     if (!match) {
       throw new Error('Invalid Moxfield URL format');
     }
@@ -50,8 +61,8 @@ export class DeckListParser {
 
   static async parseCubeCobraUrl(url: string): Promise<DeckListInput> {
     // Extract cube ID from CubeCobra URL - handle both /list/ and /overview/ formats
-    const listMatch = url.match(/cubecobra\.com\/cube\/list\/([a-zA-Z0-9-]+)/);
-    const overviewMatch = url.match(/cubecobra\.com\/cube\/overview\/([a-zA-Z0-9-]+)/);
+    const listMatch = url.match(CUBECOBRA_LIST_PATTERN);
+    const overviewMatch = url.match(CUBECOBRA_OVERVIEW_PATTERN);
     
     const cubeId = listMatch?.[1] || overviewMatch?.[1];
     if (!cubeId) {
@@ -121,6 +132,111 @@ export class DeckListParser {
     }
   }
 
+  /**
+   * Identifies the deck or cube a URL points to
+   * @param url - A Moxfield or CubeCobra URL
+   * @returns The pool source, or null if the URL is not a supported deck list
+   */
+  static getPoolSource(url: string): PoolSource | null {
+    const moxfieldId = url.match(MOXFIELD_DECK_PATTERN)?.[1];
+    if (moxfieldId) {
+      return { type: 'moxfield', id: moxfieldId };
+    }
+
+    const cubeId = url.match(CUBECOBRA_LIST_PATTERN)?.[1] || url.match(CUBECOBRA_OVERVIEW_PATTERN)?.[1];
+    if (cubeId) {
+      return { type: 'cubecobra', id: cubeId };
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds the canonical URL for a pool source
+   * @param source - The deck or cube to link to
+   * @returns URL that parseDeckListUrl accepts
+   */
+  static getPoolSourceUrl(source: PoolSource): string {
+    return source.type === 'moxfield'
+      ? `https://www.moxfield.com/decks/${source.id}`
+      : `https://cubecobra.com/cube/list/${source.id}`;
+  }
+
+  /**
+   * Gets a display name for a loaded deck list (used to label saved drafts)
+   * @param deckList - The loaded deck list
+   * @returns The list's name, or a description of its source
+   */
+  static getDisplayName(deckList: DeckListInput): string {
+    if (deckList.name) return deckList.name;
+
+    const source = this.getPoolSource(deckList.url);
+    if (source) {
+      return `${source.type === 'cubecobra' ? 'CubeCobra' : 'Moxfield'}: ${source.id}`;
+    }
+
+    return deckList.type === 'seed' ? 'Seeded draft' : 'Custom deck list';
+  }
+
+  /**
+   * Loads a pool from a deck file exported by this app or another tool
+   * (plain text, MTG Arena, MTGO .dek, Cockatrice .cod or CSV). Every card in
+   * the file becomes part of the pool, commanders and sideboard included.
+   * @param fileName - Name of the file (its extension helps identify the format)
+   * @param text - File contents
+   * @returns Promise resolving to DeckListInput with the file's cards
+   * @throws Error if the file has no cards or none of them can be found on Scryfall
+   */
+  static async parseDeckFile(fileName: string, text: string): Promise<DeckListInput> {
+    const entries = DeckFormatService.parse(DeckFormatService.detectFormat(fileName, text), text);
+
+    // Exact printings are looked up first; anything not found falls back to a name search
+    const byId = await scryfallService.fetchCardsByIds(
+      entries.flatMap(entry => (entry.scryfallId ? [entry.scryfallId] : []))
+    );
+    const byPrinting = await scryfallService.fetchCardsByPrintings(
+      entries.flatMap(entry =>
+        !entry.scryfallId && entry.set && entry.collectorNumber
+          ? [{ set: entry.set, collectorNumber: entry.collectorNumber }]
+          : []
+      )
+    );
+    const findPrinting = (entry: DeckFileEntry): Card | undefined =>
+      byId.find(card => card.id === entry.scryfallId) ??
+      byPrinting.find(card => card.set === entry.set && card.collector_number === entry.collectorNumber);
+
+    const unmatchedNames = [...new Set(entries.filter(entry => !findPrinting(entry)).map(entry => entry.name))];
+    const byName = unmatchedNames.length > 0 ? await scryfallService.searchCards(unmatchedNames) : [];
+
+    const cards = new Map<string, CardInPool>();
+    const missing: string[] = [];
+    for (const entry of entries) {
+      const name = entry.name.toLowerCase();
+      const card = findPrinting(entry) ??
+        byName.find(found => found.name.toLowerCase() === name || found.name.toLowerCase().split(' // ')[0] === name);
+      if (!card) {
+        missing.push(entry.name);
+        continue;
+      }
+      const existing = cards.get(card.id);
+      cards.set(card.id, { card, quantity: (existing?.quantity ?? 0) + entry.quantity });
+    }
+
+    if (cards.size === 0) {
+      throw new Error('None of the cards in the deck file could be found');
+    }
+    if (missing.length > 0) {
+      console.warn('Cards in deck file not found:', missing);
+    }
+
+    return {
+      url: 'deck-file',
+      type: 'moxfield', // Default type for pools that are not loaded from a URL
+      cards: [...cards.values()],
+      name: fileName.replace(/\.[^.]+$/, ''),
+    };
+  }
+
   // Future enhancement: Parse raw deck list text
   static async parseRawDeckList(deckListText: string): Promise<DeckListInput> {
     const cards = await scryfallService.convertDeckListToCards(deckListText);
@@ -0,0 +1,269 @@
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { DeckBuild, DeckCards } from '@/types/deck';
+import { BASIC_LAND_NAMES, COMMANDER_DECK_SIZE, MAX_CURVE_CMC } from '@/constants/commander';
+import { groupPicks } from '@/utils/cardInstances';
+import { CommanderValidator, countCards, fitsIdentity, getCombinedIdentity } from './commanderValidator';
+
+/**
+ * Number of commanders a deck has
+ */
+const COMMANDER_COUNT = 2;
+
+/**
+ * Deckbuilding after the draft. A deck records the commanders, how many
+ * copies of each drafted card are in the main deck and the basic lands added;
+ * everything else a player drafted is their sideboard. All methods return new
+ * decks rather than changing the one passed in.
+ */
+export class DeckService {
+  /**
+   * Creates a starting deck: the commander pair with the most playable cards,
+   * every playable card in the main deck and basic lands up to full size
+   * @param picks - Player's drafted cards
+   * @returns The new deck
+   */
+  static createDeck(picks: PlayerPicks): DeckBuild {
+    const [pair] = CommanderValidator.getCommanderPairs(picks);
+    const deck: DeckBuild = { commanderIds: [], mainDeck: {}, basicLands: {} };
+    if (!pair) {
+      return deck;
+    }
+
+    const commanderDeck = this.setCommanders(deck, picks, pair.commanders.map(card => card.id));
+    const { sideboard } = this.getDeckCards(commanderDeck, picks);
+    const mainDeck: Record<string, number> = {};
+    for (const entry of sideboard) {
+      if (fitsIdentity(entry.card, pair.colorIdentity)) {
+        mainDeck[entry.card.id] = entry.quantity;
+      }
+    }
+
+    return this.fillBasicLands({ ...commanderDeck, mainDeck }, picks);
+  }
+
+  /**
+   * Splits a player's picks into commanders, main deck and sideboard
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @returns The deck's drafted cards (main deck counts are capped at the copies drafted)
+   */
+  static getDeckCards(deck: DeckBuild, picks: PlayerPicks): DeckCards {
+    const commanders: CardInPool[] = [];
+    const mainDeck: CardInPool[] = [];
+    const sideboard: CardInPool[] = [];
+
+    for (const entry of groupPicks(picks)) {
+      const commanderCopies = deck.commanderIds.filter(id => id === entry.card.id).length;
+      const available = entry.quantity - commanderCopies;
+      const inMain = Math.min(deck.mainDeck[entry.card.id] ?? 0, available);
+
+      if (commanderCopies > 0) commanders.push({ card: entry.card, quantity: commanderCopies });
+      if (inMain > 0) mainDeck.push({ card: entry.card, quantity: inMain });
+      if (available > inMain) sideboard.push({ card: entry.card, quantity: available - inMain });
+    }
+
+    const byName = (a: CardInPool, b: CardInPool): number => a.card.name.localeCompare(b.card.name);
+    return { commanders, mainDeck: mainDeck.sort(byName), sideboard: sideboard.sort(byName) };
+  }
+
+  /**
+   * Chooses the deck's commanders. A commander's copy leaves the main deck.
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @param commanderIds - IDs of the commanders (up to two)
+   * @returns The updated deck
+   * @throws Error if a card is not a monocolored creature the player drafted, or is used more times than drafted
+   */
+  static setCommanders(deck: DeckBuild, picks: PlayerPicks, commanderIds: string[]): DeckBuild {
+    const cards = groupPicks(picks);
+    for (const id of commanderIds) {
+      const entry = cards.find(candidate => candidate.card.id === id);
+      if (!entry || !CommanderValidator.isCommanderCandidate(entry.card)) {
+        throw new Error('Commanders must be monocolored creatures you drafted');
+      }
+      if (commanderIds.filter(other => other === id).length > entry.quantity) {
+        throw new Error(`You drafted only ${entry.quantity} ${entry.card.name}`);
+      }
+    }
+
+    const updated: DeckBuild = { ...deck, commanderIds: commanderIds.slice(0, COMMANDER_COUNT) };
+    // Re-read the main deck so counts no longer include copies now used as commanders
+    const { mainDeck } = this.getDeckCards(updated, picks);
+    return { ...updated, mainDeck: Object.fromEntries(mainDeck.map(entry => [entry.card.id, entry.quantity])) };
+  }
+
+  /**
+   * Moves one copy of a card between the sideboard and the main deck
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @param cardId - ID of the card to move
+   * @param toMainDeck - True to move a copy into the main deck, false to move one to the sideboard
+   * @returns The updated deck (unchanged if there is no copy to move)
+   */
+  static moveCard(deck: DeckBuild, picks: PlayerPicks, cardId: string, toMainDeck: boolean): DeckBuild {
+    const { mainDeck, sideboard } = this.getDeckCards(deck, picks);
+    const from = toMainDeck ? sideboard : mainDeck;
+    if (!from.some(entry => entry.card.id === cardId)) {
+      return deck;
+    }
+
+    const count = (mainDeck.find(entry => entry.card.id === cardId)?.quantity ?? 0) + (toMainDeck ? 1 : -1);
+    const updatedMain = { ...deck.mainDeck, [cardId]: count };
+    if (count === 0) delete updatedMain[cardId];
+    return { ...deck, mainDeck: updatedMain };
+  }
+
+  /**
+   * Sets how many of one basic land the deck runs
+   * @param deck - Player's deck
+   * @param color - Color of the basic land (W, U, B, R, G)
+   * @param count - Number of copies
+   * @returns The updated deck
+   */
+  static setBasicLands(deck: DeckBuild, color: string, count: number): DeckBuild {
+    const basicLands = { ...deck.basicLands, [color]: Math.max(0, Math.floor(count)) };
+    if (basicLands[color] === 0) delete basicLands[color];
+    return { ...deck, basicLands };
+  }
+
+  /**
+   * Replaces the deck's basic lands with enough to reach full size, split
+   * between the commanders' colors by how many mana symbols of each the deck's spells need
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @returns The updated deck (without basic lands if the commanders are not chosen or colorless)
+   */
+  static fillBasicLands(deck: DeckBuild, picks: PlayerPicks): DeckBuild {
+    const cards = this.getDeckCards({ ...deck, basicLands: {} }, picks);
+    const colors = getCombinedIdentity(cards.commanders.map(entry => entry.card));
+    const needed = COMMANDER_DECK_SIZE - countCards(cards.commanders) - countCards(cards.mainDeck);
+    if (colors.length === 0 || needed <= 0) {
+      return { ...deck, basicLands: {} };
+    }
+
+    // Each color gets at least one symbol's weight, so no commander color is left without lands
+    const weights = colors.map(color =>
+      1 + [...cards.commanders, ...cards.mainDeck].reduce(
+        (total, entry) => total + countManaSymbols(entry.card.mana_cost, color) * entry.quantity, 0
+      )
+    );
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const counts = weights.map(weight => Math.floor((needed * weight) / totalWeight));
+
+    // Lands left over from rounding down go to the colors with the largest remainders
+    const byRemainder = colors
+      .map((_, index) => index)
+      .sort((a, b) => ((needed * weights[b]) / totalWeight - counts[b]) - ((needed * weights[a]) / totalWeight - counts[a]));
+    for (let i = 0; i < needed - counts.reduce((total, count) => total + count, 0); i++) {
+      counts[byRemainder[i]]++;
+    }
+
+    const basicLands: Record<string, number> = {};
+    colors.forEach((color, index) => {
+      if (counts[index] > 0) basicLands[color] = counts[index];
+    });
+    return { ...deck, basicLands };
+  }
+
+  /**
+   * Counts the cards in a deck
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @returns Commanders, main deck cards and basic lands together
+   */
+  static getDeckSize(deck: DeckBuild, picks: PlayerPicks): number {
+    const { commanders, mainDeck } = this.getDeckCards(deck, picks);
+    return countCards(commanders) + countCards(mainDeck) + countBasicLands(deck);
+  }
+
+  /**
+   * Counts the deck's nonland cards by mana value
+   * @param cards - Main deck cards
+   * @returns Card counts indexed by mana value, with the last entry counting everything from MAX_CURVE_CMC up
+   */
+  static getManaCurve(cards: CardInPool[]): number[] {
+    const curve: number[] = new Array(MAX_CURVE_CMC + 1).fill(0);
+    for (const entry of cards) {
+      if (isLand(entry)) continue;
+      curve[Math.min(Math.floor(entry.card.cmc), MAX_CURVE_CMC)] += entry.quantity;
+    }
+    return curve;
+  }
+
+  /**
+   * Counts the lands that can produce each color
+   * @param deck - Player's deck
+   * @param cards - Main deck cards
+   * @returns Number of sources per color (W, U, B, R, G); drafted lands count for each color in their identity
+   */
+  static getColorSources(deck: DeckBuild, cards: CardInPool[]): Record<string, number> {
+    const sources: Record<string, number> = {};
+    for (const color of Object.keys(BASIC_LAND_NAMES)) {
+      sources[color] = (deck.basicLands[color] ?? 0) + cards
+        .filter(entry => isLand(entry) && entry.card.color_identity.includes(color))
+        .reduce((total, entry) => total + entry.quantity, 0);
+    }
+    return sources;
+  }
+
+  /**
+   * Lists the ways a deck breaks the commander limited rules
+   * @param deck - Player's deck
+   * @param picks - Player's drafted cards
+   * @returns Problems with the deck, empty if it is legal
+   */
+  static getIssues(deck: DeckBuild, picks: PlayerPicks): string[] {
+    const issues: string[] = [];
+    const { commanders, mainDeck } = this.getDeckCards(deck, picks);
+    const commanderCount = countCards(commanders);
+
+    if (commanderCount < COMMANDER_COUNT) {
+      issues.push(`Choose ${COMMANDER_COUNT - commanderCount} more ${commanderCount === 1 ? 'commander' : 'commanders'}`);
+    } else {
+      const identity = getCombinedIdentity(commanders.map(entry => entry.card));
+      const offIdentity = mainDeck.filter(entry => !fitsIdentity(entry.card, identity));
+      if (offIdentity.length > 0) {
+        issues.push(`Outside the commanders' colors: ${offIdentity.map(entry => entry.card.name).join(', ')}`);
+      }
+      const offColorBasics = Object.keys(deck.basicLands).filter(color => !identity.includes(color));
+      if (offColorBasics.length > 0) {
+        issues.push(`Basic lands outside the commanders' colors: ${offColorBasics.map(color => BASIC_LAND_NAMES[color]).join(', ')}`);
+      }
+    }
+
+    const size = this.getDeckSize(deck, picks);
+    if (size !== COMMANDER_DECK_SIZE) {
+      issues.push(`The deck has ${size} cards; it needs exactly ${COMMANDER_DECK_SIZE}`);
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Checks whether a card is a land
+ * @param entry - Card to check
+ * @returns True if the card's front face is a land
+ */
+export function isLand(entry: CardInPool): boolean {
+  return entry.card.type_line.split('//')[0].includes('Land');
+}
+
+/**
+ * Counts the basic lands in a deck
+ * @param deck - Player's deck
+ * @returns Total basic lands
+ */
+function countBasicLands(deck: DeckBuild): number {
+  return Object.values(deck.basicLands).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Counts the mana symbols of one color in a mana cost, hybrid symbols included
+ * @param manaCost - Mana cost in Scryfall format (e.g. "{1}{W}{W/U}")
+ * @param color - Color to count
+ * @returns Number of symbols that can be paid with the color
+ */
+function countManaSymbols(manaCost: string | undefined, color: string): number {
+  return (manaCost?.match(/\{[^}]+\}/g) ?? []).filter(symbol => symbol.includes(color)).length;
+}
@@ -0,0 +1,207 @@
+import { CardInPool, CardInstance, Pile } from '@/types/card';
+import { BotDifficulty, DraftCommand, DraftState, GridLine, PlayerId } from '@/types/draft';
+import { getActivePlayer } from '@/utils/turnTokens';
+import { CardValuer, SplitCards, SplitEvaluator, sumValues } from './splitEvaluator';
+import { BURN_PILE_ID } from '@/constants/draftDefaults';
+import { hasSplitRules, resolveSplitRules } from '@/utils/splitRules';
+import { DraftService } from './draftService';
+
+/**
+ * How a bot of each difficulty plays
+ */
+interface BotProfile {
+  /** Random variation applied to each card's value, as a fraction of it */
+  noise: number;
+  /** Whether the bot values cards by how well they fit its colors */
+  colorAware: boolean;
+  /** Whether the bot splits by predicting which pile the opponent will take */
+  predictsOpponent: boolean;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: { noise: 0.5, colorAware: false, predictsOpponent: false },
+  medium: { noise: 0.15, colorAware: true, predictsOpponent: false },
+  hard: { noise: 0, colorAware: true, predictsOpponent: true },
+};
+
+/**
+ * How many unseen cards' worth a Winston pile must be for the bot to take it
+ * rather than look at the next pile (on the last pile, one card's worth is enough)
+ */
+const WINSTON_TAKE_FACTOR = 1.5;
+
+/**
+ * Heuristic bot that can play either seat of a Solomon, Winston or grid draft.
+ * It deals when it is the splitter, splits packs into two piles and chooses
+ * piles, takes and passes Winston piles, or picks grid rows and columns, valuing cards by their rating and
+ * by how well they fit the colors it has drafted (see SplitEvaluator).
+ * Bot moves are ordinary draft commands, so they are recorded in the history like a person's.
+ */
+export class DraftBot {
+  /**
+   * Decides the bot's next move for the active seat
+   * @param draft - Current draft state
+   * @param difficulty - How strongly the bot plays
+   * @returns Command to apply for the active player
+   * @throws Error if the draft is already complete
+   */
+  static getCommand(draft: DraftState, difficulty: BotDifficulty): DraftCommand {
+    if (draft.isComplete) {
+      throw new Error('The draft is complete');
+    }
+
+    const seat = getActivePlayer(draft.currentPhase);
+    const profile = BOT_PROFILES[difficulty];
+    const { activePack } = draft;
+
+    if (!activePack) {
+      return { type: 'start-round' };
+    }
+
+    const value = this.createValuer(draft, seat, profile);
+    if (draft.currentPhase.endsWith('look')) {
+      return this.lookAtPile(draft, value);
+    }
+    if (draft.currentPhase.endsWith('pick')) {
+      return { type: 'pick-line', line: this.pickLine(draft, value) };
+    }
+    if (!activePack.piles) {
+      return { type: 'split-pack', piles: this.splitPack(draft, activePack.cards, seat, value, profile) };
+    }
+
+    return { type: 'choose-pile', pileId: this.choosePile(activePack.piles, value) };
+  }
+
+  /**
+   * Creates the function a bot uses to value cards for a player
+   * @param draft - Current draft state
+   * @param seat - Player whose value is being estimated
+   * @param profile - How the bot plays
+   * @returns Card valuer (random variation is fixed per card, so one decision is consistent)
+   */
+  private static createValuer(draft: DraftState, seat: PlayerId, profile: BotProfile): CardValuer {
+    const baseValue = SplitEvaluator.createValuer(draft, seat, profile.colorAware);
+    const variation = new Map<string, number>();
+
+    return (entry: CardInPool): number => {
+      let factor = variation.get(entry.card.id);
+      if (factor === undefined) {
+        factor = 1 + (Math.random() * 2 - 1) * profile.noise;
+        variation.set(entry.card.id, factor);
+      }
+
+      return baseValue(entry) * factor;
+    };
+  }
+
+  /**
+   * Decides whether to take the Winston pile being looked at. A pile is taken
+   * when it is worth more than passing is likely to bring, judged by the
+   * average value of the cards still unseen in the pool.
+   * @param draft - Current draft state, with the piles dealt
+   * @param value - Bot's card valuer
+   * @returns Take or pass command
+   */
+  private static lookAtPile(draft: DraftState, value: CardValuer): DraftCommand {
+    const piles = draft.activePack?.piles ?? [];
+    const pileIndex = draft.currentPile ?? 0;
+    const isLastPile = !piles.some((pile, index) => index > pileIndex && pile.cards.length > 0);
+
+    if (!DraftService.canPassPile(draft)) {
+      return { type: 'take-pile' };
+    }
+
+    const unseenValue = sumValues(draft.cardsInPool, value) / draft.cardsInPool.length || 0;
+    const pileValue = sumValues(piles[pileIndex]?.cards ?? [], value);
+    return pileValue >= unseenValue * (isLastPile ? 1 : WINSTON_TAKE_FACTOR)
+      ? { type: 'take-pile' }
+      : { type: 'pass-pile' };
+  }
+
+  /**
+   * Picks the grid row or column whose remaining cards are worth the most to the bot
+   * @param draft - Current draft state, with a grid dealt
+   * @param value - Bot's card valuer
+   * @returns The row or column to pick
+   */
+  private static pickLine(draft: DraftState, value: CardValuer): GridLine {
+    const lines = DraftService.getGridLines(draft);
+    const totals = lines.map(entry => sumValues(entry.cards, value));
+    return lines[totals.indexOf(Math.max(...totals))].line;
+  }
+
+  /**
+   * Picks the pile worth the most to the bot (never the burn pile)
+   * @param piles - Piles on offer
+   * @param value - Bot's card valuer
+   * @returns ID of the chosen pile
+   */
+  private static choosePile(piles: Pile[], value: CardValuer): string {
+    const choosable = piles.filter(pile => pile.id !== BURN_PILE_ID);
+    const totals = choosable.map(pile => sumValues(pile.cards, value));
+    return choosable[totals.indexOf(Math.max(...totals))].id;
+  }
+
+  /**
+   * Splits a pack into piles, following the draft's split rules
+   * @param draft - Current draft state
+   * @param cards - Cards in the pack
+   * @param seat - Splitting player
+   * @param value - Splitter's card valuer
+   * @param profile - How the bot plays
+   * @returns The piles, with a burn pile last if any cards are burned
+   */
+  private static splitPack(
+    draft: DraftState,
+    cards: CardInstance[],
+    seat: PlayerId,
+    value: CardValuer,
+    profile: BotProfile
+  ): Pile[] {
+    if (hasSplitRules(draft.settings.splitRules)) {
+      // With more piles the splitter keeps all but one, so piles the opponent values evenly leave it the most
+      const balanceBy = profile.predictsOpponent
+        ? this.createValuer(draft, seat === 'P1' ? 'P2' : 'P1', profile)
+        : value;
+      const { piles, burned } = SplitEvaluator.dealPiles(cards, balanceBy, resolveSplitRules(draft.settings.splitRules));
+      return [
+        ...piles.map((pileCards, index) => ({ id: `pile-${index + 1}`, cards: pileCards })),
+        ...(burned.length > 0 ? [{ id: BURN_PILE_ID, cards: burned }] : []),
+      ];
+    }
+
+    const predicted = profile.predictsOpponent
+      ? this.findBestSplit(cards, value, this.createValuer(draft, seat === 'P1' ? 'P2' : 'P1', profile))
+      : null;
+    // Without a prediction, balanced piles keep about half the pack's value whichever is taken
+    const [first, second] = predicted ?? SplitEvaluator.balanceSplit(cards, value);
+
+    return [
+      { id: 'pile-1', cards: first },
+      { id: 'pile-2', cards: second },
+    ];
+  }
+
+  /**
+   * Tries every split and keeps the one that leaves the splitter the most value,
+   * assuming the opponent takes the pile worth more to them
+   * @param cards - Cards in the pack
+   * @param value - Splitter's card valuer
+   * @param opponentValue - Estimated card valuer of the opponent
+   * @returns The two piles' cards, or null if the pack is too big to try every split
+   */
+  private static findBestSplit(
+    cards: CardInstance[],
+    value: CardValuer,
+    opponentValue: CardValuer
+  ): SplitCards | null {
+    return SplitEvaluator.searchSplits(cards, (first, second) => {
+      // On a tie the opponent is assumed to take the pile the splitter wanted more
+      const firstForOpponent = sumValues(first, opponentValue);
+      const secondForOpponent = sumValues(second, opponentValue);
+      return firstForOpponent > secondForOpponent ? sumValues(second, value)
+        : secondForOpponent > firstForOpponent ? sumValues(first, value)
+        : Math.min(sumValues(first, value), sumValues(second, value));
+    });
+  }
+}
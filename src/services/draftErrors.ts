@@ -0,0 +1,171 @@
+import { DraftCommand, DraftPhase } from '@/types/draft';
+
+/**
+ * Error types raised by the draft engine.
+ * Each error carries a machine-readable code so callers (UI, history replay,
+ * networking) can react to the specific rule that was broken.
+ */
+
+/**
+ * Codes identifying why a draft command was rejected
+ */
+export type DraftErrorCode =
+  | 'unknown-command'
+  | 'draft-complete'
+  | 'invalid-phase'
+  | 'no-active-pack'
+  | 'pack-already-dealt'
+  | 'invalid-split'
+  | 'invalid-pile'
+  | 'invalid-pass'
+  | 'invalid-line'
+  | 'nothing-to-undo';
+
+/**
+ * Base class for all errors raised by the draft engine
+ */
+export class DraftError extends Error {
+  /** Machine-readable reason for the error */
+  readonly code: DraftErrorCode;
+
+  constructor(code: DraftErrorCode, message: string) {
+    super(message);
+    this.name = 'DraftError';
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a command's type is not one the engine knows
+ */
+export class UnknownCommandError extends DraftError {
+  /** The command type that was sent */
+  readonly command: string;
+
+  constructor(command: unknown) {
+    super('unknown-command', `Unknown draft command "${String(command)}"`);
+    this.name = 'UnknownCommandError';
+    this.command = String(command);
+  }
+}
+
+/**
+ * Raised when a command is sent after the draft has finished
+ */
+export class DraftCompleteError extends DraftError {
+  constructor(command: DraftCommand['type']) {
+    super('draft-complete', `Cannot ${command}: the draft is already complete`);
+    this.name = 'DraftCompleteError';
+  }
+}
+
+/**
+ * Raised when a command is not allowed in the draft's current phase
+ */
+export class InvalidPhaseError extends DraftError {
+  /** The command that was rejected */
+  readonly command: DraftCommand['type'];
+  /** The phase the draft was in when the command was rejected */
+  readonly phase: DraftPhase;
+
+  constructor(command: DraftCommand['type'], phase: DraftPhase) {
+    super('invalid-phase', `Cannot ${command} during ${phase}`);
+    this.name = 'InvalidPhaseError';
+    this.command = command;
+    this.phase = phase;
+  }
+}
+
+/**
+ * Raised when a command needs an active pack but none has been dealt
+ */
+export class NoActivePackError extends DraftError {
+  constructor(command: DraftCommand['type']) {
+    super('no-active-pack', `Cannot ${command}: no pack has been dealt`);
+    this.name = 'NoActivePackError';
+  }
+}
+
+/**
+ * Raised when a pack is dealt while another pack is still being drafted
+ */
+export class PackAlreadyDealtError extends DraftError {
+  constructor() {
+    super('pack-already-dealt', 'Cannot start-round: the current pack has not been drafted yet');
+    this.name = 'PackAlreadyDealtError';
+  }
+}
+
+/**
+ * Split rules a set of piles can break
+ */
+export type SplitRuleName =
+  | 'already-split'
+  | 'pile-count'
+  | 'unique-ids'
+  | 'all-cards'
+  | 'min-pile-size'
+  | 'max-pile-size'
+  | 'burn-pile';
+
+/**
+ * Raised when the piles submitted for a split break the split rules
+ */
+export class InvalidSplitError extends DraftError {
+  /** The rule the split broke */
+  readonly rule: SplitRuleName;
+
+  constructor(rule: SplitRuleName, message: string) {
+    super('invalid-split', message);
+    this.name = 'InvalidSplitError';
+    this.rule = rule;
+  }
+}
+
+/**
+ * Raised when the chosen pile does not exist on the active pack
+ */
+export class InvalidPileError extends DraftError {
+  /** The pile ID that was requested */
+  readonly pileId: string;
+
+  constructor(pileId: string) {
+    super('invalid-pile', `No pile with ID "${pileId}" on the active pack`);
+    this.name = 'InvalidPileError';
+    this.pileId = pileId;
+  }
+}
+
+/**
+ * Raised when a Winston pile is passed but the pool has no card to take instead
+ */
+export class InvalidPassError extends DraftError {
+  constructor() {
+    super('invalid-pass', 'Cannot pass-pile: this is the last pile and the pool has no card left to take instead');
+    this.name = 'InvalidPassError';
+  }
+}
+
+/**
+ * Raised when a grid row or column is picked that has no cards left in the active grid
+ */
+export class InvalidLineError extends DraftError {
+  /** The row or column that was requested */
+  readonly line: string;
+
+  constructor(line: string) {
+    super('invalid-line', `Cannot pick-line: "${line}" is not a row or column with cards left in the active grid`);
+    this.name = 'InvalidLineError';
+    this.line = line;
+  }
+}
+
+/**
+ * Raised when undo is requested but there is no player action to undo
+ */
+export class NothingToUndoError extends DraftError {
+  constructor() {
+    super('nothing-to-undo', 'Nothing to undo');
+    this.name = 'NothingToUndoError';
+  }
+}
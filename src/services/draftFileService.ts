@@ -0,0 +1,475 @@
+import { DraftState, DraftAction, DraftFormat, DraftPhase, SplitRules } from '@/types/draft';
+import { CardInPool, CardInstance, Pack, PlayerPicks } from '@/types/card';
+import { DraftService } from './draftService';
+import { reviveDraftState } from '@/utils/draftSerialization';
+import { numberCopies } from '@/utils/cardInstances';
+import { validateSplitRules } from '@/utils/splitRules';
+
+/**
+ * Identifies a JSON file as a Solomon Draft draft file
+ */
+const DRAFT_FILE_FORMAT = 'solomon-draft';
+
+/**
+ * Current draft file schema version.
+ * Bump this and add an entry to DRAFT_FILE_MIGRATIONS whenever DraftState changes shape.
+ */
+export const DRAFT_FILE_SCHEMA_VERSION = 2;
+
+/**
+ * Contents of an exported draft file
+ */
+export interface DraftFile {
+  /** Always "solomon-draft" */
+  format: typeof DRAFT_FILE_FORMAT;
+  /** Schema version the file was written with */
+  schemaVersion: number;
+  /** When the file was exported (ISO string) */
+  exportedAt: string;
+  /** Display name of the draft, if it had one */
+  name?: string;
+  /** The complete draft state: settings, pools, picks, active pack and history */
+  draft: DraftState;
+}
+
+/**
+ * A draft file read back into the app
+ */
+export interface ImportedDraft {
+  /** Display name stored in the file, if any */
+  name?: string;
+  /** The restored draft state */
+  draft: DraftState;
+}
+
+/**
+ * Upgrades a draft file from one schema version to the next.
+ * Migrations receive the parsed JSON and return the file for version + 1.
+ */
+type DraftFileMigration = (file: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the schema version they upgrade from
+ */
+const DRAFT_FILE_MIGRATIONS: Record<number, DraftFileMigration> = {
+  // Version 2 numbers the copies of each card, so files from before card instances get distinct instance IDs
+  1: file => {
+    const { draft } = file;
+    if (!isRecord(draft) || !isCardList(draft.initialPool) || !Array.isArray(draft.history)) return file;
+    try {
+      return { ...file, draft: DraftFileService.upgradeLegacyDraft(draft as unknown as DraftState) };
+    } catch (error) {
+      throw new Error(`Draft file cannot be upgraded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
+
+const DRAFT_FORMATS: DraftFormat[] = ['solomon', 'winston', 'grid'];
+const DRAFT_PHASES: DraftPhase[] = [
+  'P1-split',
+  'P1-choose',
+  'P2-split',
+  'P2-choose',
+  'P1-look',
+  'P2-look',
+  'P1-pick',
+  'P2-pick',
+];
+const ACTION_TYPES: DraftAction['actionType'][] = [
+  'pack-dealt',
+  'pack-split',
+  'pile-chosen',
+  'pile-taken',
+  'pile-passed',
+  'line-picked',
+];
+
+/**
+ * Service for exporting a draft to a JSON file and importing it again.
+ * Unlike a seed, a draft file keeps every pick so a draft can move between machines mid-way.
+ */
+export class DraftFileService {
+  /**
+   * Serializes a draft to the JSON draft file format
+   * @param draft - Draft to export
+   * @param name - Optional display name to store with the draft
+   * @returns JSON file contents
+   */
+  static exportDraft(draft: DraftState, name?: string): string {
+    const file: DraftFile = {
+      format: DRAFT_FILE_FORMAT,
+      schemaVersion: DRAFT_FILE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      name,
+      draft,
+    };
+
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Gets a file name for an exported draft
+   * @param draft - Draft being exported
+   * @returns File name including the round the draft is in
+   */
+  static getFileName(draft: DraftState): string {
+    const progress = draft.isComplete ? 'complete' : `round-${draft.currentRound}`;
+    return `solomon-draft-${progress}.json`;
+  }
+
+  /**
+   * Reads a draft file, migrating and validating it
+   * @param text - JSON file contents
+   * @returns The draft and its name, ready to resume at the saved phase
+   * @throws Error if the file is not a valid draft file
+   */
+  static importDraft(text: string): ImportedDraft {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Draft file is not valid JSON');
+    }
+
+    if (!isRecord(parsed) || parsed.format !== DRAFT_FILE_FORMAT) {
+      throw new Error('File is not a Solomon Draft draft file');
+    }
+
+    const file = this.migrate(parsed);
+
+    return {
+      name: typeof file.name === 'string' && file.name.trim() ? file.name : undefined,
+      draft: this.validateDraftState(file.draft),
+    };
+  }
+
+  /**
+   * Validates a draft state received from outside the app (a file or the network):
+   * checks its shape, revives its dates and replays its history to confirm it is consistent.
+   * The state returned is the replayed one, so every card in it comes from the initial pool.
+   * @param value - Parsed draft state
+   * @returns The replayed draft state, with the decks of the draft passed in
+   * @throws Error if the draft is malformed or its history does not reproduce it
+   */
+  static validateDraftState(value: unknown): DraftState {
+    const draft = reviveDraftState(this.validateDraft(value));
+    const replayed = this.verifyHistory(draft);
+    return draft.decks ? { ...replayed, decks: draft.decks } : replayed;
+  }
+
+  /**
+   * Gives card instance IDs to a draft saved before cards had them (files before schema
+   * version 2 and drafts those versions of the app autosaved). The entries of each card in
+   * the initial pool are numbered in dealing order, the cards of each split in the history are
+   * matched to the numbered copies in its pack, and the rest of the draft is rebuilt by replaying it.
+   * Such drafts are all Solomon drafts dealt straight from the pool, so pack N is the Nth slice of it.
+   * @param draft - Stored draft, before it is revived
+   * @returns The draft with an instance ID on every card, or the draft itself if its cards already have them
+   * @throws Error if a split holds a card its pack does not, or the history cannot be replayed
+   */
+  static upgradeLegacyDraft(draft: DraftState): DraftState {
+    const storedPool: Array<CardInPool & { instanceId?: unknown }> = draft.initialPool;
+    if (storedPool.every(entry => typeof entry.instanceId === 'string')) return draft;
+
+    const initialPool = numberCopies(draft.initialPool);
+    const { packSize } = draft.settings;
+    let packIndex = 0;
+
+    const history = draft.history.map(action => {
+      if (action.actionType !== 'pack-split' || !action.data.piles) return action;
+
+      const unused = initialPool.slice(packIndex * packSize, (packIndex + 1) * packSize);
+      packIndex++;
+      const piles = action.data.piles.map(pile => ({
+        ...pile,
+        cards: pile.cards.map(entry => {
+          const index = unused.findIndex(instance => instance.card.id === entry.card.id);
+          if (index === -1) {
+            throw new Error(`Split ${packIndex} holds ${entry.card.name}, which is not in its pack`);
+          }
+          return unused.splice(index, 1)[0];
+        }),
+      }));
+
+      return { ...action, data: { ...action.data, piles } };
+    });
+
+    const replayed = DraftService.replayHistory({ ...draft, initialPool }, history);
+    return draft.decks ? { ...replayed, decks: draft.decks } : replayed;
+  }
+
+  /**
+   * Upgrades a parsed draft file to the current schema version
+   * @param file - Parsed draft file
+   * @returns Draft file at the current schema version
+   * @throws Error if the file is from a newer version or no migration exists
+   */
+  private static migrate(file: Record<string, unknown>): Record<string, unknown> {
+    const version = file.schemaVersion;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new Error('Draft file has no valid schema version');
+    }
+    if (version > DRAFT_FILE_SCHEMA_VERSION) {
+      throw new Error(
+        `Draft file uses schema version ${version}, but this app only supports up to ${DRAFT_FILE_SCHEMA_VERSION}. Please update the app.`
+      );
+    }
+
+    let migrated = file;
+    for (let current = version; current < DRAFT_FILE_SCHEMA_VERSION; current++) {
+      const migration = DRAFT_FILE_MIGRATIONS[current];
+      if (!migration) {
+        throw new Error(`No migration from draft file schema version ${current}`);
+      }
+      migrated = { ...migration(migrated), schemaVersion: current + 1 };
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Checks that a value has the shape of a DraftState
+   * @param value - Draft from the file
+   * @returns The value typed as a DraftState
+   * @throws Error naming the first field that is missing or invalid
+   */
+  private static validateDraft(value: unknown): DraftState {
+    if (!isRecord(value)) {
+      throw new Error('Draft file does not contain a draft');
+    }
+
+    const { settings } = value;
+    if (
+      !isRecord(settings) ||
+      !isPositiveInteger(settings.packSize) ||
+      !isPositiveInteger(settings.numberOfRounds) ||
+      !isPositiveInteger(settings.poolSize) ||
+      (settings.firstSplitter !== 'P1' && settings.firstSplitter !== 'P2') ||
+      (settings.format !== undefined && !DRAFT_FORMATS.includes(settings.format as DraftFormat)) ||
+      (settings.splitRules !== undefined && !isSplitRules(settings.splitRules, settings.packSize)) ||
+      typeof settings.seed !== 'string'
+    ) {
+      throw new Error('Draft file has invalid settings');
+    }
+
+    if (!isCardList(value.cardsInPool)) throw new Error('Draft file has an invalid remaining pool');
+    if (!isCardList(value.initialPool)) throw new Error('Draft file has an invalid starting pool');
+    if (!isPositiveInteger(value.currentRound)) throw new Error('Draft file has an invalid round');
+    if (value.currentPack !== 1 && value.currentPack !== 2) throw new Error('Draft file has an invalid pack number');
+    if (!DRAFT_PHASES.includes(value.currentPhase as DraftPhase)) throw new Error('Draft file has an invalid phase');
+    if (typeof value.isComplete !== 'boolean') throw new Error('Draft file has an invalid completion flag');
+    if (value.activePack !== null && !isPack(value.activePack)) throw new Error('Draft file has an invalid active pack');
+    if (value.currentPile !== undefined && !(Number.isInteger(value.currentPile) && (value.currentPile as number) >= 0)) {
+      throw new Error('Draft file has an invalid Winston pile');
+    }
+    if (
+      value.takenSlots !== undefined &&
+      !(Array.isArray(value.takenSlots) && value.takenSlots.every(slot => Number.isInteger(slot) && slot >= 0))
+    ) {
+      throw new Error('Draft file has invalid grid picks');
+    }
+    if (!isPlayerPicks(value.p1Picks)) throw new Error("Draft file has invalid picks for Player 1");
+    if (!isPlayerPicks(value.p2Picks)) throw new Error("Draft file has invalid picks for Player 2");
+
+    if (!Array.isArray(value.history) || !value.history.every(isDraftAction)) {
+      throw new Error('Draft file has an invalid history');
+    }
+    if (value.decks !== undefined && !(isRecord(value.decks) && Object.values(value.decks).every(isDeckBuild))) {
+      throw new Error('Draft file has invalid decks');
+    }
+
+    return value as unknown as DraftState;
+  }
+
+  /**
+   * Replays the file's history from its starting pool and checks it arrives at the saved state.
+   * The pool, both players' picks, the active pack and its piles must hold the same card instances
+   * in the same order. This catches files that were edited by hand or are internally inconsistent.
+   * @param draft - Validated draft from the file
+   * @returns The replayed draft state
+   * @throws Error if the history does not reproduce the saved state
+   */
+  private static verifyHistory(draft: DraftState): DraftState {
+    let replayed: DraftState;
+    try {
+      replayed = DraftService.replayHistory(draft, draft.history);
+    } catch (error) {
+      throw new Error(
+        `Draft file history cannot be replayed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const matches =
+      replayed.history.length === draft.history.length &&
+      replayed.history.every((entry, index) => entry.actionType === draft.history[index].actionType) &&
+      replayed.currentRound === draft.currentRound &&
+      replayed.currentPack === draft.currentPack &&
+      replayed.currentPhase === draft.currentPhase &&
+      replayed.currentPile === draft.currentPile &&
+      (replayed.takenSlots ?? []).join(',') === (draft.takenSlots ?? []).join(',') &&
+      replayed.isComplete === draft.isComplete &&
+      getInstanceKey(replayed.cardsInPool) === getInstanceKey(draft.cardsInPool) &&
+      picksMatch(replayed.p1Picks, draft.p1Picks) &&
+      picksMatch(replayed.p2Picks, draft.p2Picks) &&
+      (replayed.activePack?.id ?? null) === (draft.activePack?.id ?? null) &&
+      getInstanceKey(replayed.activePack?.cards) === getInstanceKey(draft.activePack?.cards) &&
+      getPilesKey(replayed.activePack) === getPilesKey(draft.activePack);
+
+    if (!matches) {
+      throw new Error('Draft file history does not match the saved draft state');
+    }
+
+    return replayed;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a positive integer
+ * @param value - Value to check
+ * @returns True for integers greater than zero
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Checks whether a value is a set of split rules that can be used with a pack size
+ * @param value - Value to check
+ * @param packSize - Cards per pack
+ * @returns True if every rule has the right type and the rules fit the pack size
+ */
+function isSplitRules(value: unknown, packSize: number): value is SplitRules {
+  if (
+    !isRecord(value) ||
+    (value.pileCount !== undefined && typeof value.pileCount !== 'number') ||
+    (value.minPileSize !== undefined && typeof value.minPileSize !== 'number') ||
+    (value.maxPileSize !== undefined && typeof value.maxPileSize !== 'number') ||
+    (value.burnPile !== undefined && typeof value.burnPile !== 'boolean')
+  ) {
+    return false;
+  }
+
+  try {
+    validateSplitRules(value, packSize);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value is a list of cards with quantities
+ * @param value - Value to check
+ * @returns True if every entry has a card with an ID and name, a positive quantity
+ *   and, if it has one, a string instance ID (files saved before instances have none)
+ */
+function isCardList(value: unknown): value is CardInPool[] {
+  return (
+    Array.isArray(value) &&
+    value.every(entry =>
+      isRecord(entry) &&
+      isPositiveInteger(entry.quantity) &&
+      (entry.instanceId === undefined || typeof entry.instanceId === 'string') &&
+      isRecord(entry.card) &&
+      typeof entry.card.id === 'string' &&
+      typeof entry.card.name === 'string'
+    )
+  );
+}
+
+/**
+ * Checks whether a value is a pack, including any piles it was split into
+ * @param value - Value to check
+ * @returns True if the value has the shape of a Pack
+ */
+function isPack(value: unknown): value is Pack {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    isCardList(value.cards) &&
+    (value.piles === undefined ||
+      (Array.isArray(value.piles) &&
+        value.piles.every(pile => isRecord(pile) && typeof pile.id === 'string' && isCardList(pile.cards))))
+  );
+}
+
+/**
+ * Checks whether a value is a set of player picks grouped by color
+ * @param value - Value to check
+ * @returns True if every group is a card list
+ */
+function isPlayerPicks(value: unknown): boolean {
+  return isRecord(value) && Object.values(value).every(isCardList);
+}
+
+/**
+ * Checks whether a value is a history entry
+ * @param value - Value to check
+ * @returns True if the value has the shape of a DraftAction
+ */
+function isDraftAction(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    isPositiveInteger(value.round) &&
+    DRAFT_PHASES.includes(value.phase as DraftPhase) &&
+    ACTION_TYPES.includes(value.actionType as DraftAction['actionType']) &&
+    isRecord(value.data)
+  );
+}
+
+/**
+ * Checks whether a value is a deck built after the draft
+ * @param value - Value to check
+ * @returns True if the value has the shape of a DeckBuild
+ */
+function isDeckBuild(value: unknown): boolean {
+  const isCountMap = (counts: unknown): boolean =>
+    isRecord(counts) && Object.values(counts).every(count => isPositiveInteger(count));
+
+  return (
+    isRecord(value) &&
+    Array.isArray(value.commanderIds) &&
+    value.commanderIds.every(id => typeof id === 'string') &&
+    isCountMap(value.mainDeck) &&
+    isCountMap(value.basicLands)
+  );
+}
+
+/**
+ * Lists the instance IDs of some cards, in order, for comparison
+ * @param cards - Cards to list (none if not set)
+ * @returns Instance IDs joined into one string
+ */
+function getInstanceKey(cards: CardInstance[] | undefined): string {
+  return (cards ?? []).map(card => card.instanceId).join(',');
+}
+
+/**
+ * Lists the piles of a pack with the instance IDs of their cards, for comparison
+ * @param pack - Pack whose piles to list (none if not set)
+ * @returns Pile IDs and card instance IDs joined into one string
+ */
+function getPilesKey(pack: Pack | null): string {
+  return (pack?.piles ?? []).map(pile => `${pile.id}:${getInstanceKey(pile.cards)}`).join('|');
+}
+
+/**
+ * Checks whether two sets of picks hold the same card instances under every color, in order
+ * @param a - Picks to compare
+ * @param b - Picks to compare them with
+ * @returns True if every color holds the same instances in both
+ */
+function picksMatch(a: PlayerPicks, b: PlayerPicks): boolean {
+  const colors = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...colors].every(color => getInstanceKey(a[color]) === getInstanceKey(b[color]));
+}
@@ -1,99 +1,256 @@
-import { DraftState, DraftSettings, DeckListInput, DraftAction } from '@/types/draft';
-import { CardInPool, Pile, Pack, ColorIdentity } from '@/types/card';
-import { hashCardOrder, dehashCardOrder } from '@/utils/seedUtils';
+import {
+  DraftState,
+  DraftSettings,
+  DraftOptions,
+  DeckListInput,
+  DraftAction,
+  DraftCommand,
+  DraftPhase,
+  PlayerId,
+  FairStart,
+  GridLine,
+} from '@/types/draft';
+import { CardInPool, CardInstance, Pile, Pack, PlayerPicks } from '@/types/card';
+import {
+  DraftCompleteError,
+  InvalidPhaseError,
+  NoActivePackError,
+  PackAlreadyDealtError,
+  InvalidSplitError,
+  InvalidPileError,
+  InvalidPassError,
+  InvalidLineError,
+  NothingToUndoError,
+  UnknownCommandError,
+} from './draftErrors';
+import { hashCardOrder, dehashCardOrder, createShortSeed, parseShortSeed, CardData } from '@/utils/seedUtils';
+import { BURN_PILE_ID, DEFAULT_DRAFT_OPTIONS, GRID_SIZE } from '@/constants/draftDefaults';
+import { hasSplitRules, resolveSplitRules, validateSplitRules } from '@/utils/splitRules';
+import { getColorColumn } from '@/constants/colors';
+import { generateRandomSeed, shuffleWithSeed } from '@/utils/random';
+import { deriveFairSeed } from '@/utils/fairPlay';
+import { expandCopies } from '@/utils/cardInstances';
+import { PackCollator } from './packCollator';
 import { scryfallService } from './scryfall';
+import { DeckListParser } from './deckParsers';
+
+/**
+ * Number of face-down piles in a Winston draft
+ */
+const WINSTON_PILE_COUNT = 3;
 
 /**
  * Service for managing draft game logic and state transitions
- * Handles pack creation, pile splitting, and player actions
+ * Handles pack creation, pile splitting, and player actions, for Solomon,
+ * Winston and grid drafts
+ *
+ * The engine is a pure reducer: performDraftAction never mutates the draft it
+ * is given, so unchanged parts of the state are shared between versions.
  */
 export class DraftService {
   /**
-   * Creates a new draft with the given settings and deck list
+   * Creates a new draft with the given settings and deck list.
+   * The deck list is expanded into one instance per copy, then shuffled with a
+   * seeded PRNG so the draft can be reproduced from the pool source and the random seed alone.
+   * Collation rules, if set, then build the packs from the shuffle.
    * @param deckList - The parsed deck list to use for the draft
-   * @param packSize - Number of cards per pack
-   * @param numberOfRounds - Number of rounds to draft
+   * @param draftOptions - Settings chosen for the draft (format, pack size, rounds, first splitter)
+   * @param randomSeed - Seed for the shuffle (a new one is generated if omitted)
    * @returns New draft state ready to begin
    */
-  static createDraft(deckList: DeckListInput, packSize: number, numberOfRounds: number): DraftState {
-    const poolSize = 2 * packSize * numberOfRounds;
+  static createDraft(
+    deckList: DeckListInput,
+    draftOptions: DraftOptions,
+    randomSeed: string = generateRandomSeed()
+  ): DraftState {
+    const options = this.applyFormatRules(draftOptions);
+    const poolSize = this.getPoolSize(options);
+    const instances = expandCopies(deckList.cards);
     
-    if (deckList.cards.length < poolSize) {
-      throw new Error(`Not enough cards in deck list. Need at least ${poolSize}, got ${deckList.cards.length}`);
+    if (instances.length < poolSize) {
+      throw new Error(`Not enough cards in deck list. Need at least ${poolSize}, got ${instances.length}`);
     }
 
-    // Create a copy of the deck list and shuffle it to create the pool
-    const shuffledCards = this.shuffleArray([...deckList.cards]);
-    const cardsInPool = shuffledCards.slice(0, poolSize);
+    // Sort into a canonical order first so the shuffle does not depend on
+    // the order the source returned the cards in
+    const orderedCards = instances.sort((a, b) =>
+      a.card.name.localeCompare(b.card.name) || a.card.id.localeCompare(b.card.id)
+    );
+    const shuffledCards = shuffleWithSeed(orderedCards, randomSeed);
+    // Number the copies in dealing order, as loading a long-form seed of this order does
+    const cardsInPool = expandCopies(
+      PackCollator.collate(shuffledCards, options.packSize, 2 * options.numberOfRounds, options.collation)
+    );
     
-    // Generate a seed from the card order
-    const seed = hashCardOrder(cardsInPool);
+    // Use a short seed when the pool can be reloaded from its source,
+    // otherwise fall back to a long-form seed of the full card order
+    const source = DeckListParser.getPoolSource(deckList.url);
+    const seed = source
+      ? createShortSeed(source, randomSeed, options)
+      : hashCardOrder(cardsInPool, options);
 
     const settings: DraftSettings = {
-      packSize,
-      numberOfRounds,
+      ...options,
       poolSize,
       seed,
     };
 
-    return {
-      settings,
-      cardsInPool,
-      currentRound: 1,
-      currentPack: 1,
-      currentPhase: 'P1-split',
-      activePack: null,
-      p1Picks: this.initializePlayerPicks(),
-      p2Picks: this.initializePlayerPicks(),
-      isComplete: false,
-      history: [],
-    };
+    return this.createInitialState(settings, cardsInPool);
+  }
+
+  /**
+   * Creates a new draft whose shuffle seed comes from a fair start, so both
+   * players contributed to the pack order. The fair start is kept in the settings
+   * so either player can verify it later.
+   * @param deckList - The parsed deck list (must come from Moxfield or CubeCobra)
+   * @param options - Settings chosen for the draft
+   * @param fairStart - Commitment and entropy exchanged by both players
+   * @returns Promise resolving to new draft state ready to begin
+   */
+  static async createFairDraft(
+    deckList: DeckListInput,
+    options: DraftOptions,
+    fairStart: FairStart
+  ): Promise<DraftState> {
+    if (!DeckListParser.getPoolSource(deckList.url)) {
+      throw new Error('A fair start needs a Moxfield or CubeCobra list so both players can load the same pool');
+    }
+
+    const draft = this.createDraft(deckList, options, await deriveFairSeed(fairStart));
+    return { ...draft, settings: { ...draft.settings, fairStart } };
   }
 
   /**
    * Creates a new draft from a seed
-   * @param seed - The seed string to reconstruct the draft from
-   * @param packSize - Number of cards per pack
-   * @param numberOfRounds - Number of rounds to draft
+   * @param seed - The seed string to reconstruct the draft from (short or long-form)
+   * @param options - Settings to use; defaults to the settings recorded in the seed
    * @returns Promise resolving to new draft state ready to begin
    */
-  static async createSeededDraft(seed: string, packSize: number, numberOfRounds: number): Promise<DraftState> {
+  static async createSeededDraft(seed: string, options?: DraftOptions): Promise<DraftState> {
     try {
-      // 1. Dehash seed to get card data (card names and quantities)
-      const cardData = dehashCardOrder(seed);
-      
-      // 2. Convert card data to deck list format for Scryfall
-      const deckList = cardData
-        .map(card => `${card.quantity} ${card.name}`)
-        .join('\n');
-      
-      console.log('Reconstructed deck list from seed:', deckList.substring(0, 200) + '...');
-      
-      // 3. Fetch full card data from Scryfall using the deck list
-      const cardOrder = await scryfallService.convertDeckListToCards(deckList);
-      
-      if (cardOrder.length === 0) {
-        throw new Error('No valid cards found in seed');
-      }
-      
-      console.log('Successfully loaded', cardOrder.length, 'cards from seed');
-      
-      // 4. Create draft with reconstructed cards
-      return this.createDraftWithCards(cardOrder, packSize, numberOfRounds);
+      const deckList = await this.loadSeedDeckList(seed);
+      const draftOptions = options ?? { ...DEFAULT_DRAFT_OPTIONS, ...deckList.settings };
+      return this.createDraftFromSeedList(deckList, draftOptions);
     } catch (error) {
       throw new Error(`Failed to create seeded draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Loads the card pool described by a seed.
+   * Short seeds reload the deck list from its source; long-form seeds are
+   * decoded into the exact card order and fetched from Scryfall.
+   * @param seed - The seed string to load
+   * @returns Promise resolving to a seed deck list carrying the seed and its settings
+   */
+  static async loadSeedDeckList(seed: string): Promise<DeckListInput> {
+    const shortSeed = parseShortSeed(seed);
+    if (shortSeed) {
+      const deckList = await DeckListParser.parseDeckListUrl(DeckListParser.getPoolSourceUrl(shortSeed.source));
+      return {
+        ...deckList,
+        type: 'seed',
+        seed: seed.trim(),
+        settings: shortSeed.settings && { ...DEFAULT_DRAFT_OPTIONS, ...shortSeed.settings },
+      };
+    }
+
+    // 1. Decode seed to get card data (printings or names, and quantities)
+    const decodedSeed = dehashCardOrder(seed);
+    
+    // 2. Fetch full card data from Scryfall in seed order
+    const cardOrder = decodedSeed.version === 1
+      ? await this.fetchCardsByName(decodedSeed.cards)
+      : await this.fetchCardsByPrinting(decodedSeed.cards);
+    
+    if (cardOrder.length === 0) {
+      throw new Error('No valid cards found in seed');
+    }
+    
+    console.log('Successfully loaded', cardOrder.length, 'cards from seed');
+
+    return {
+      url: `seed:${seed.substring(0, 20)}...`, // Truncated for display
+      type: 'seed',
+      cards: cardOrder,
+      seed: seed.trim(),
+      settings: decodedSeed.settings && { ...DEFAULT_DRAFT_OPTIONS, ...decodedSeed.settings },
+    };
+  }
+
+  /**
+   * Creates a draft from a deck list returned by loadSeedDeckList
+   * @param deckList - Seed deck list (must carry its seed)
+   * @param options - Settings chosen for the draft
+   * @returns New draft state ready to begin
+   */
+  static createDraftFromSeedList(deckList: DeckListInput, options: DraftOptions): DraftState {
+    if (!deckList.seed) {
+      throw new Error('Deck list was not loaded from a seed');
+    }
+
+    const shortSeed = parseShortSeed(deckList.seed);
+    if (shortSeed) {
+      // Replay the same seeded shuffle over the reloaded list
+      return this.createDraft(deckList, options, shortSeed.randomSeed);
+    }
+
+    // Long-form seeds already carry the exact card order
+    return this.createDraftWithCards(expandCopies(deckList.cards), options);
+  }
+
+  /**
+   * Fetches cards for a v1 seed by name, preserving seed order
+   * @param cardData - Card names and quantities from the seed
+   * @returns Promise resolving to the cards in seed order
+   */
+  private static async fetchCardsByName(cardData: CardData[]): Promise<CardInPool[]> {
+    // Convert card data to deck list format for Scryfall
+    const deckList = cardData
+      .map(card => `${card.quantity} ${card.name}`)
+      .join('\n');
+    
+    console.log('Reconstructed deck list from seed:', deckList.substring(0, 200) + '...');
+    
+    return scryfallService.convertDeckListToCards(deckList);
+  }
+
+  /**
+   * Fetches cards for a v2 seed by set and collector number, preserving seed order
+   * @param cardData - Printings and quantities from the seed
+   * @returns Promise resolving to the cards in seed order
+   */
+  private static async fetchCardsByPrinting(cardData: CardData[]): Promise<CardInPool[]> {
+    const printingKey = (set: string, collectorNumber: string): string =>
+      `${set.toLowerCase()}/${collectorNumber}`;
+
+    const cards = await scryfallService.fetchCardsByPrintings(
+      cardData.map(entry => ({ set: entry.set ?? '', collectorNumber: entry.collectorNumber ?? '' }))
+    );
+    const cardMap = new Map(cards.map(card => [printingKey(card.set, card.collector_number), card]));
+
+    return cardData
+      .map(entry => {
+        const card = cardMap.get(printingKey(entry.set ?? '', entry.collectorNumber ?? ''));
+        if (!card) {
+          console.warn(`Printing not found in Scryfall: ${entry.set}/${entry.collectorNumber}`);
+          return null;
+        }
+        return { card, quantity: entry.quantity };
+      })
+      .filter((entry): entry is CardInPool => entry !== null);
+  }
+
   /**
    * Creates a draft with a specific card order (internal helper)
-   * @param cardsInPool - The exact cards to use in the draft pool
-   * @param packSize - Number of cards per pack
-   * @param numberOfRounds - Number of rounds to draft
+   * @param cardsInPool - The exact card instances to use in the draft pool
+   * @param draftOptions - Settings chosen for the draft
    * @returns New draft state ready to begin
    */
-  private static createDraftWithCards(cardsInPool: CardInPool[], packSize: number, numberOfRounds: number): DraftState {
-    const poolSize = 2 * packSize * numberOfRounds;
+  private static createDraftWithCards(cardsInPool: CardInstance[], draftOptions: DraftOptions): DraftState {
+    // The card order is already the packs as dealt, so collation rules do not apply
+    const { collation: _collation, ...options } = this.applyFormatRules(draftOptions);
+    const poolSize = this.getPoolSize(options);
     
     if (cardsInPool.length < poolSize) {
       throw new Error(`Not enough cards in seed. Need at least ${poolSize}, got ${cardsInPool.length}`);
@@ -103,21 +260,62 @@ export class DraftService {
     const draftCards = cardsInPool.slice(0, poolSize);
     
     // Generate a seed from the card order
-    const seed = hashCardOrder(draftCards);
+    const seed = hashCardOrder(draftCards, options);
 
     const settings: DraftSettings = {
-      packSize,
-      numberOfRounds,
+      ...options,
       poolSize,
       seed,
     };
 
+    return this.createInitialState(settings, draftCards);
+  }
+
+  /**
+   * Calculates how many cards a draft with the given settings needs
+   * @param options - Draft settings
+   * @returns Number of cards in the pool
+   */
+  static getPoolSize(options: Pick<DraftOptions, 'packSize' | 'numberOfRounds'>): number {
+    return 2 * options.packSize * options.numberOfRounds;
+  }
+
+  /**
+   * Applies the settings a format fixes: a grid is always one card per grid
+   * position, and split rules only apply to Solomon
+   * @param options - Settings chosen for the draft
+   * @returns Settings to create the draft with
+   * @throws Error if the split rules cannot be used with the pack size
+   */
+  private static applyFormatRules(options: DraftOptions): DraftOptions {
+    const { splitRules, ...otherOptions } = options;
+    if (options.format === 'grid') {
+      return { ...otherOptions, packSize: GRID_SIZE * GRID_SIZE };
+    }
+    if (options.format === 'winston' || !hasSplitRules(splitRules)) {
+      return otherOptions;
+    }
+
+    validateSplitRules(splitRules, options.packSize);
+    return options;
+  }
+
+  /**
+   * Builds the state of a draft that has not had any actions applied yet
+   * @param settings - Settings for the draft
+   * @param cardsInPool - The pool in dealing order
+   * @returns Fresh draft state
+   */
+  private static createInitialState(settings: DraftSettings, cardsInPool: CardInstance[]): DraftState {
+    const openingMove = settings.format === 'winston' ? 'look' : settings.format === 'grid' ? 'pick' : 'split';
+
     return {
       settings,
-      cardsInPool: draftCards,
+      cardsInPool: [...cardsInPool],
+      initialPool: [...cardsInPool],
       currentRound: 1,
       currentPack: 1,
-      currentPhase: 'P1-split',
+      currentPhase: `${settings.firstSplitter}-${openingMove}`,
       activePack: null,
       p1Picks: this.initializePlayerPicks(),
       p2Picks: this.initializePlayerPicks(),
@@ -127,25 +325,255 @@ export class DraftService {
   }
 
   /**
-   * Performs a draft action and returns the updated draft state
+   * Applies a command to the draft and returns the next draft state.
+   * The input state is never mutated.
    * @param draft - Current draft state
-   * @param action - Action to perform
-   * @param data - Additional data for the action
+   * @param command - Command to apply
    * @returns Updated draft state
+   * @throws DraftError if the command is not valid for the current phase
    */
-  static performDraftAction(draft: DraftState, action: string, data?: unknown): DraftState {
-    switch (action) {
+  static performDraftAction(draft: DraftState, command: DraftCommand): DraftState {
+    if (draft.isComplete) {
+      throw new DraftCompleteError(command.type);
+    }
+
+    switch (command.type) {
       case 'start-round':
-        return this.startRound(draft);
+        if (
+          !this.isSplitPhase(draft.currentPhase) &&
+          !this.isLookPhase(draft.currentPhase) &&
+          !this.isPickPhase(draft.currentPhase)
+        ) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        if (draft.activePack) {
+          throw new PackAlreadyDealtError();
+        }
+        return this.isLookPhase(draft.currentPhase) ? this.dealWinstonPiles(draft) : this.startRound(draft);
       case 'split-pack':
-        return this.splitPack(draft, data as { piles: Pile[] });
+        if (!this.isSplitPhase(draft.currentPhase)) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        return this.splitPack(draft, command.piles);
       case 'choose-pile':
-        return this.choosePile(draft, data as { pileId: string });
+        if (
+          this.isSplitPhase(draft.currentPhase) ||
+          this.isLookPhase(draft.currentPhase) ||
+          this.isPickPhase(draft.currentPhase)
+        ) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        return this.choosePile(draft, command.pileId);
+      case 'take-pile':
+        if (!this.isLookPhase(draft.currentPhase)) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        return this.takePile(draft);
+      case 'pass-pile':
+        if (!this.isLookPhase(draft.currentPhase)) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        return this.passPile(draft);
+      case 'pick-line':
+        if (!this.isPickPhase(draft.currentPhase)) {
+          throw new InvalidPhaseError(command.type, draft.currentPhase);
+        }
+        return this.pickLine(draft, command.line);
       default:
-        throw new Error(`Unknown action: ${action}`);
+        // Commands from the network are only shape-checked, so never fall through to undefined
+        throw new UnknownCommandError((command as { type?: unknown }).type);
     }
   }
 
+  /**
+   * Checks whether the draft has a player action (split or choice) that can be undone
+   * @param draft - Current draft state
+   * @returns True if undo is possible
+   */
+  static canUndo(draft: DraftState): boolean {
+    return draft.history.some(action => this.isPlayerAction(action));
+  }
+
+  /**
+   * Checks whether the active Winston player may pass the pile they are looking at.
+   * Passing the last pile with cards needs a card from the pool for the pile and another to take instead.
+   * @param draft - Current draft state
+   * @returns True if passing is allowed
+   */
+  static canPassPile(draft: DraftState): boolean {
+    const piles = draft.activePack?.piles ?? [];
+    const pileIndex = draft.currentPile ?? 0;
+    const hasLaterPile = piles.some((pile, index) => index > pileIndex && pile.cards.length > 0);
+    return hasLaterPile || draft.cardsInPool.length >= 2;
+  }
+
+  /**
+   * Gets the rows and columns of the active grid that still have cards to pick
+   * @param draft - Current draft state
+   * @returns Each pickable line with the cards left in it, rows first, or none if no grid is dealt
+   */
+  static getGridLines(draft: DraftState): Array<{ line: GridLine; cards: CardInstance[] }> {
+    const grid = draft.activePack?.cards ?? [];
+    const takenSlots = draft.takenSlots ?? [];
+    const lines: GridLine[] = ['row-1', 'row-2', 'row-3', 'col-1', 'col-2', 'col-3'];
+
+    return lines
+      .map(line => ({
+        line,
+        cards: this.getLineSlots(line)
+          .filter(slot => !takenSlots.includes(slot) && slot < grid.length)
+          .map(slot => grid[slot]),
+      }))
+      .filter(entry => entry.cards.length > 0);
+  }
+
+  /**
+   * Gets the cards a player received from the most recent pile choice
+   * @param draft - Current draft state
+   * @param player - Player to look at
+   * @returns The chosen pile for the chooser, the other piles for the splitter, or no cards before the first choice.
+   *          In Winston, the last pile or blind card the player took; in grid, the last row or column.
+   */
+  static getLastPick(draft: DraftState, player: PlayerId): CardInstance[] {
+    if (draft.settings.format === 'winston' || draft.settings.format === 'grid') {
+      const lastTake = [...draft.history].reverse().find(action =>
+        action.data.chooser === player && !!action.data.chosenCards?.length
+      );
+      return lastTake?.data.chosenCards ?? [];
+    }
+
+    const lastChoice = [...draft.history].reverse().find(action => action.actionType === 'pile-chosen');
+    if (!lastChoice) {
+      return [];
+    }
+
+    return (lastChoice.data.chooser === player ? lastChoice.data.chosenCards : lastChoice.data.remainingCards) ?? [];
+  }
+
+  /**
+   * Undoes the most recent player action by replaying the remaining history
+   * from the initial pool. Packs dealt after the undone action are returned
+   * to the pool in their original order.
+   * @param draft - Current draft state
+   * @returns The rebuilt draft state and the history entries that were removed
+   */
+  static undoLastAction(draft: DraftState): { draft: DraftState; undone: DraftAction[] } {
+    let lastIndex = -1;
+    draft.history.forEach((action, index) => {
+      if (this.isPlayerAction(action)) lastIndex = index;
+    });
+
+    if (lastIndex === -1) {
+      throw new NothingToUndoError();
+    }
+
+    return {
+      draft: this.replayHistory(draft, draft.history.slice(0, lastIndex)),
+      undone: draft.history.slice(lastIndex),
+    };
+  }
+
+  /**
+   * Reapplies previously undone history entries on top of the current draft
+   * @param draft - Current draft state
+   * @param actions - History entries returned by undoLastAction
+   * @returns Rebuilt draft state including the redone actions
+   */
+  static redoActions(draft: DraftState, actions: DraftAction[]): DraftState {
+    return this.replayHistory(draft, [...draft.history, ...actions]);
+  }
+
+  /**
+   * Rebuilds a draft state by replaying history entries from the initial pool.
+   * The rebuilt history holds the entries the replay recorded, so its cards come from the
+   * initial pool, but keeps the IDs, timestamps and received chain hashes of the original entries.
+   * @param draft - Draft whose settings and initial pool are used
+   * @param history - History entries to replay, in order
+   * @returns Rebuilt draft state
+   */
+  static replayHistory(draft: DraftState, history: DraftAction[]): DraftState {
+    let replayed = this.createInitialState(draft.settings, draft.initialPool);
+
+    for (const action of history) {
+      replayed = this.applyHistoryEntry(replayed, action);
+    }
+
+    return {
+      ...replayed,
+      history: replayed.history.map((entry, index) => {
+        const original = history[index];
+        if (!original) return entry;
+
+        return {
+          ...entry,
+          id: original.id,
+          timestamp: original.timestamp,
+          ...(original.receivedChainHash && { receivedChainHash: original.receivedChainHash }),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Applies a single recorded history entry to a draft state
+   * @param draft - Draft state to apply the entry to
+   * @param action - History entry to apply
+   * @returns Updated draft state
+   */
+  private static applyHistoryEntry(draft: DraftState, action: DraftAction): DraftState {
+    switch (action.actionType) {
+      case 'pack-dealt':
+        // Packs are dealt automatically after a pile is chosen, so only replay manual deals
+        return draft.activePack ? draft : this.performDraftAction(draft, { type: 'start-round' });
+      case 'pack-split':
+        return this.performDraftAction(draft, { type: 'split-pack', piles: action.data.piles ?? [] });
+      case 'pile-chosen':
+        return this.performDraftAction(draft, { type: 'choose-pile', pileId: action.data.chosenPile ?? '' });
+      case 'pile-taken':
+        return this.performDraftAction(draft, { type: 'take-pile' });
+      case 'pile-passed':
+        return this.performDraftAction(draft, { type: 'pass-pile' });
+      case 'line-picked':
+        return this.performDraftAction(draft, { type: 'pick-line', line: action.data.line ?? ('' as GridLine) });
+    }
+  }
+
+  /**
+   * Checks whether a history entry was made by a player (as opposed to a pack being dealt)
+   * @param action - History entry to check
+   * @returns True for splits, pile choices, Winston takes and passes and grid picks
+   */
+  private static isPlayerAction(action: DraftAction): boolean {
+    return action.actionType !== 'pack-dealt';
+  }
+
+  /**
+   * Checks whether a phase is one where the active player splits a pack
+   * @param phase - Phase to check
+   * @returns True for P1-split and P2-split
+   */
+  private static isSplitPhase(phase: DraftPhase): boolean {
+    return phase === 'P1-split' || phase === 'P2-split';
+  }
+
+  /**
+   * Checks whether a phase is one where the active player looks at Winston piles
+   * @param phase - Phase to check
+   * @returns True for P1-look and P2-look
+   */
+  private static isLookPhase(phase: DraftPhase): boolean {
+    return phase === 'P1-look' || phase === 'P2-look';
+  }
+
+  /**
+   * Checks whether a phase is one where the active player picks a grid row or column
+   * @param phase - Phase to check
+   * @returns True for P1-pick and P2-pick
+   */
+  private static isPickPhase(phase: DraftPhase): boolean {
+    return phase === 'P1-pick' || phase === 'P2-pick';
+  }
+
   /**
    * Creates a new history entry for tracking draft actions
    * @param actionType - Type of action being recorded
@@ -181,7 +609,7 @@ export class DraftService {
       return { ...draft, isComplete: true };
     }
 
-    const packCards = draft.cardsInPool.splice(0, draft.settings.packSize);
+    const packCards = draft.cardsInPool.slice(0, draft.settings.packSize);
     const activePack: Pack = {
       id: `pack-${draft.currentRound}-${draft.currentPhase}`,
       cards: packCards,
@@ -198,6 +626,7 @@ export class DraftService {
 
     return {
       ...draft,
+      cardsInPool: draft.cardsInPool.slice(draft.settings.packSize),
       activePack,
       history: [...draft.history, historyEntry],
     };
@@ -206,25 +635,74 @@ export class DraftService {
   /**
    * Handles pack splitting by the active player
    * @param draft - Current draft state
-   * @param data - Pile data from the split
+   * @param piles - Piles created from the active pack
    * @returns Updated draft state
+   * @throws NoActivePackError if no pack has been dealt
+   * @throws InvalidSplitError if the piles break the split rules
    */
-  private static splitPack(draft: DraftState, data: { piles: Pile[] }): DraftState {
-    if (!draft.activePack || data.piles.length !== 2) {
-      throw new Error('Invalid pack split data');
+  private static splitPack(draft: DraftState, piles: Pile[]): DraftState {
+    if (!draft.activePack) {
+      throw new NoActivePackError('split-pack');
     }
 
-    const { piles } = data;
-    const totalCards = piles[0].cards.length + piles[1].cards.length;
-    
+    if (draft.activePack.piles) {
+      throw new InvalidSplitError('already-split', 'The active pack has already been split');
+    }
+
+    const rules = resolveSplitRules(draft.settings.splitRules);
+    const burnPiles = piles.filter(pile => pile.id === BURN_PILE_ID);
+    const choosablePiles = piles.filter(pile => pile.id !== BURN_PILE_ID);
+
+    if (burnPiles.length > (rules.burnPile ? 1 : 0)) {
+      throw new InvalidSplitError(
+        'burn-pile',
+        rules.burnPile ? 'A split can have only one burn pile' : 'This draft does not allow a burn pile'
+      );
+    }
+
+    if (choosablePiles.length !== rules.pileCount) {
+      throw new InvalidSplitError(
+        'pile-count',
+        `A pack must be split into exactly ${rules.pileCount} piles, got ${choosablePiles.length}`
+      );
+    }
+
+    if (new Set(piles.map(pile => pile.id)).size !== piles.length) {
+      throw new InvalidSplitError('unique-ids', 'Each pile must have a unique ID');
+    }
+
+    const totalCards = piles.reduce((total, pile) => total + pile.cards.length, 0);
     if (totalCards !== draft.activePack.cards.length) {
-      throw new Error('All cards must be assigned to piles');
+      throw new InvalidSplitError('all-cards', 'All cards must be assigned to piles');
     }
 
-    if (piles[0].cards.length === 0 || piles[1].cards.length === 0) {
-      throw new Error('Each pile must contain at least one card');
+    if (!this.isSameCards(draft.activePack.cards, piles.flatMap(pile => pile.cards))) {
+      throw new InvalidSplitError('all-cards', 'Piles must contain exactly the cards in the active pack');
     }
 
+    // Piles only name cards by instance ID; the card data stored is always the pack's own
+    const packCards = new Map(draft.activePack.cards.map(entry => [entry.instanceId, entry]));
+    const dealtPiles: Pile[] = piles.map(pile => ({
+      id: pile.id,
+      cards: pile.cards.map(entry => packCards.get(entry.instanceId)!),
+    }));
+
+    choosablePiles.forEach((pile, index) => {
+      const size = `Pile ${index + 1} has ${pile.cards.length} ${pile.cards.length === 1 ? 'card' : 'cards'}`;
+      if (pile.cards.length < rules.minPileSize) {
+        throw new InvalidSplitError(
+          'min-pile-size',
+          `${size}, but each pile must contain at least ${rules.minPileSize} ${rules.minPileSize === 1 ? 'card' : 'cards'}`
+        );
+      }
+      if (rules.maxPileSize !== undefined && pile.cards.length > rules.maxPileSize) {
+        throw new InvalidSplitError(
+          'max-pile-size',
+          `${size}, but each pile may contain at most ${rules.maxPileSize} ${rules.maxPileSize === 1 ? 'card' : 'cards'}`
+        );
+      }
+    });
+
     // Determine who is splitting
     const splitter = draft.currentPhase === 'P1-split' ? 'P1' : 'P2';
     
@@ -234,7 +712,7 @@ export class DraftService {
       draft.currentRound,
       draft.currentPhase,
       { 
-        piles: [...piles], 
+        piles: dealtPiles, 
         splitter 
       }
     );
@@ -247,47 +725,50 @@ export class DraftService {
       currentPhase: nextPhase,
       activePack: {
         ...draft.activePack,
-        piles,
+        piles: dealtPiles,
       },
       history: [...draft.history, historyEntry],
     };
   }
 
   /**
-   * Handles pile selection by the choosing player
+   * Handles pile selection by the choosing player.
+   * The chooser takes the chosen pile, the splitter takes every other pile
+   * and the burn pile, if any, is discarded.
    * @param draft - Current draft state
-   * @param data - Pile selection data
+   * @param pileId - ID of the chosen pile
    * @returns Updated draft state
+   * @throws NoActivePackError if there is no split pack to choose from
+   * @throws InvalidPileError if the pile does not exist
    */
-  private static choosePile(draft: DraftState, data: { pileId: string }): DraftState {
+  private static choosePile(draft: DraftState, pileId: string): DraftState {
     if (!draft.activePack || !draft.activePack.piles) {
-      throw new Error('No active pack with piles');
+      throw new NoActivePackError('choose-pile');
     }
 
-    const { pileId } = data;
-    const chosenPile = draft.activePack.piles.find(pile => pile.id === pileId);
-    const otherPile = draft.activePack.piles.find(pile => pile.id !== pileId);
+    const { piles } = draft.activePack;
+    const chosenPile = piles.find(pile => pile.id === pileId && pile.id !== BURN_PILE_ID);
 
-    if (!chosenPile || !otherPile) {
-      throw new Error('Invalid pile selection');
+    if (!chosenPile) {
+      throw new InvalidPileError(pileId);
     }
 
+    const splitterCards = piles.filter(pile => pile.id !== pileId && pile.id !== BURN_PILE_ID).flatMap(pile => pile.cards);
+    const burnedCards = piles.find(pile => pile.id === BURN_PILE_ID)?.cards ?? [];
+
     // Determine which player is choosing and which is splitting
     const isP1Choosing = draft.currentPhase === 'P1-choose';
     const chooser = isP1Choosing ? 'P1' : 'P2';
-    const choosingPlayer = isP1Choosing ? 'p1Picks' : 'p2Picks';
-    const splittingPlayer = isP1Choosing ? 'p2Picks' : 'p1Picks';
 
-    // Add cards to the choosing player's picks
-    const updatedDraft = { ...draft };
-    chosenPile.cards.forEach(cardInPool => {
-      this.addCardToPlayerPicks(updatedDraft[choosingPlayer], cardInPool);
-    });
-
-    // Add remaining cards to the splitting player's picks
-    otherPile.cards.forEach(cardInPool => {
-      this.addCardToPlayerPicks(updatedDraft[splittingPlayer], cardInPool);
-    });
+    // Chosen cards go to the chooser, the remaining piles go to the splitter
+    const p1Picks = this.addCardsToPlayerPicks(
+      draft.p1Picks,
+      isP1Choosing ? chosenPile.cards : splitterCards
+    );
+    const p2Picks = this.addCardsToPlayerPicks(
+      draft.p2Picks,
+      isP1Choosing ? splitterCards : chosenPile.cards
+    );
 
     // Record pile chosen action in history
     const historyEntry = this.createHistoryEntry(
@@ -298,80 +779,343 @@ export class DraftService {
         chosenPile: pileId,
         chooser,
         chosenCards: [...chosenPile.cards],
-        remainingCards: [...otherPile.cards],
+        remainingCards: splitterCards,
+        ...(burnedCards.length > 0 && { discardedCards: [...burnedCards] }),
       }
     );
 
-    // Determine next phase, pack, and round
-    // Odd packs (1, 3, 5...): P1 splits → P2 chooses
-    // Even packs (2, 4, 6...): P2 splits → P1 chooses
-    let nextPhase: 'P1-split' | 'P1-choose' | 'P2-split' | 'P2-choose';
-    let nextPack: number;
-    let nextRound: number;
+    // Create updated draft state with pile choice
+    const draftAfterChoice: DraftState = {
+      ...draft,
+      ...this.getNextPackPosition(draft, 'split'),
+      p1Picks,
+      p2Picks,
+      activePack: null,
+      history: [...draft.history, historyEntry],
+    };
+
+    // Automatically deal the next pack (completes the draft if the pool is exhausted)
+    return this.startRound(draftAfterChoice);
+  }
+
+  /**
+   * Works out where the draft goes once the active pack is finished.
+   * Pack 1 of each round: the first splitter starts → the other player finishes.
+   * Pack 2 of each round: the other player starts → the first splitter finishes.
+   * @param draft - Draft state when the pack is finished
+   * @param move - What the player starting the next pack does with it ('split' in Solomon, 'pick' in grid)
+   * @returns Phase, pack and round for the next pack
+   */
+  private static getNextPackPosition(
+    draft: DraftState,
+    move: 'split' | 'pick'
+  ): Pick<DraftState, 'currentPhase' | 'currentPack' | 'currentRound'> {
+    const firstSplitter = draft.settings.firstSplitter;
+    const secondSplitter: PlayerId = firstSplitter === 'P1' ? 'P2' : 'P1';
 
     if (draft.currentPack === 1) {
-      // Just finished pack 1, move to pack 2 with P2 splitting
-      nextPhase = 'P2-split';
-      nextPack = 2;
-      nextRound = draft.currentRound;
-    } else {
-      // Just finished pack 2, move to next round with P1 splitting pack 1
-      nextPhase = 'P1-split';
-      nextPack = 1;
-      nextRound = draft.currentRound + 1;
+      // Just finished pack 1, move to pack 2 with the other player starting
+      return { currentPhase: `${secondSplitter}-${move}`, currentPack: 2, currentRound: draft.currentRound };
     }
 
-    // Create updated draft state with pile choice
-    const draftAfterChoice = {
-      ...updatedDraft,
-      currentPhase: nextPhase,
-      currentPack: nextPack,
-      currentRound: nextRound,
+    // Just finished pack 2, move to next round with the first splitter starting pack 1
+    return { currentPhase: `${firstSplitter}-${move}`, currentPack: 1, currentRound: draft.currentRound + 1 };
+  }
+
+  /**
+   * Handles the active player picking a row or column of the grid.
+   * The first pick takes the whole line; the second takes whatever is left of
+   * its line, the rest of the grid is discarded and the next grid is dealt.
+   * @param draft - Current draft state
+   * @param line - Row or column to pick
+   * @returns Updated draft state
+   * @throws NoActivePackError if no grid has been dealt
+   * @throws InvalidLineError if the line does not exist or has no cards left
+   */
+  private static pickLine(draft: DraftState, line: GridLine): DraftState {
+    if (!draft.activePack) {
+      throw new NoActivePackError('pick-line');
+    }
+
+    const grid = draft.activePack.cards;
+    const takenSlots = draft.takenSlots ?? [];
+    const pickedSlots = this.getLineSlots(line).filter(slot => !takenSlots.includes(slot) && slot < grid.length);
+    if (pickedSlots.length === 0) {
+      throw new InvalidLineError(line);
+    }
+
+    const player: PlayerId = draft.currentPhase === 'P1-pick' ? 'P1' : 'P2';
+    const isFirstPick = takenSlots.length === 0;
+    const chosenCards = pickedSlots.map(slot => grid[slot]);
+    const discardedCards = isFirstPick
+      ? []
+      : grid.filter((_, slot) => !takenSlots.includes(slot) && !pickedSlots.includes(slot));
+
+    const historyEntry = this.createHistoryEntry(
+      'line-picked',
+      draft.currentRound,
+      draft.currentPhase,
+      {
+        line,
+        chooser: player,
+        chosenCards,
+        ...(!isFirstPick && { discardedCards }),
+      }
+    );
+
+    const draftAfterPick: DraftState = {
+      ...draft,
+      p1Picks: player === 'P1' ? this.addCardsToPlayerPicks(draft.p1Picks, chosenCards) : draft.p1Picks,
+      p2Picks: player === 'P2' ? this.addCardsToPlayerPicks(draft.p2Picks, chosenCards) : draft.p2Picks,
+      history: [...draft.history, historyEntry],
+    };
+
+    if (isFirstPick) {
+      return { ...draftAfterPick, currentPhase: player === 'P1' ? 'P2-pick' : 'P1-pick', takenSlots: pickedSlots };
+    }
+
+    // Automatically deal the next grid (completes the draft if the pool is exhausted)
+    return this.startRound({
+      ...draftAfterPick,
+      ...this.getNextPackPosition(draft, 'pick'),
       activePack: null,
-      history: [...updatedDraft.history, historyEntry],
+      takenSlots: undefined,
+    });
+  }
+
+  /**
+   * Gets the grid positions in a row or column
+   * @param line - Row or column, numbered from the top left
+   * @returns Positions (row by row), or none if the line is not a valid row or column
+   */
+  private static getLineSlots(line: GridLine): number[] {
+    const match = /^(row|col)-([1-3])$/.exec(line);
+    if (!match) return [];
+
+    const index = Number(match[2]) - 1;
+
+    return Array.from({ length: GRID_SIZE }, (_, offset) =>
+      match[1] === 'row' ? index * GRID_SIZE + offset : offset * GRID_SIZE + index
+    );
+  }
+
+  /**
+   * Starts a Winston draft by dealing one card from the pool onto each pile
+   * @param draft - Current draft state
+   * @returns Updated draft state with the piles dealt and the first pile being looked at
+   */
+  private static dealWinstonPiles(draft: DraftState): DraftState {
+    const dealtCards = draft.cardsInPool.slice(0, WINSTON_PILE_COUNT);
+    if (dealtCards.length === 0) {
+      return { ...draft, isComplete: true };
+    }
+
+    const piles: Pile[] = Array.from({ length: WINSTON_PILE_COUNT }, (_, index) => ({
+      id: `pile-${index + 1}`,
+      cards: dealtCards.slice(index, index + 1),
+    }));
+
+    const historyEntry = this.createHistoryEntry(
+      'pack-dealt',
+      draft.currentRound,
+      draft.currentPhase,
+      { packCards: [...dealtCards] }
+    );
+
+    return {
+      ...draft,
+      cardsInPool: draft.cardsInPool.slice(dealtCards.length),
+      activePack: this.createWinstonPack(piles),
+      currentPile: 0,
+      history: [...draft.history, historyEntry],
     };
+  }
 
-    // If the draft is not complete, automatically deal the next pack
-    if (!draftAfterChoice.isComplete) {
-      return this.startRound(draftAfterChoice);
+  /**
+   * Handles the active player taking the Winston pile they are looking at.
+   * The pile is replaced by the top card of the pool, if any is left.
+   * @param draft - Current draft state
+   * @returns Updated draft state, with the other player's turn started
+   * @throws NoActivePackError if the piles have not been dealt
+   */
+  private static takePile(draft: DraftState): DraftState {
+    const piles = draft.activePack?.piles;
+    if (!piles) {
+      throw new NoActivePackError('take-pile');
     }
 
-    return draftAfterChoice;
+    const pileIndex = draft.currentPile ?? 0;
+    const pile = piles[pileIndex];
+    const player: PlayerId = draft.currentPhase === 'P1-look' ? 'P1' : 'P2';
+    const addedCards = draft.cardsInPool.slice(0, 1);
+
+    const historyEntry = this.createHistoryEntry(
+      'pile-taken',
+      draft.currentRound,
+      draft.currentPhase,
+      {
+        chosenPile: pile.id,
+        chooser: player,
+        chosenCards: [...pile.cards],
+        addedCards,
+      }
+    );
+
+    return this.endWinstonTurn(
+      {
+        ...draft,
+        cardsInPool: draft.cardsInPool.slice(addedCards.length),
+        p1Picks: player === 'P1' ? this.addCardsToPlayerPicks(draft.p1Picks, pile.cards) : draft.p1Picks,
+        p2Picks: player === 'P2' ? this.addCardsToPlayerPicks(draft.p2Picks, pile.cards) : draft.p2Picks,
+        history: [...draft.history, historyEntry],
+      },
+      piles.map((entry, index) => (index === pileIndex ? { ...entry, cards: addedCards } : entry))
+    );
   }
 
   /**
-   * Adds a card to a player's picks, organizing by color identity
-   * @param playerPicks - Player's current picks
-   * @param cardInPool - Card to add
+   * Handles the active player passing the Winston pile they are looking at.
+   * The top card of the pool is added to the pile and the player looks at the
+   * next pile; after passing the last pile they take the next card of the pool unseen.
+   * @param draft - Current draft state
+   * @returns Updated draft state
+   * @throws NoActivePackError if the piles have not been dealt
+   * @throws InvalidPassError if this is the last pile and no card would be left to take instead
    */
-  private static addCardToPlayerPicks(playerPicks: Record<string, CardInPool[]>, cardInPool: CardInPool): void {
-    const colorIdentity = this.getCardColorIdentity(cardInPool.card);
-    
-    if (!playerPicks[colorIdentity]) {
-      playerPicks[colorIdentity] = [];
+  private static passPile(draft: DraftState): DraftState {
+    const piles = draft.activePack?.piles;
+    if (!piles) {
+      throw new NoActivePackError('pass-pile');
     }
-    
-    playerPicks[colorIdentity].push(cardInPool);
+
+    const pileIndex = draft.currentPile ?? 0;
+    const pile = piles[pileIndex];
+    const player: PlayerId = draft.currentPhase === 'P1-look' ? 'P1' : 'P2';
+    const nextPile = piles.findIndex((entry, index) => index > pileIndex && entry.cards.length > 0);
+
+    if (!this.canPassPile(draft)) {
+      throw new InvalidPassError();
+    }
+
+    const addedCards = draft.cardsInPool.slice(0, 1);
+    const drawnCards = nextPile === -1 ? draft.cardsInPool.slice(1, 2) : [];
+    const updatedPiles = piles.map((entry, index) =>
+      index === pileIndex ? { ...entry, cards: [...entry.cards, ...addedCards] } : entry
+    );
+
+    const historyEntry = this.createHistoryEntry(
+      'pile-passed',
+      draft.currentRound,
+      draft.currentPhase,
+      {
+        chosenPile: pile.id,
+        chooser: player,
+        addedCards,
+        ...(drawnCards.length > 0 && { chosenCards: drawnCards }),
+      }
+    );
+
+    const draftAfterPass: DraftState = {
+      ...draft,
+      cardsInPool: draft.cardsInPool.slice(addedCards.length + drawnCards.length),
+      history: [...draft.history, historyEntry],
+    };
+
+    if (nextPile !== -1) {
+      return { ...draftAfterPass, activePack: this.createWinstonPack(updatedPiles), currentPile: nextPile };
+    }
+
+    return this.endWinstonTurn(
+      {
+        ...draftAfterPass,
+        p1Picks: player === 'P1' ? this.addCardsToPlayerPicks(draft.p1Picks, drawnCards) : draft.p1Picks,
+        p2Picks: player === 'P2' ? this.addCardsToPlayerPicks(draft.p2Picks, drawnCards) : draft.p2Picks,
+      },
+      updatedPiles
+    );
   }
 
   /**
-   * Determines the color identity of a card for sorting purposes
-   * @param card - Card to analyze
-   * @returns Color identity string for sorting
+   * Ends a Winston turn: the other player starts looking at the first pile with
+   * cards, or the draft is complete once every pile and the pool are empty
+   * @param draft - Draft state after the turn's move
+   * @param piles - Piles after the turn's move
+   * @returns Updated draft state
    */
-  private static getCardColorIdentity(card: any): ColorIdentity {
-    const { color_identity } = card;
-    
-    if (color_identity.length === 0) return 'C'; // Colorless
-    if (color_identity.length === 1) return color_identity[0]; // Single color
-    return 'M'; // Multicolor
+  private static endWinstonTurn(draft: DraftState, piles: Pile[]): DraftState {
+    const firstPile = piles.findIndex(pile => pile.cards.length > 0);
+    if (firstPile === -1) {
+      return { ...draft, activePack: null, currentPile: undefined, isComplete: true };
+    }
+
+    return {
+      ...draft,
+      currentPhase: draft.currentPhase === 'P1-look' ? 'P2-look' : 'P1-look',
+      currentRound: draft.currentRound + 1,
+      activePack: this.createWinstonPack(piles),
+      currentPile: firstPile,
+    };
+  }
+
+  /**
+   * Creates the pack holding the Winston piles
+   * @param piles - The piles, in order
+   * @returns Pack whose cards are every card in the piles
+   */
+  private static createWinstonPack(piles: Pile[]): Pack {
+    return {
+      id: 'winston-piles',
+      cards: piles.flatMap(pile => pile.cards),
+      isActive: true,
+      piles,
+    };
+  }
+
+  /**
+   * Checks whether two lists contain the same card instances, ignoring order
+   * @param expected - Cards that should be present
+   * @param actual - Cards to compare against
+   * @returns True if both lists contain the same instance IDs the same number of times
+   */
+  private static isSameCards(expected: CardInstance[], actual: CardInstance[]): boolean {
+    if (expected.length !== actual.length) return false;
+
+    const counts = new Map<string, number>();
+    expected.forEach(instance => {
+      counts.set(instance.instanceId, (counts.get(instance.instanceId) ?? 0) + 1);
+    });
+
+    return actual.every(instance => {
+      const remaining = counts.get(instance.instanceId) ?? 0;
+      if (remaining === 0) return false;
+      counts.set(instance.instanceId, remaining - 1);
+      return true;
+    });
+  }
+
+  /**
+   * Returns new player picks with the given cards added, organized by color identity.
+   * Color groups that receive no cards keep their existing arrays.
+   * @param playerPicks - Player's current picks (not modified)
+   * @param cards - Cards to add
+   * @returns Updated player picks
+   */
+  private static addCardsToPlayerPicks(playerPicks: PlayerPicks, cards: CardInstance[]): PlayerPicks {
+    const updatedPicks: PlayerPicks = { ...playerPicks };
+
+    cards.forEach(cardInPool => {
+      const colorIdentity = getColorColumn(cardInPool.card);
+      updatedPicks[colorIdentity] = [...(updatedPicks[colorIdentity] ?? []), cardInPool];
+    });
+
+    return updatedPicks;
   }
 
   /**
    * Initializes empty player picks organized by color identity
    * @returns Empty player picks structure
    */
-  private static initializePlayerPicks(): Record<string, CardInPool[]> {
+  private static initializePlayerPicks(): PlayerPicks {
     return {
       'W': [],
       'U': [],
@@ -383,18 +1127,4 @@ export class DraftService {
     };
   }
 
-  /**
-   * Shuffles an array using Fisher-Yates algorithm
-   * @param array - Array to shuffle
-   * @returns Shuffled array
-   */
-  private static shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }
-
 }
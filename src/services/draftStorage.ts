@@ -0,0 +1,207 @@
+import { DraftState } from '@/types/draft';
+import { reviveDate, reviveDraftState } from '@/utils/draftSerialization';
+import { DraftFileService } from './draftFileService';
+
+/**
+ * A draft saved in the browser so it can be resumed later
+ */
+export interface SavedDraft {
+  /** Unique identifier for the saved draft */
+  id: string;
+  /** Display name (defaults to the cube or deck name) */
+  name: string;
+  /** The saved draft state */
+  draft: DraftState;
+  /** When the draft was first saved */
+  createdAt: Date;
+  /** When the draft was last saved */
+  updatedAt: Date;
+}
+
+/**
+ * Service for persisting drafts in IndexedDB so they survive page reloads.
+ * Drafts in this format can span days, so every change is saved automatically.
+ */
+class DraftStorageService {
+  private readonly dbName = 'solomon-draft';
+  private readonly dbVersion = 1;
+  private readonly storeName = 'drafts';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Opens (and on first use creates) the drafts database
+   * @returns Promise resolving to the open database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, this.dbVersion);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open draft storage'));
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Runs a single request against the drafts store
+   * @param mode - Transaction mode
+   * @param operation - Builds the request from the object store
+   * @returns Promise resolving to the request result once the transaction completes
+   */
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Draft storage request failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Draft storage request aborted'));
+    });
+  }
+
+  /**
+   * Reads a record and writes its replacement in one readwrite transaction,
+   * so a save and a rename running at the same time cannot overwrite each other with stale data
+   * @param id - ID of the saved draft
+   * @param update - Builds the record to write from the stored one (undefined if there is none),
+   *   or returns null to leave the store unchanged
+   * @returns Promise resolving to the record written, or null if nothing was written
+   */
+  private async updateRecord(
+    id: string,
+    update: (existing: SavedDraft | undefined) => SavedDraft | null
+  ): Promise<SavedDraft | null> {
+    const db = await this.openDatabase();
+
+    return new Promise<SavedDraft | null>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.get(id);
+      let written: SavedDraft | null = null;
+
+      request.onsuccess = () => {
+        const stored = request.result as SavedDraft | undefined;
+        written = update(stored && this.reviveRecord(stored));
+        if (written) store.put(written);
+      };
+      transaction.oncomplete = () => resolve(written);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Draft storage request failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Draft storage request aborted'));
+    });
+  }
+
+  /**
+   * Restores a record read from IndexedDB, numbering the copies in drafts saved before cards had instance IDs
+   * @param record - Stored record
+   * @returns Saved draft with dates revived
+   */
+  private reviveRecord(record: SavedDraft): SavedDraft {
+    return {
+      ...record,
+      draft: reviveDraftState(this.upgradeDraft(record.draft)),
+      createdAt: reviveDate(record.createdAt),
+      updatedAt: reviveDate(record.updatedAt),
+    };
+  }
+
+  /**
+   * Gives card instance IDs to a draft autosaved before cards had them, as draft files are upgraded on import
+   * @param draft - Stored draft
+   * @returns The upgraded draft, or the stored one if its history cannot be replayed
+   *   (its duplicate copies then share an instance ID, as they did before)
+   */
+  private upgradeDraft(draft: DraftState): DraftState {
+    try {
+      return DraftFileService.upgradeLegacyDraft(draft);
+    } catch (error) {
+      console.warn('Failed to upgrade saved draft:', error);
+      return draft;
+    }
+  }
+
+  /**
+   * Saves a draft, creating the record if it does not exist yet
+   * @param id - ID of the saved draft
+   * @param name - Display name used when the record is created
+   * @param draft - Draft state to save
+   * @returns Promise resolving to the saved record
+   */
+  async saveDraft(id: string, name: string, draft: DraftState): Promise<SavedDraft> {
+    const now = new Date();
+    const record = await this.updateRecord(id, existing => ({
+      id,
+      name: existing?.name ?? name,
+      draft,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    }));
+    return record!;
+  }
+
+  /**
+   * Loads a saved draft by ID
+   * @param id - ID of the saved draft
+   * @returns Promise resolving to the saved draft, or null if it does not exist
+   */
+  async loadDraft(id: string): Promise<SavedDraft | null> {
+    const record = await this.runRequest<SavedDraft | undefined>('readonly', store => store.get(id));
+    return record ? this.reviveRecord(record) : null;
+  }
+
+  /**
+   * Lists all saved drafts, most recently updated first
+   * @returns Promise resolving to the saved drafts
+   */
+  async listDrafts(): Promise<SavedDraft[]> {
+    const records = await this.runRequest<SavedDraft[]>('readonly', store => store.getAll());
+    return records
+      .map(record => this.reviveRecord(record))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Renames a saved draft
+   * @param id - ID of the saved draft
+   * @param name - New display name
+   */
+  async renameDraft(id: string, name: string): Promise<void> {
+    const renamed = await this.updateRecord(id, existing => (existing ? { ...existing, name } : null));
+    if (!renamed) {
+      throw new Error(`Saved draft not found: ${id}`);
+    }
+  }
+
+  /**
+   * Deletes a saved draft
+   * @param id - ID of the saved draft
+   */
+  async deleteDraft(id: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(id));
+  }
+}
+
+export const draftStorage = new DraftStorageService();
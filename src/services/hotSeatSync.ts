@@ -0,0 +1,78 @@
+import { DraftState, PlayerId } from '@/types/draft';
+import { reviveDraftState } from '@/utils/draftSerialization';
+
+/**
+ * Draft shared between the hot-seat windows
+ */
+export interface HotSeatState {
+  /** The shared draft, or null once hot-seat play has ended */
+  draft: DraftState | null;
+  /** Saved record the draft autosaves to, so every window updates the same one */
+  save: { id: string; name: string } | null;
+}
+
+/**
+ * Name of the BroadcastChannel the hot-seat windows talk over
+ */
+const CHANNEL_NAME = 'solomon-draft-hot-seat';
+
+/**
+ * Key of the shared draft in localStorage, read by windows opened later
+ */
+const STORAGE_KEY = 'solomon-draft-hot-seat';
+
+/**
+ * Keeps the windows of a hot-seat draft in sync on one computer.
+ * Each player drafts in their own tab or window. Every move is broadcast to the
+ * other windows over a BroadcastChannel so they update instantly, and written to
+ * localStorage so a window opened or reloaded later picks up the current draft.
+ */
+export class HotSeatSync {
+  readonly seat: PlayerId;
+  private readonly channel: BroadcastChannel;
+
+  /**
+   * @param seat - Player this window is for
+   * @param onState - Called when another window changes the shared draft
+   */
+  constructor(seat: PlayerId, onState: (state: HotSeatState) => void) {
+    this.seat = seat;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<HotSeatState>) => onState(event.data);
+  }
+
+  /**
+   * Reads the shared draft left by another window
+   * @returns The shared state, or null if no hot-seat draft is in progress
+   */
+  static getSharedState(): HotSeatState | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (!saved) return null;
+      const state = JSON.parse(saved) as HotSeatState;
+      return state.draft ? { ...state, draft: reviveDraftState(state.draft) } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Shares a draft with the other windows
+   * @param state - New shared state (a null draft ends hot-seat play in every window)
+   */
+  publish(state: HotSeatState): void {
+    if (state.draft) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    this.channel.postMessage(state);
+  }
+
+  /**
+   * Stops listening for changes from the other windows
+   */
+  close(): void {
+    this.channel.close();
+  }
+}
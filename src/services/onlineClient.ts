@@ -0,0 +1,228 @@
+import { DraftCommand, DraftState, PlayerId } from '@/types/draft';
+import { ClientMessage, ServerMessage } from '@/types/online';
+import { reviveDraftState } from '@/utils/draftSerialization';
+
+/**
+ * Connection status of the online client
+ */
+export type OnlineStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * A seat held in a room on the draft server
+ */
+export interface OnlineSession {
+  /** WebSocket URL of the draft server */
+  serverUrl: string;
+  /** Room code */
+  roomId: string;
+  /** Seat this player holds */
+  seat: PlayerId;
+  /** Secret used to reclaim the seat after a disconnect */
+  reconnectToken: string;
+}
+
+/**
+ * Callbacks the online client reports server events through
+ */
+export interface OnlineClientHandlers {
+  /** Called when a seat is taken or reclaimed, with the room's current draft */
+  onJoined: (session: OnlineSession, draft: DraftState) => void;
+  /** Called with the authoritative draft state after every command */
+  onState: (draft: DraftState) => void;
+  /** Called when players connect or disconnect */
+  onPresence: (connected: Record<PlayerId, boolean>) => void;
+  /** Called when the server rejects a request */
+  onError: (message: string) => void;
+  /** Called when the connection status changes */
+  onStatus: (status: OnlineStatus) => void;
+}
+
+/**
+ * Key under which the current session is kept so a page reload can reconnect
+ */
+const SESSION_STORAGE_KEY = 'solomon-draft-online-session';
+
+/**
+ * Longest wait between reconnect attempts
+ */
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+/**
+ * Client for real-time play through the local draft server.
+ * The server owns the draft: commands are sent to it and the state it
+ * broadcasts replaces the local state. Dropped connections are retried
+ * automatically and the seat is reclaimed with its reconnect token.
+ */
+export class OnlineDraftClient {
+  private readonly serverUrl: string;
+  private readonly handlers: OnlineClientHandlers;
+  private socket: WebSocket | null = null;
+  private session: OnlineSession | null = null;
+  private pendingMessage: ClientMessage | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closedByUser = false;
+
+  constructor(serverUrl: string, handlers: OnlineClientHandlers) {
+    this.serverUrl = serverUrl;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Gets the session saved by a previous page load, if any
+   * @returns The saved session, or null
+   */
+  static getSavedSession(): OnlineSession | null {
+    try {
+      const saved = sessionStorage.getItem(SESSION_STORAGE_KEY);
+      return saved ? (JSON.parse(saved) as OnlineSession) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Hosts a new room for a draft
+   * @param draft - Draft to host (the host takes seat P1)
+   */
+  createRoom(draft: DraftState): void {
+    this.connect({ type: 'create-room', draft });
+  }
+
+  /**
+   * Joins an existing room in its free seat
+   * @param roomId - Room code
+   */
+  joinRoom(roomId: string): void {
+    this.connect({ type: 'join-room', roomId });
+  }
+
+  /**
+   * Reclaims a seat from an earlier session
+   * @param session - Session to resume
+   */
+  resume(session: OnlineSession): void {
+    this.session = session;
+    this.connect({ type: 'reconnect', roomId: session.roomId, reconnectToken: session.reconnectToken });
+  }
+
+  /**
+   * Sends a draft command to the server
+   * @param command - Command to apply as this player
+   */
+  sendCommand(command: DraftCommand): void {
+    this.send({ type: 'command', command });
+  }
+
+  /**
+   * Leaves the room, giving up the seat, and closes the connection
+   */
+  leave(): void {
+    this.send({ type: 'leave-room' });
+    this.close();
+  }
+
+  /**
+   * Closes the connection and forgets the session (the seat stays reserved on the server)
+   */
+  close(): void {
+    this.closedByUser = true;
+    this.session = null;
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.handlers.onStatus('disconnected');
+  }
+
+  /**
+   * Opens a connection and sends a message once it is open
+   * @param message - First message to send
+   */
+  private connect(message: ClientMessage): void {
+    this.closedByUser = false;
+    this.pendingMessage = message;
+    this.handlers.onStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(this.serverUrl);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      if (this.pendingMessage) {
+        socket.send(JSON.stringify(this.pendingMessage));
+        this.pendingMessage = null;
+      }
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data as string);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  /**
+   * Retries the connection after an unexpected close, backing off between attempts
+   */
+  private scheduleReconnect(): void {
+    const session = this.session;
+    if (this.closedByUser || !session) {
+      if (!this.closedByUser) this.handlers.onError(`Could not connect to the draft server at ${this.serverUrl}`);
+      this.handlers.onStatus('disconnected');
+      return;
+    }
+
+    this.handlers.onStatus('reconnecting');
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => this.resume(session), delay);
+  }
+
+  /**
+   * Sends a message on the open connection
+   * @param message - Message to send
+   */
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      this.handlers.onError('Not connected to the draft server');
+    }
+  }
+
+  /**
+   * Handles a message from the server
+   * @param raw - Message text
+   */
+  private handleMessage(raw: string): void {
+    const message = JSON.parse(raw) as ServerMessage;
+
+    switch (message.type) {
+      case 'joined':
+        this.session = {
+          serverUrl: this.serverUrl,
+          roomId: message.roomId,
+          seat: message.seat,
+          reconnectToken: message.reconnectToken,
+        };
+        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(this.session));
+        this.handlers.onStatus('connected');
+        this.handlers.onJoined(this.session, reviveDraftState(message.draft));
+        break;
+      case 'state':
+        this.handlers.onState(reviveDraftState(message.draft));
+        break;
+      case 'presence':
+        this.handlers.onPresence(message.connected);
+        break;
+      case 'error':
+        this.handlers.onError(message.message);
+        // A failed join or reconnect leaves nothing to stay connected for
+        if (!this.session || message.code === 'not-in-room' || message.code === 'room-not-found') {
+          this.close();
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { CardInstance } from '@/types/card';
+import { CollationSlot, PackCollation } from '@/types/draft';
+import { getColorColumn } from '@/constants/colors';
+import { hasCollationRules } from '@/utils/collation';
+import { isLand } from './deckService';
+
+/**
+ * Counts of the cards in one pack, by the groups collation rules look at
+ */
+interface PackCounts {
+  colors: Map<string, number>;
+  rarities: Map<string, number>;
+  lands: number;
+  colorless: number;
+}
+
+/**
+ * Builds packs from the shuffled pool according to collation rules.
+ * Collation only reorders the seeded shuffle (and, for caps, swaps in cards
+ * from further down it), so the same seed and rules always give the same packs.
+ */
+export class PackCollator {
+  /**
+   * Checks that collation rules can be used with a pack size
+   * @param collation - Collation rules
+   * @param packSize - Cards per pack
+   * @throws Error naming the rule that cannot be met
+   */
+  static validate(collation: PackCollation, packSize: number): void {
+    const template = collation.template ?? [];
+    if (template.length > packSize) {
+      throw new Error(`The pack template has ${template.length} slots, but packs hold ${packSize} cards`);
+    }
+
+    for (const [cap, label] of [[collation.maxLands, 'lands'], [collation.maxColorless, 'colorless cards']] as const) {
+      if (cap !== undefined && (!Number.isInteger(cap) || cap < 0)) {
+        throw new Error(`The most ${label} per pack must be a whole number of 0 or more`);
+      }
+    }
+
+    const colorlessSlots = template.filter(slot => slot === 'C').length;
+    if (collation.maxColorless !== undefined && colorlessSlots > collation.maxColorless) {
+      throw new Error(
+        `The pack template has ${colorlessSlots} colorless slots, but packs may hold at most ${collation.maxColorless} colorless cards`
+      );
+    }
+  }
+
+  /**
+   * Chooses the cards of a draft from the shuffled pool and puts them in dealing order
+   * @param shuffled - Every card instance, in seeded shuffle order
+   * @param packSize - Cards per pack
+   * @param packCount - Number of packs in the draft
+   * @param collation - Collation rules, if any
+   * @returns The draft's cards, one pack after another
+   * @throws Error if the rules cannot be used with the pack size
+   */
+  static collate(
+    shuffled: CardInstance[],
+    packSize: number,
+    packCount: number,
+    collation?: PackCollation
+  ): CardInstance[] {
+    const poolSize = packSize * packCount;
+    if (!hasCollationRules(collation)) {
+      return shuffled.slice(0, poolSize);
+    }
+
+    this.validate(collation, packSize);
+    let remaining = this.applyCaps(shuffled.slice(0, poolSize), shuffled.slice(poolSize), packCount, collation);
+    const dealingOrder: CardInstance[] = [];
+    for (let pack = 0; pack < packCount; pack++) {
+      const cards = this.buildPack(remaining, packSize, packCount - pack, collation);
+      dealingOrder.push(...cards);
+      remaining = remaining.filter(card => !cards.includes(card));
+    }
+    return dealingOrder;
+  }
+
+  /**
+   * Swaps lands and colorless cards beyond what the caps allow across all packs
+   * for the next cards further down the shuffle that are neither
+   * @param pool - Cards at the top of the shuffle
+   * @param reserve - Cards further down the shuffle
+   * @param packCount - Number of packs in the draft
+   * @param collation - Collation rules
+   * @returns The pool with as many swaps made as the reserve allows
+   */
+  private static applyCaps(
+    pool: CardInstance[],
+    reserve: CardInstance[],
+    packCount: number,
+    collation: PackCollation
+  ): CardInstance[] {
+    const capped = [...pool];
+    const spare = [...reserve];
+    const isOverCap = (card: CardInstance, counts: PackCounts): boolean =>
+      (collation.maxLands !== undefined && isLand(card) && counts.lands > collation.maxLands * packCount) ||
+      (collation.maxColorless !== undefined && getColorColumn(card.card) === 'C' &&
+        counts.colorless > collation.maxColorless * packCount);
+    const isCapped = (card: CardInstance): boolean =>
+      (collation.maxLands !== undefined && isLand(card)) ||
+      (collation.maxColorless !== undefined && getColorColumn(card.card) === 'C');
+
+    // Swap from the bottom of the pool, so the cards dealt first stay as shuffled
+    for (let index = capped.length - 1; index >= 0; index--) {
+      if (!isOverCap(capped[index], countCards(capped))) continue;
+
+      const replacement = spare.findIndex(card => !isCapped(card));
+      if (replacement === -1) break;
+      capped[index] = spare.splice(replacement, 1)[0];
+    }
+
+    return capped;
+  }
+
+  /**
+   * Fills one pack: template slots first, then the rest, each time taking the
+   * first card in shuffle order that keeps the pack within its caps and its
+   * share of each color and rarity. When no card does, the rules are relaxed
+   * (shares first, then caps) so every pack is filled.
+   * @param remaining - Cards not yet in a pack, in shuffle order
+   * @param packSize - Cards per pack
+   * @param packsLeft - Packs still to fill, this one included
+   * @param collation - Collation rules
+   * @returns The pack's cards, in slot order
+   */
+  private static buildPack(
+    remaining: CardInstance[],
+    packSize: number,
+    packsLeft: number,
+    collation: PackCollation
+  ): CardInstance[] {
+    const slots: CollationSlot[] = [...(collation.template ?? [])];
+    while (slots.length < packSize) slots.push('*');
+
+    // Each pack's share of a group is the group's remaining cards split over the packs left
+    const remainingCounts = countCards(remaining);
+    const share = (counts: Map<string, number>, group: string): number =>
+      Math.ceil((counts.get(group) ?? 0) / packsLeft);
+
+    const pack: Array<CardInstance | null> = slots.map(() => null);
+    const available = [...remaining];
+    const withinCaps = (card: CardInstance): boolean => {
+      const counts = countCards(pack.filter((entry): entry is CardInstance => entry !== null));
+      return (
+        (collation.maxLands === undefined || !isLand(card) || counts.lands < collation.maxLands) &&
+        (collation.maxColorless === undefined || getColorColumn(card.card) !== 'C' || counts.colorless < collation.maxColorless)
+      );
+    };
+    const withinShares = (card: CardInstance): boolean => {
+      const counts = countCards(pack.filter((entry): entry is CardInstance => entry !== null));
+      const color = getColorColumn(card.card);
+      return (
+        (!collation.balanceColors || (counts.colors.get(color) ?? 0) < share(remainingCounts.colors, color)) &&
+        (!collation.spreadRarities || (counts.rarities.get(card.card.rarity) ?? 0) < share(remainingCounts.rarities, card.card.rarity))
+      );
+    };
+    const take = (slot: number, tests: Array<(card: CardInstance) => boolean>): boolean => {
+      const index = available.findIndex(card => tests.every(test => test(card)));
+      if (index === -1) return false;
+      pack[slot] = available.splice(index, 1)[0];
+      return true;
+    };
+
+    // Template slots for a color group; a slot no card can fill is left for any card
+    slots.forEach((slot, index) => {
+      if (slot === '*') return;
+      const inGroup = (card: CardInstance): boolean => getColorColumn(card.card) === slot;
+      take(index, [inGroup, withinCaps, withinShares]) || take(index, [inGroup, withinCaps]);
+    });
+
+    // Take the lands and colorless cards later packs would have no room for under their caps
+    const capRules: Array<[number | undefined, number, (card: CardInstance) => boolean]> = [
+      [collation.maxLands, remainingCounts.lands, card => isLand(card)],
+      [collation.maxColorless, remainingCounts.colorless, card => getColorColumn(card.card) === 'C'],
+    ];
+    for (const [cap, count, isCapped] of capRules) {
+      if (cap === undefined) continue;
+      let needed = count - cap * (packsLeft - 1) - pack.filter(card => card && isCapped(card)).length;
+      for (let index = pack.indexOf(null); needed > 0 && index !== -1; index = pack.indexOf(null), needed--) {
+        if (!take(index, [isCapped, withinCaps])) break;
+      }
+    }
+
+    pack.forEach((card, index) => {
+      if (card) return;
+      take(index, [withinCaps, withinShares]) || take(index, [withinCaps]) || take(index, []);
+    });
+
+    return pack.filter((card): card is CardInstance => card !== null);
+  }
+}
+
+/**
+ * Counts cards by the groups collation rules look at
+ * @param cards - Cards to count
+ * @returns Counts by color group and rarity, and the number of lands and colorless cards
+ */
+function countCards(cards: CardInstance[]): PackCounts {
+  const counts: PackCounts = { colors: new Map(), rarities: new Map(), lands: 0, colorless: 0 };
+  for (const card of cards) {
+    const color = getColorColumn(card.card);
+    counts.colors.set(color, (counts.colors.get(color) ?? 0) + 1);
+    counts.rarities.set(card.card.rarity, (counts.rarities.get(card.card.rarity) ?? 0) + 1);
+    if (isLand(card)) counts.lands++;
+    if (color === 'C') counts.colorless++;
+  }
+  return counts;
+}
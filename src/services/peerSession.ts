@@ -0,0 +1,314 @@
+import { DraftCommand, DraftState, PlayerId } from '@/types/draft';
+import { DraftService } from './draftService';
+import { DraftFileService } from './draftFileService';
+import { DEFAULT_ICE_SERVERS, ICE_GATHERING_TIMEOUT_MS } from '@/constants/online';
+import { getStateHash } from '@/utils/fairPlay';
+import { getActivePlayer } from '@/utils/turnTokens';
+import { PEER_PROTOCOL_VERSION, PeerMessage, decodePeerMessage, decodeSignal, encodePeerMessage, encodeSignal } from '@/utils/peerProtocol';
+
+/**
+ * Connection status of a peer-to-peer session
+ */
+export type PeerStatus = 'idle' | 'waiting-for-answer' | 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Which side of the connection this browser is: the host makes the offer and plays P1
+ */
+export type PeerRole = 'host' | 'guest';
+
+/**
+ * Callbacks the peer session reports events through
+ */
+export interface PeerSessionHandlers {
+  /** Called with the draft after every local or remote command, and when the guest receives the draft */
+  onState: (draft: DraftState) => void;
+  /** Called when the connection status changes */
+  onStatus: (status: PeerStatus) => void;
+  /** Called when the peer reports a different state hash than this browser computed */
+  onDesync: (message: string) => void;
+  /** Called when a command is rejected or the peer sends something invalid */
+  onError: (message: string) => void;
+}
+
+/**
+ * Peer-to-peer draft session over a WebRTC data channel.
+ * There is no server: signaling is done by exchanging offer and answer codes by hand,
+ * both browsers run the draft engine, and only commands travel over the channel
+ * (see peerProtocol.ts). State hashes are compared after every command to detect desync.
+ */
+export class PeerDraftSession {
+  readonly role: PeerRole;
+  private readonly handlers: PeerSessionHandlers;
+  private readonly connection: RTCPeerConnection;
+  private channel: RTCDataChannel | null = null;
+  private draft: DraftState | null = null;
+  /** State hashes of commands sent but not yet acknowledged, keyed by sequence number */
+  private readonly sentHashes = new Map<number, string>();
+  /** Incoming messages are handled one at a time because hashing is async */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(role: PeerRole, handlers: PeerSessionHandlers, iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS) {
+    this.role = role;
+    this.handlers = handlers;
+    this.connection = new RTCPeerConnection({ iceServers });
+
+    this.connection.onconnectionstatechange = () => {
+      const state = this.connection.connectionState;
+      if (state === 'failed' || state === 'disconnected' || state === 'closed') {
+        this.handlers.onStatus('disconnected');
+      }
+    };
+
+    if (role === 'guest') {
+      this.connection.ondatachannel = (event) => this.attachChannel(event.channel);
+    }
+  }
+
+  /**
+   * Seat this browser plays
+   */
+  get seat(): PlayerId {
+    return this.role === 'host' ? 'P1' : 'P2';
+  }
+
+  /**
+   * Creates the host's offer code for a draft
+   * @param draft - Draft to play (sent to the guest once connected, unless replaced with setDraft)
+   * @returns Promise resolving to the offer code to give the other player
+   */
+  async createOffer(draft: DraftState): Promise<string> {
+    this.draft = draft;
+    this.attachChannel(this.connection.createDataChannel('draft', { ordered: true }));
+
+    await this.connection.setLocalDescription(await this.connection.createOffer());
+    const code = encodeSignal('offer', await this.gatherCandidates());
+    this.handlers.onStatus('waiting-for-answer');
+    return code;
+  }
+
+  /**
+   * Replaces the draft the host sends once the guest connects, so moves made while
+   * the offer is pending are not lost. Once the channel is open only commands change the draft.
+   * @param draft - Latest draft
+   */
+  setDraft(draft: DraftState): void {
+    if (this.role === 'host' && this.channel?.readyState === 'connecting') {
+      this.draft = draft;
+    }
+  }
+
+  /**
+   * Accepts the host's offer code as the guest
+   * @param offerCode - Offer code from the host
+   * @returns Promise resolving to the answer code to give back to the host
+   * @throws Error if the offer code is invalid
+   */
+  async acceptOffer(offerCode: string): Promise<string> {
+    await this.connection.setRemoteDescription(decodeSignal(offerCode, 'offer'));
+    await this.connection.setLocalDescription(await this.connection.createAnswer());
+    const code = encodeSignal('answer', await this.gatherCandidates());
+    this.handlers.onStatus('connecting');
+    return code;
+  }
+
+  /**
+   * Accepts the guest's answer code as the host, completing the connection
+   * @param answerCode - Answer code from the guest
+   * @throws Error if the answer code is invalid
+   */
+  async acceptAnswer(answerCode: string): Promise<void> {
+    await this.connection.setRemoteDescription(decodeSignal(answerCode, 'answer'));
+    this.handlers.onStatus('connecting');
+  }
+
+  /**
+   * Applies a command as this player and sends it to the peer
+   * @param command - Command to apply
+   */
+  sendCommand(command: DraftCommand): void {
+    this.enqueue(() => this.applyLocalCommand(command));
+  }
+
+  /**
+   * Closes the connection
+   */
+  close(): void {
+    // Detach the close events first so a later disconnect is not reported for a session already closed
+    if (this.channel) {
+      this.channel.onclose = null;
+      this.channel.close();
+    }
+    this.connection.onconnectionstatechange = null;
+    this.connection.close();
+    this.handlers.onStatus('disconnected');
+  }
+
+  /**
+   * Waits for ICE candidate gathering so the code contains every candidate
+   * @returns Promise resolving to the local description
+   */
+  private async gatherCandidates(): Promise<RTCSessionDescriptionInit> {
+    if (this.connection.iceGatheringState !== 'complete') {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+        this.connection.onicegatheringstatechange = () => {
+          if (this.connection.iceGatheringState === 'complete') {
+            clearTimeout(timer);
+            resolve();
+          }
+        };
+      });
+    }
+
+    const description = this.connection.localDescription;
+    if (!description) {
+      throw new Error('Could not create a connection code');
+    }
+    return description.toJSON();
+  }
+
+  /**
+   * Wires up the data channel's events
+   * @param channel - Data channel to the peer
+   */
+  private attachChannel(channel: RTCDataChannel): void {
+    this.channel = channel;
+
+    channel.onopen = () => {
+      this.handlers.onStatus('connected');
+      if (this.role === 'host' && this.draft) {
+        this.send({ v: PEER_PROTOCOL_VERSION, type: 'hello', draft: this.draft });
+      }
+    };
+    channel.onclose = () => this.handlers.onStatus('disconnected');
+    channel.onmessage = (event) => {
+      this.enqueue(() => this.handleMessage(event.data as string));
+    };
+  }
+
+  /**
+   * Runs a task after the ones already queued, reporting its failure so later tasks still run
+   * @param task - Task to run
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => this.handlers.onError(error instanceof Error ? error.message : 'Unknown error'));
+  }
+
+  /**
+   * Sends a message to the peer
+   * @param message - Message to send
+   */
+  private send(message: PeerMessage): void {
+    if (this.channel?.readyState === 'open') {
+      this.channel.send(encodePeerMessage(message));
+    } else {
+      this.handlers.onError('Not connected to the other player');
+    }
+  }
+
+  /**
+   * Applies a command from this player, then sends it with the resulting state hash
+   * @param command - Command to apply
+   */
+  private async applyLocalCommand(command: DraftCommand): Promise<void> {
+    if (!this.draft) return;
+
+    const activePlayer = getActivePlayer(this.draft.currentPhase);
+    if (activePlayer !== this.seat) {
+      this.handlers.onError(`It is ${activePlayer}'s turn (${this.draft.currentPhase})`);
+      return;
+    }
+
+    const seq = this.draft.history.length;
+    try {
+      this.draft = DraftService.performDraftAction(this.draft, command);
+    } catch (error) {
+      this.handlers.onError(error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+    this.handlers.onState(this.draft);
+
+    const stateHash = await getStateHash(this.draft);
+    this.sentHashes.set(seq, stateHash);
+    this.send({ v: PEER_PROTOCOL_VERSION, type: 'command', seq, command, stateHash });
+  }
+
+  /**
+   * Handles a message from the peer
+   * @param raw - Message text
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    let message: PeerMessage;
+    try {
+      message = decodePeerMessage(raw);
+    } catch (error) {
+      this.handlers.onError(error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (this.role !== 'guest') return;
+        try {
+          this.draft = DraftFileService.validateDraftState(message.draft);
+        } catch (error) {
+          this.handlers.onError(`The host sent an invalid draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return;
+        }
+        this.handlers.onState(this.draft);
+        break;
+      case 'command':
+        await this.applyRemoteCommand(message.seq, message.command, message.stateHash);
+        break;
+      case 'ack': {
+        const expected = this.sentHashes.get(message.seq);
+        this.sentHashes.delete(message.seq);
+        if (expected && expected !== message.stateHash) {
+          this.handlers.onDesync(`The other player's draft differs from yours after move ${message.seq + 1}`);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Applies a command from the peer, compares state hashes and acknowledges it
+   * @param seq - History length the peer applied the command at
+   * @param command - Command the peer applied
+   * @param stateHash - Peer's state hash after applying it
+   */
+  private async applyRemoteCommand(seq: number, command: DraftCommand, stateHash: string): Promise<void> {
+    if (!this.draft) return;
+
+    if (seq !== this.draft.history.length) {
+      this.handlers.onDesync(
+        `The other player sent move ${seq + 1} but this draft is at move ${this.draft.history.length + 1}`
+      );
+      return;
+    }
+
+    const activePlayer = getActivePlayer(this.draft.currentPhase);
+    if (activePlayer === this.seat) {
+      this.handlers.onDesync(`The other player made a move during your turn (${this.draft.currentPhase})`);
+      return;
+    }
+
+    try {
+      this.draft = DraftService.performDraftAction(this.draft, command);
+    } catch (error) {
+      this.handlers.onDesync(
+        `The other player's move could not be applied here: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return;
+    }
+    this.handlers.onState(this.draft);
+
+    const ownHash = await getStateHash(this.draft);
+    if (ownHash !== stateHash) {
+      this.handlers.onDesync(`The other player's draft differs from yours after move ${seq + 1}`);
+    }
+    this.send({ v: PEER_PROTOCOL_VERSION, type: 'ack', seq, stateHash: ownHash });
+  }
+}
@@ -0,0 +1,293 @@
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { PlayerId } from '@/types/draft';
+import { CardSize, getCardDimensions } from '@/constants/cardDimensions';
+import { COLOR_COLUMN_NAMES, COLOR_COLUMN_ORDER } from '@/constants/colors';
+import { getCardImageUrl } from '@/utils/cardImages';
+
+/**
+ * Pixels in one rem, for turning card dimensions into image sizes
+ */
+const REM_PIXELS = 16;
+
+/**
+ * Scale the image is drawn at, so card text stays readable when it is zoomed in
+ */
+const PIXEL_RATIO = 2;
+
+/**
+ * Share of a card's height left showing when the next card is stacked on it (as in the picks view)
+ */
+const STACKED_CARD_SHARE = 0.25;
+
+/**
+ * Layout sizes in pixels (before PIXEL_RATIO)
+ */
+const PADDING = 16;
+const COLUMN_GAP = 8;
+const HEADER_HEIGHT = 56;
+const PLAYER_HEADER_HEIGHT = 32;
+const COLUMN_HEADER_HEIGHT = 36;
+
+/**
+ * Fonts and colors the image is drawn with
+ */
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+const BACKGROUND_COLOR = '#ffffff';
+const TEXT_COLOR = '#111827';
+const MUTED_TEXT_COLOR = '#4b5563';
+const EMPTY_SLOT_COLOR = '#e5e7eb';
+
+/**
+ * One player's pool to draw
+ */
+export interface PoolImagePlayer {
+  /** Player the pool belongs to */
+  player: PlayerId;
+  /** Player's drafted cards organized by color */
+  picks: PlayerPicks;
+}
+
+/**
+ * Draft details shown at the top of the image
+ */
+export interface PoolImageHeader {
+  /** Name of the cube or deck list the draft used */
+  cubeName: string;
+  /** Seed of the draft */
+  seed: string;
+}
+
+/**
+ * Card images already loaded, by URL, so drawing the pools again does not fetch them again
+ */
+const imageCache = new Map<string, Promise<HTMLImageElement | null>>();
+
+/**
+ * Draws drafted pools to PNG images for sharing. Cards are grouped in color
+ * columns and stacked as in the picks view, each player's pool side by side.
+ */
+export class PoolImageService {
+  /**
+   * Draws players' pools to a PNG image
+   * @param players - Pools to draw, left to right
+   * @param header - Cube name and seed shown above the pools
+   * @param cardSize - Size the cards are drawn at
+   * @returns The PNG image
+   * @throws Error if the browser cannot draw or encode the image
+   */
+  static async render(players: PoolImagePlayer[], header: PoolImageHeader, cardSize: CardSize): Promise<Blob> {
+    const dimensions = getCardDimensions(cardSize);
+    const cardWidth = dimensions.width * REM_PIXELS;
+    const cardHeight = dimensions.height * REM_PIXELS;
+    const panels = players.map(({ player, picks }) => ({
+      player,
+      columns: COLOR_COLUMN_ORDER.map(color => ({ color, cards: sortCards(picks[color] ?? []) })),
+    }));
+
+    const panelWidth = COLOR_COLUMN_ORDER.length * cardWidth + (COLOR_COLUMN_ORDER.length - 1) * COLUMN_GAP;
+    const panelHeight = PLAYER_HEADER_HEIGHT + COLUMN_HEADER_HEIGHT + Math.max(
+      ...panels.flatMap(panel => panel.columns.map(column => getStackHeight(column.cards.length, cardHeight)))
+    );
+    const width = PADDING * 2 + panels.length * panelWidth + (panels.length - 1) * PADDING * 2;
+    const height = PADDING * 2 + HEADER_HEIGHT + panelHeight;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PIXEL_RATIO;
+    canvas.height = height * PIXEL_RATIO;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Your browser cannot draw images');
+    }
+    context.scale(PIXEL_RATIO, PIXEL_RATIO);
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, width, height);
+    context.textBaseline = 'top';
+
+    // Header
+    drawText(context, header.cubeName, PADDING, PADDING, `bold 20px ${FONT_FAMILY}`, TEXT_COLOR, width - PADDING * 2);
+    drawText(context, `Seed: ${header.seed}`, PADDING, PADDING + 28, `14px ${FONT_FAMILY}`, MUTED_TEXT_COLOR, width - PADDING * 2);
+
+    const images = await loadCardImages(panels.flatMap(panel => panel.columns.flatMap(column => column.cards)));
+
+    panels.forEach((panel, panelIndex) => {
+      const panelX = PADDING + panelIndex * (panelWidth + PADDING * 2);
+      const panelY = PADDING + HEADER_HEIGHT;
+      const total = panel.columns.reduce((sum, column) => sum + column.cards.length, 0);
+      const playerName = panel.player === 'P1' ? 'Player 1' : 'Player 2';
+      drawText(context, `${playerName} · ${total} cards`, panelX, panelY, `bold 16px ${FONT_FAMILY}`, TEXT_COLOR, panelWidth);
+
+      panel.columns.forEach((column, columnIndex) => {
+        const columnX = panelX + columnIndex * (cardWidth + COLUMN_GAP);
+        const columnY = panelY + PLAYER_HEADER_HEIGHT;
+        context.textAlign = 'center';
+        drawText(context, COLOR_COLUMN_NAMES[column.color], columnX + cardWidth / 2, columnY, `bold 12px ${FONT_FAMILY}`, TEXT_COLOR, cardWidth);
+        drawText(context, String(column.cards.length), columnX + cardWidth / 2, columnY + 16, `12px ${FONT_FAMILY}`, MUTED_TEXT_COLOR, cardWidth);
+        context.textAlign = 'left';
+
+        const stackY = columnY + COLUMN_HEADER_HEIGHT;
+        if (column.cards.length === 0) {
+          context.fillStyle = EMPTY_SLOT_COLOR;
+          context.beginPath();
+          context.roundRect(columnX, stackY, cardWidth, cardHeight, 6);
+          context.fill();
+          return;
+        }
+
+        // Later cards are drawn over the lower part of earlier ones, leaving the last card whole
+        column.cards.forEach((entry, index) => {
+          const cardY = stackY + index * cardHeight * STACKED_CARD_SHARE;
+          drawCard(context, entry, images.get(getCardImageUrl(entry.card)) ?? null, columnX, cardY, cardWidth, cardHeight);
+        });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Could not create the image'));
+        }
+      }, 'image/png');
+    });
+  }
+
+  /**
+   * Gets the file name for an image of players' pools
+   * @param players - Players in the image
+   * @returns File name ending in .png
+   */
+  static getFileName(players: PlayerId[]): string {
+    return players.length === 1 ? `${players[0] === 'P1' ? 'player1' : 'player2'}-pool.png` : 'draft-pools.png';
+  }
+}
+
+/**
+ * Sorts a color column's cards by mana value, then by name
+ * @param cards - Cards in the column
+ * @returns Sorted copy of the cards
+ */
+function sortCards(cards: CardInPool[]): CardInPool[] {
+  return [...cards].sort((a, b) => a.card.cmc - b.card.cmc || a.card.name.localeCompare(b.card.name));
+}
+
+/**
+ * Gets the height a stack of cards takes up
+ * @param count - Number of cards in the stack
+ * @param cardHeight - Height of one card
+ * @returns Height of the stack (one card's height for an empty column)
+ */
+function getStackHeight(count: number, cardHeight: number): number {
+  return cardHeight + Math.max(0, count - 1) * cardHeight * STACKED_CARD_SHARE;
+}
+
+/**
+ * Loads the image of each card, reusing images loaded before
+ * @param cards - Cards to load images for
+ * @returns Loaded images by URL; images that failed to load are left out
+ */
+async function loadCardImages(cards: CardInPool[]): Promise<Map<string, HTMLImageElement>> {
+  const urls = [...new Set(cards.map(entry => getCardImageUrl(entry.card)))];
+  const images = new Map<string, HTMLImageElement>();
+
+  await Promise.all(urls.map(async url => {
+    let image = imageCache.get(url);
+    if (!image) {
+      image = new Promise(resolve => {
+        const element = new Image();
+        // Scryfall allows cross-origin requests; without this the canvas could not be exported
+        element.crossOrigin = 'anonymous';
+        element.onload = () => resolve(element);
+        element.onerror = () => resolve(null);
+        element.src = url;
+      });
+      imageCache.set(url, image);
+    }
+
+    const loaded = await image;
+    if (loaded) {
+      images.set(url, loaded);
+    } else {
+      // Try again next time rather than keeping the failure
+      imageCache.delete(url);
+    }
+  }));
+
+  return images;
+}
+
+/**
+ * Draws one card: its image, or its name on a blank card if the image is missing,
+ * with a badge for the number of copies
+ * @param context - Canvas to draw on
+ * @param entry - Card to draw
+ * @param image - Card's image, or null if it could not be loaded
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param width - Card width
+ * @param height - Card height
+ */
+function drawCard(
+  context: CanvasRenderingContext2D,
+  entry: CardInPool,
+  image: HTMLImageElement | null,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const radius = width * 0.05;
+  context.save();
+  context.beginPath();
+  context.roundRect(x, y, width, height, radius);
+  context.clip();
+  if (image) {
+    context.drawImage(image, x, y, width, height);
+  } else {
+    context.fillStyle = EMPTY_SLOT_COLOR;
+    context.fillRect(x, y, width, height);
+    context.strokeStyle = MUTED_TEXT_COLOR;
+    context.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+    drawText(context, entry.card.name, x + 4, y + 4, `bold 10px ${FONT_FAMILY}`, TEXT_COLOR, width - 8);
+  }
+  context.restore();
+
+  if (entry.quantity > 1) {
+    const badgeRadius = 9;
+    const badgeX = x + width - badgeRadius - 4;
+    const badgeY = y + badgeRadius + 4;
+    context.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    context.beginPath();
+    context.arc(badgeX, badgeY, badgeRadius, 0, Math.PI * 2);
+    context.fill();
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    drawText(context, String(entry.quantity), badgeX, badgeY, `bold 11px ${FONT_FAMILY}`, BACKGROUND_COLOR, badgeRadius * 2);
+    context.textAlign = 'left';
+    context.textBaseline = 'top';
+  }
+}
+
+/**
+ * Draws a line of text, squeezed to fit a width
+ * @param context - Canvas to draw on
+ * @param text - Text to draw
+ * @param x - Position of the text, by the canvas's current alignment
+ * @param y - Position of the text, by the canvas's current baseline
+ * @param font - CSS font
+ * @param color - Text color
+ * @param maxWidth - Widest the text may be
+ */
+function drawText(
+  context: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  font: string,
+  color: string,
+  maxWidth: number
+): void {
+  context.font = font;
+  context.fillStyle = color;
+  context.fillText(text, x, y, maxWidth);
+}
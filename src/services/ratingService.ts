@@ -0,0 +1,399 @@
+import { Card, CardInPool } from '@/types/card';
+import { DraftState } from '@/types/draft';
+import { CardRatings, RatingFallback } from '@/types/ratings';
+import { DEFAULT_RATING_FALLBACK, RATING_SCALE_MAX } from '@/constants/ratings';
+import { reviveDate } from '@/utils/draftSerialization';
+import { parseShortSeed } from '@/utils/seedUtils';
+import { parseCsvLine } from '@/utils/csv';
+
+/**
+ * Key under which imported ratings are kept, as a map from pool key to ratings
+ */
+const RATINGS_STORAGE_KEY = 'solomon-draft-ratings';
+
+/**
+ * Key under which the fallback rating settings are kept
+ */
+const FALLBACK_STORAGE_KEY = 'solomon-draft-rating-fallback';
+
+/**
+ * Pool key used for drafts whose cards do not come from a cube or deck that can be reloaded
+ */
+const CUSTOM_POOL_KEY = 'custom';
+
+/**
+ * Column headers recognized in rating CSV files (compared in lower case)
+ */
+const NAME_HEADERS = ['name', 'card', 'card name', 'cardname'];
+const SCORE_HEADERS = ['rating', 'score', 'elo', 'value', 'overall'];
+const ARCHETYPE_HEADERS = ['archetype', 'colors', 'color pair', 'colour pair', 'pair'];
+
+/**
+ * Order colors are written in when a color pair is used as an archetype
+ */
+const COLOR_ORDER = 'WUBRG';
+
+/**
+ * Scores read from a file, before they are scaled and stored
+ */
+interface ParsedRatings {
+  scores: Record<string, number>;
+  archetypeScores: Record<string, Record<string, number>>;
+}
+
+/**
+ * Gets the key ratings are stored under for a draft's pool
+ * @param draft - Draft to find the pool of
+ * @returns "<site>:<id>" for drafts from a Moxfield deck or CubeCobra cube, otherwise "custom"
+ */
+export function getRatingPoolKey(draft: DraftState): string {
+  const source = parseShortSeed(draft.settings.seed)?.source;
+  return source ? `${source.type}:${source.id}` : CUSTOM_POOL_KEY;
+}
+
+/**
+ * Service for card ratings used by bots and shown in the draft.
+ * Ratings are imported per cube from a CSV or JSON file (card name to score,
+ * optionally per archetype or color pair) or a CubeCobra cube export, and kept
+ * in localStorage. Cards without an imported rating get an estimate from their
+ * rarity and mana value.
+ */
+class RatingService {
+  private active: CardRatings | null = null;
+  private fallback: RatingFallback = loadFallback();
+
+  /**
+   * Switches lookups to the ratings stored for a pool
+   * @param poolKey - Pool to use ratings for, or null for none
+   * @returns The pool's ratings, or null if none were imported
+   */
+  setActivePool(poolKey: string | null): CardRatings | null {
+    this.active = poolKey ? loadAllRatings()[poolKey] ?? null : null;
+    return this.active;
+  }
+
+  /**
+   * Gets the ratings lookups currently use
+   * @returns The active ratings, or null if none are loaded
+   */
+  getActiveRatings(): CardRatings | null {
+    return this.active;
+  }
+
+  /**
+   * Imports ratings from a file's contents, stores them for a pool and makes them active
+   * @param poolKey - Pool the ratings belong to
+   * @param text - CSV or JSON file contents
+   * @param source - File name, shown with the ratings
+   * @returns The imported ratings
+   * @throws Error if the file contains no ratings
+   */
+  importRatings(poolKey: string, text: string, source: string): CardRatings {
+    const parsed = parseRatingsFile(text);
+    if (Object.keys(parsed.scores).length === 0 && Object.keys(parsed.archetypeScores).length === 0) {
+      throw new Error('No card ratings found in the file');
+    }
+
+    const ratings: CardRatings = {
+      poolKey,
+      source,
+      importedAt: new Date(),
+      ...scaleRatings(parsed),
+    };
+
+    saveAllRatings({ ...loadAllRatings(), [poolKey]: ratings });
+    this.active = ratings;
+    return ratings;
+  }
+
+  /**
+   * Deletes the ratings stored for a pool
+   * @param poolKey - Pool to remove ratings for
+   */
+  removeRatings(poolKey: string): void {
+    const { [poolKey]: removed, ...rest } = loadAllRatings();
+    if (removed) saveAllRatings(rest);
+    if (this.active?.poolKey === poolKey) this.active = null;
+  }
+
+  /**
+   * Gets a card's rating, falling back to an estimate for unrated cards
+   * @param card - Card to rate
+   * @param archetype - Archetype or color pair to prefer a score for, if the ratings have one
+   * @returns Rating from 0 to 5
+   */
+  getRating(card: Card, archetype?: string): number {
+    const name = normalizeCardName(card.name);
+    if (archetype) {
+      const score = this.active?.archetypeScores[normalizeArchetype(archetype)]?.[name];
+      if (score !== undefined) return score;
+    }
+    return this.active?.scores[name] ?? this.getFallbackRating(card);
+  }
+
+  /**
+   * Checks whether a card has an imported rating
+   * @param card - Card to check
+   * @returns True if the active ratings cover the card
+   */
+  hasRating(card: Card): boolean {
+    return this.active?.scores[normalizeCardName(card.name)] !== undefined;
+  }
+
+  /**
+   * Sums the ratings of a list of cards, such as a pile
+   * @param cards - Cards to rate
+   * @returns Total rating, counting every copy
+   */
+  getTotalRating(cards: CardInPool[]): number {
+    return cards.reduce((total, entry) => total + this.getRating(entry.card) * entry.quantity, 0);
+  }
+
+  /**
+   * Estimates a rating from a card's rarity and mana value
+   * @param card - Card to rate
+   * @returns Estimated rating
+   */
+  getFallbackRating(card: Card): number {
+    const { rarityRatings, cheapMaxCmc, cheapBonus, expensiveMinCmc, expensivePenalty } = this.fallback;
+    const base = rarityRatings[card.rarity] ?? rarityRatings.common ?? 0;
+    if (card.cmc >= expensiveMinCmc) return base - expensivePenalty;
+    if (card.cmc <= cheapMaxCmc) return base + cheapBonus;
+    return base;
+  }
+
+  /**
+   * Gets the settings used to estimate ratings for unrated cards
+   * @returns Fallback settings
+   */
+  getFallback(): RatingFallback {
+    return this.fallback;
+  }
+
+  /**
+   * Changes how ratings are estimated for unrated cards, and remembers the change
+   * @param fallback - Settings to change
+   */
+  setFallback(fallback: Partial<RatingFallback>): void {
+    this.fallback = { ...this.fallback, ...fallback };
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(this.fallback));
+  }
+}
+
+/**
+ * Normalizes a card name for lookup: lower case, front face only
+ * @param name - Card name as written in a file or on a card
+ * @returns Lookup key
+ */
+function normalizeCardName(name: string): string {
+  return name.split(' // ')[0].trim().toLowerCase();
+}
+
+/**
+ * Normalizes an archetype name. Color pairs are written in WUBRG order ("UW" becomes "WU").
+ * @param archetype - Archetype or color pair
+ * @returns Lookup key
+ */
+function normalizeArchetype(archetype: string): string {
+  const trimmed = archetype.trim();
+  if (/^[wubrg]+$/i.test(trimmed)) {
+    return [...trimmed.toUpperCase()].sort((a, b) => COLOR_ORDER.indexOf(a) - COLOR_ORDER.indexOf(b)).join('');
+  }
+  return trimmed.toLowerCase();
+}
+
+/**
+ * Reads every pool's stored ratings
+ * @returns Ratings keyed by pool key
+ */
+function loadAllRatings(): Record<string, CardRatings> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RATINGS_STORAGE_KEY) ?? '{}') as Record<string, CardRatings>;
+    return Object.fromEntries(
+      Object.entries(stored).map(([key, ratings]) => [key, { ...ratings, importedAt: reviveDate(ratings.importedAt) }])
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stores every pool's ratings
+ * @param ratings - Ratings keyed by pool key
+ * @throws Error if browser storage is full
+ */
+function saveAllRatings(ratings: Record<string, CardRatings>): void {
+  try {
+    localStorage.setItem(RATINGS_STORAGE_KEY, JSON.stringify(ratings));
+  } catch {
+    throw new Error('Not enough browser storage to keep these ratings. Remove ratings for other cubes first.');
+  }
+}
+
+/**
+ * Reads the stored fallback settings
+ * @returns Fallback settings, with defaults for anything not stored
+ */
+function loadFallback(): RatingFallback {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(FALLBACK_STORAGE_KEY);
+    return { ...DEFAULT_RATING_FALLBACK, ...(stored ? (JSON.parse(stored) as Partial<RatingFallback>) : {}) };
+  } catch {
+    return DEFAULT_RATING_FALLBACK;
+  }
+}
+
+/**
+ * Scales scores to 0-5 when the file uses another scale (such as Elo or 0-100)
+ * @param parsed - Scores as read from the file
+ * @returns Scores on the 0-5 scale
+ */
+function scaleRatings(parsed: ParsedRatings): ParsedRatings {
+  const values = [
+    ...Object.values(parsed.scores),
+    ...Object.values(parsed.archetypeScores).flatMap(scores => Object.values(scores)),
+  ];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min >= 0 && max <= RATING_SCALE_MAX) return parsed;
+
+  const scale = (scores: Record<string, number>): Record<string, number> =>
+    Object.fromEntries(
+      Object.entries(scores).map(([name, value]) => [
+        name,
+        max === min ? RATING_SCALE_MAX / 2 : ((value - min) / (max - min)) * RATING_SCALE_MAX,
+      ])
+    );
+
+  return {
+    scores: scale(parsed.scores),
+    archetypeScores: Object.fromEntries(
+      Object.entries(parsed.archetypeScores).map(([archetype, scores]) => [archetype, scale(scores)])
+    ),
+  };
+}
+
+/**
+ * Parses a rating file in any supported format
+ * @param text - File contents
+ * @returns Scores read from the file
+ * @throws Error if JSON content is malformed
+ */
+function parseRatingsFile(text: string): ParsedRatings {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Ratings file is not valid JSON');
+    }
+    return parseRatingsJson(json);
+  }
+  return parseRatingsCsv(trimmed);
+}
+
+/**
+ * Adds one score to parsed ratings
+ * @param ratings - Ratings being built
+ * @param name - Card name
+ * @param value - Score (ignored if not a finite number)
+ * @param archetype - Archetype the score is for, or undefined for the overall score
+ */
+function addScore(ratings: ParsedRatings, name: unknown, value: unknown, archetype?: string): void {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof name !== 'string' || !name.trim() || typeof score !== 'number' || !Number.isFinite(score)) return;
+
+  if (archetype && archetype.trim()) {
+    const key = normalizeArchetype(archetype);
+    ratings.archetypeScores[key] = { ...ratings.archetypeScores[key], [normalizeCardName(name)]: score };
+  } else {
+    ratings.scores[normalizeCardName(name)] = score;
+  }
+}
+
+/**
+ * Reads ratings from JSON: a CubeCobra cube export (cards with details.elo),
+ * a list of { name, rating, archetype? } records, or a map from card name to
+ * a score or to { rating, <archetype>: score }
+ * @param json - Parsed JSON
+ * @returns Scores read from the file
+ */
+function parseRatingsJson(json: unknown): ParsedRatings {
+  const ratings: ParsedRatings = { scores: {}, archetypeScores: {} };
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const pick = (record: Record<string, unknown>, keys: string[]): unknown =>
+    keys.map(key => record[key]).find(value => value !== undefined);
+
+  // CubeCobra exports keep cards in "cards", either as a list or split into boards
+  const cubeCards = isRecord(json) && (Array.isArray(json.cards) ? json.cards : isRecord(json.cards) ? json.cards.mainboard : null);
+  const records = Array.isArray(cubeCards) ? cubeCards : Array.isArray(json) ? json : null;
+
+  if (records) {
+    for (const record of records) {
+      if (!isRecord(record)) continue;
+      const details = isRecord(record.details) ? record.details : {};
+      // Cube card records have a colors field of their own, so only plain lists name archetypes
+      const archetype = Array.isArray(cubeCards) ? undefined : pick(record, ARCHETYPE_HEADERS);
+      addScore(
+        ratings,
+        pick(details, NAME_HEADERS) ?? pick(record, NAME_HEADERS),
+        pick(details, SCORE_HEADERS) ?? pick(record, SCORE_HEADERS),
+        typeof archetype === 'string' ? archetype : undefined
+      );
+    }
+    return ratings;
+  }
+
+  if (isRecord(json)) {
+    for (const [name, value] of Object.entries(json)) {
+      if (!isRecord(value)) {
+        addScore(ratings, name, value);
+        continue;
+      }
+      for (const [key, score] of Object.entries(value)) {
+        addScore(ratings, name, score, SCORE_HEADERS.includes(key.toLowerCase()) ? undefined : key);
+      }
+    }
+  }
+
+  return ratings;
+}
+
+/**
+ * Reads ratings from CSV. With a header row, the name and score columns are found
+ * by name; an archetype column, or extra columns named after color pairs (e.g. "WU"),
+ * give per-archetype scores. Without a header, rows are "name,score[,archetype]".
+ * @param text - CSV contents
+ * @returns Scores read from the file
+ */
+function parseRatingsCsv(text: string): ParsedRatings {
+  const ratings: ParsedRatings = { scores: {}, archetypeScores: {} };
+  const rows = text.split(/\r?\n/).filter(line => line.trim()).map(parseCsvLine);
+  if (rows.length === 0) return ratings;
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const nameColumn = header.findIndex(cell => NAME_HEADERS.includes(cell));
+  const hasHeader = nameColumn >= 0;
+
+  const scoreColumn = hasHeader ? header.findIndex(cell => SCORE_HEADERS.includes(cell)) : 1;
+  const archetypeColumn = hasHeader ? header.findIndex(cell => ARCHETYPE_HEADERS.includes(cell)) : 2;
+  const colorPairColumns = hasHeader
+    ? header.flatMap((cell, index) => (/^[wubrg]{2,}$/.test(cell) ? [index] : []))
+    : [];
+
+  for (const row of rows.slice(hasHeader ? 1 : 0)) {
+    const name = row[hasHeader ? nameColumn : 0];
+    if (scoreColumn >= 0) {
+      addScore(ratings, name, row[scoreColumn], archetypeColumn >= 0 ? row[archetypeColumn] : undefined);
+    }
+    for (const column of colorPairColumns) {
+      addScore(ratings, name, row[column], header[column]);
+    }
+  }
+
+  return ratings;
+}
+
+export const ratingService = new RatingService();
@@ -298,6 +298,37 @@ class ScryfallService {
     return data.data || [];
   }
 
+  /**
+   * Fetches specific printings by set code and collector number
+   * @param printings - Printings to fetch
+   * @returns Promise resolving to array of found Card objects (excludes printings not found)
+   */
+  async fetchCardsByPrintings(printings: Array<{ set: string; collectorNumber: string }>): Promise<Card[]> {
+    if (printings.length === 0) return [];
+
+    const batchSize = 75; // Scryfall's collection endpoint limit
+    const cards: Card[] = [];
+
+    for (let i = 0; i < printings.length; i += batchSize) {
+      const batch = printings.slice(i, i + batchSize);
+      const data = await this.makeRequest<{ data: Card[], not_found: any[] }>('/cards/collection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          identifiers: batch.map(printing => ({ set: printing.set, collector_number: printing.collectorNumber }))
+        })
+      });
+
+      if (data.not_found && data.not_found.length > 0) {
+        console.warn('Printings not found:', data.not_found);
+      }
+
+      cards.push(...(data.data || []));
+    }
+
+    return cards;
+  }
+
   /**
    * Converts a deck list string (format: "4 Lightning Bolt") into CardInPool objects
    * @param deckList - The deck list string with quantity and card name on each line
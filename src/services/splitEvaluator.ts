@@ -0,0 +1,325 @@
+import { CardInPool, CardInstance } from '@/types/card';
+import { DraftState, PlayerId } from '@/types/draft';
+import { getActivePlayer } from '@/utils/turnTokens';
+import { hasSplitRules, resolveSplitRules, ResolvedSplitRules } from '@/utils/splitRules';
+import { ratingService } from './ratingService';
+
+/**
+ * Number of picks after which a player is treated as settled into two colors
+ */
+const COLOR_COMMIT_PICKS = 6;
+
+/**
+ * Value kept by a card outside a player's colors, as a fraction of its rating
+ */
+const OFF_COLOR_FACTOR = 0.4;
+
+/**
+ * Largest pack every split is tried for; bigger packs are split greedily
+ */
+const MAX_SEARCHED_PACK_SIZE = 14;
+
+/**
+ * Value differences smaller than this are treated as rounding error
+ */
+const VALUE_EPSILON = 1e-6;
+
+/**
+ * Values a card in the pool for one player
+ */
+export type CardValuer = (entry: CardInPool) => number;
+
+/**
+ * Two piles' cards, in pile order
+ */
+export type SplitCards = [CardInstance[], CardInstance[]];
+
+/**
+ * A split of any shape: each pile's cards in pile order, and the cards put in the burn pile
+ */
+export interface SplitProposal {
+  /** Cards of each pile the chooser picks from */
+  piles: CardInstance[][];
+  /** Cards in the burn pile */
+  burned: CardInstance[];
+}
+
+/**
+ * How a split looks to the player who will choose a pile
+ */
+export interface SplitEvaluation {
+  /** Player who chooses between the piles */
+  chooser: PlayerId;
+  /** Value of each pile to the chooser */
+  pileValues: number[];
+  /** Difference between the most and least valuable piles */
+  gap: number;
+  /** Cards not yet assigned to a pile */
+  unassigned: number;
+}
+
+/**
+ * Scores Solomon splits from the chooser's point of view, using their picks
+ * so far, the colors those picks settle into and the cube's card ratings.
+ * The bots use the same valuation, so a split the evaluator calls even is one
+ * a bot chooser has no clear preference in.
+ */
+export class SplitEvaluator {
+  /**
+   * Works out the two colors a player is drafting from their picks so far
+   * @param draft - Current draft state
+   * @param seat - Player to look at
+   * @returns The player's main colors, or an empty list if they have not settled yet
+   */
+  static getPlayerColors(draft: DraftState, seat: PlayerId): string[] {
+    const picks = Object.values(seat === 'P1' ? draft.p1Picks : draft.p2Picks).flat();
+    if (picks.reduce((total, entry) => total + entry.quantity, 0) < COLOR_COMMIT_PICKS) {
+      return [];
+    }
+
+    const weights: Record<string, number> = {};
+    for (const entry of picks) {
+      for (const color of entry.card.color_identity) {
+        weights[color] = (weights[color] ?? 0) + ratingService.getRating(entry.card) * entry.quantity;
+      }
+    }
+
+    return Object.entries(weights)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 2)
+      .map(([color]) => color);
+  }
+
+  /**
+   * Creates a function that values cards for a player
+   * @param draft - Current draft state
+   * @param seat - Player whose value is being estimated
+   * @param colorAware - Whether cards outside the player's colors are worth less
+   * @returns Card valuer
+   */
+  static createValuer(draft: DraftState, seat: PlayerId, colorAware = true): CardValuer {
+    const colors = colorAware ? this.getPlayerColors(draft, seat) : [];
+    // Ratings for the player's color pair are used when the imported ratings have them
+    const archetype = colors.length === 2 ? colors.join('') : undefined;
+
+    return (entry: CardInPool): number => {
+      const fits = colors.length === 0 || entry.card.color_identity.every(color => colors.includes(color));
+      return ratingService.getRating(entry.card, archetype) * (fits ? 1 : OFF_COLOR_FACTOR) * entry.quantity;
+    };
+  }
+
+  /**
+   * Gets the player who will choose between the piles of the pack being split
+   * @param draft - Current draft state
+   * @returns The player who is not splitting
+   */
+  static getChooser(draft: DraftState): PlayerId {
+    return getActivePlayer(draft.currentPhase) === 'P1' ? 'P2' : 'P1';
+  }
+
+  /**
+   * Scores a split, complete or in progress, for the chooser
+   * @param draft - Current draft state, with the pack being split
+   * @param split - Cards assigned to each pile and to the burn pile so far
+   * @returns Evaluation of the split
+   */
+  static evaluateSplit(draft: DraftState, split: SplitProposal): SplitEvaluation {
+    const chooser = this.getChooser(draft);
+    const value = this.createValuer(draft, chooser);
+    const pileValues = split.piles.map(pile => sumValues(pile, value));
+    const packSize = draft.activePack?.cards.length ?? 0;
+    const assigned = split.piles.reduce((total, pile) => total + pile.length, split.burned.length);
+
+    return {
+      chooser,
+      pileValues,
+      gap: Math.max(...pileValues) - Math.min(...pileValues),
+      unassigned: Math.max(0, packSize - assigned),
+    };
+  }
+
+  /**
+   * Proposes the most balanced split of the pack being split, as valued by the
+   * chooser, following the draft's split rules
+   * @param draft - Current draft state, with the pack being split
+   * @returns The piles' cards (the burn pile is only used for cards no pile has room for)
+   * @throws Error if there is no pack with at least two cards to split
+   */
+  static suggestSplit(draft: DraftState): SplitProposal {
+    const cards = draft.activePack?.cards ?? [];
+    if (cards.length < 2) {
+      throw new Error('There is no pack to split');
+    }
+
+    const value = this.createValuer(draft, this.getChooser(draft));
+    if (hasSplitRules(draft.settings.splitRules)) {
+      return this.dealPiles(cards, value, resolveSplitRules(draft.settings.splitRules));
+    }
+
+    // Among equally balanced splits, prefer piles of similar size
+    const best = this.searchSplits(cards, (first, second) =>
+      -Math.abs(sumValues(first, value) - sumValues(second, value))
+        - Math.abs(first.length - second.length) * VALUE_EPSILON
+    );
+
+    return { piles: best ?? this.refineSplit(this.balanceSplit(cards, value), value), burned: [] };
+  }
+
+  /**
+   * Deals cards into piles of as near equal value as the split rules allow,
+   * taking the most valuable card first and adding it to the pile worth the
+   * least that still has room. Cards no pile has room for go to the burn pile,
+   * and piles below the fewest cards allowed are topped up from the biggest piles.
+   * @param cards - Cards in the pack
+   * @param value - Card valuer to balance by
+   * @param rules - Split rules (assumed to fit the pack size)
+   * @returns The piles' cards and any burned cards
+   */
+  static dealPiles(cards: CardInstance[], value: CardValuer, rules: ResolvedSplitRules): SplitProposal {
+    const piles: CardInstance[][] = Array.from({ length: rules.pileCount }, () => []);
+    const totals: number[] = piles.map(() => 0);
+    const burned: CardInstance[] = [];
+
+    for (const entry of [...cards].sort((a, b) => value(b) - value(a))) {
+      const open = piles
+        .map((_, index) => index)
+        .filter(index => rules.maxPileSize === undefined || piles[index].length < rules.maxPileSize);
+      if (open.length === 0) {
+        burned.push(entry);
+        continue;
+      }
+
+      const target = open.reduce((best, index) =>
+        totals[index] < totals[best] || (totals[index] === totals[best] && piles[index].length < piles[best].length)
+          ? index
+          : best
+      );
+      piles[target].push(entry);
+      totals[target] += value(entry);
+    }
+
+    // Each move takes the least valuable card (dealt last) from the biggest pile
+    let short = piles.findIndex(pile => pile.length < rules.minPileSize);
+    while (short !== -1) {
+      const donor = piles.reduce((best, pile, index) => (pile.length > piles[best].length ? index : best), 0);
+      piles[short].push(piles[donor].pop()!);
+      short = piles.findIndex(pile => pile.length < rules.minPileSize);
+    }
+
+    return { piles, burned };
+  }
+
+  /**
+   * Tries every split of a pack and keeps the best scoring one
+   * @param cards - Cards in the pack
+   * @param score - Scores a split; higher is better
+   * @returns The best split, or null if the pack is too big to try every split
+   */
+  static searchSplits(
+    cards: CardInstance[],
+    score: (first: CardInstance[], second: CardInstance[]) => number
+  ): SplitCards | null {
+    if (cards.length > MAX_SEARCHED_PACK_SIZE) {
+      return null;
+    }
+
+    let best: SplitCards | null = null;
+    let bestScore = -Infinity;
+
+    // The last card always goes in the second pile, so each split is tried once
+    const splits = 2 ** (cards.length - 1);
+    for (let mask = 1; mask < splits; mask++) {
+      const first = cards.filter((_, index) => mask & (1 << index));
+      const second = cards.filter((_, index) => !(mask & (1 << index)));
+      const splitScore = score(first, second);
+
+      if (splitScore > bestScore) {
+        best = [first, second];
+        bestScore = splitScore;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Narrows the value gap of a split by swapping pairs of cards between the
+   * piles, or moving single cards, until no such change helps
+   * @param piles - Split to improve
+   * @param value - Card valuer to balance by
+   * @returns The improved split
+   */
+  private static refineSplit(piles: SplitCards, value: CardValuer): SplitCards {
+    const [first, second] = [[...piles[0]], [...piles[1]]];
+    let difference = sumValues(first, value) - sumValues(second, value);
+
+    for (let improved = true; improved; ) {
+      improved = false;
+      // Changes must beat the current gap by more than rounding error, so swaps cannot repeat
+      let bestGap = Math.abs(difference) - VALUE_EPSILON;
+      let bestChange: [number, number] | null = null;
+
+      // An index of -1 means no card from that pile, so single moves are tried alongside swaps
+      for (let i = -1; i < first.length; i++) {
+        for (let j = -1; j < second.length; j++) {
+          const fromFirst = i >= 0 ? value(first[i]) : 0;
+          const fromSecond = j >= 0 ? value(second[j]) : 0;
+          const leavesEmpty =
+            (i >= 0 && j < 0 && first.length === 1) || (j >= 0 && i < 0 && second.length === 1);
+          const gap = Math.abs(difference - 2 * fromFirst + 2 * fromSecond);
+          if (!leavesEmpty && gap < bestGap) {
+            bestGap = gap;
+            bestChange = [i, j];
+          }
+        }
+      }
+
+      if (bestChange) {
+        const [i, j] = bestChange;
+        const moving = i >= 0 ? first.splice(i, 1) : [];
+        const returning = j >= 0 ? second.splice(j, 1) : [];
+        first.push(...returning);
+        second.push(...moving);
+        difference = sumValues(first, value) - sumValues(second, value);
+        improved = true;
+      }
+    }
+
+    return [first, second];
+  }
+
+  /**
+   * Deals cards into two piles of as near equal value as possible, taking the
+   * most valuable card first and always adding to the pile worth less
+   * @param cards - Cards in the pack
+   * @param value - Card valuer to balance by
+   * @returns The two piles' cards
+   */
+  static balanceSplit(cards: CardInstance[], value: CardValuer): SplitCards {
+    const piles: SplitCards = [[], []];
+    const totals = [0, 0];
+
+    for (const entry of [...cards].sort((a, b) => value(b) - value(a))) {
+      const target = totals[0] <= totals[1] ? 0 : 1;
+      piles[target].push(entry);
+      totals[target] += value(entry);
+    }
+
+    // Cards rated zero can all land in the first pile; each pile needs at least one card
+    if (piles[1].length === 0) {
+      piles[1].push(piles[0].pop()!);
+    }
+
+    return piles;
+  }
+}
+
+/**
+ * Adds up the value of a list of cards
+ * @param cards - Cards to value
+ * @param value - Card valuer
+ * @returns Total value
+ */
+export function sumValues(cards: CardInPool[], value: CardValuer): number {
+  return cards.reduce((total, entry) => total + value(entry), 0);
+}
@@ -93,6 +93,18 @@ export interface CardInPool {
   quantity: number;
 }
 
+/**
+ * Represents one copy of a card in a draft.
+ * The pool is expanded into instances so every copy can be dealt, put in a
+ * pile and picked on its own, even when several share the same printing.
+ * Instances have a quantity of 1, except in drafts saved before instances
+ * existed, whose pool entries keep the quantity they were dealt with.
+ */
+export interface CardInstance extends CardInPool {
+  /** Identifier of this copy, unique within the draft (see getInstanceId) */
+  instanceId: string;
+}
+
 /**
  * Represents a pile of cards during the splitting phase.
  * Each pile has an ID and contains cards assigned to it.
@@ -101,7 +113,7 @@ export interface Pile {
   /** Unique identifier for the pile */
   id: string;
   /** Cards assigned to this pile */
-  cards: CardInPool[];
+  cards: CardInstance[];
 }
 
 /**
@@ -112,7 +124,7 @@ export interface Pack {
   /** Unique identifier for the pack */
   id: string;
   /** Cards in this pack */
-  cards: CardInPool[];
+  cards: CardInstance[];
   /** Whether this pack is currently being drafted */
   isActive: boolean;
   /** Piles created during the splitting phase (optional) */
@@ -131,7 +143,7 @@ export type ColorIdentity = 'W' | 'U' | 'B' | 'R' | 'G' | 'C' | 'M';
  */
 export interface PlayerPicks {
   /** Cards organized by color identity */
-  [key: string]: CardInPool[]; // key is color identity
+  [key: string]: CardInstance[]; // key is color identity
 }
 
 
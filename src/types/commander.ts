@@ -0,0 +1,53 @@
+/**
+ * Commander limited deck types. The format lets any two monocolored creatures
+ * a player drafted be their commanders; every other card in the 60-card deck
+ * must fit within the commanders' combined color identity.
+ */
+
+import { Card, CardInPool } from './card';
+
+/**
+ * Two drafted creatures that can lead a deck together
+ */
+export interface CommanderPair {
+  /** The two commanders */
+  commanders: [Card, Card];
+  /** Combined color identity of the commanders, in WUBRG order */
+  colorIdentity: string[];
+  /** Number of other drafted cards playable with this pair */
+  playableCount: number;
+}
+
+/**
+ * Legality of a player's picks as a deck for one commander pair
+ */
+export interface CommanderDeckReport {
+  /** The commander pair the picks were checked against */
+  pair: CommanderPair;
+  /** Drafted cards within the commanders' color identity, commanders excluded */
+  playable: CardInPool[];
+  /** Drafted cards outside the commanders' color identity */
+  offIdentity: CardInPool[];
+  /** Basic lands needed to fill the deck up to its full size */
+  basicsNeeded: number;
+  /** Whether the deck can reach its full size without more basics than a deck would run */
+  isReachable: boolean;
+}
+
+/**
+ * How well a player's picks support decks in one two-color pair
+ */
+export interface ColorPairStats {
+  /** The two colors, in WUBRG order */
+  colors: [string, string];
+  /** Drafted cards within the pair's color identity, commander candidates included */
+  playableCount: number;
+  /** Drafted monocolored creatures of either color that could be commanders */
+  commanderCount: number;
+  /** Whether there is a commander candidate of each color, so the pair's full identity is open */
+  hasCommanders: boolean;
+  /** Playable cards that came from the player's most recent pick */
+  lastPickPlayable: number;
+  /** Commander candidates that came from the player's most recent pick */
+  lastPickCommanders: number;
+}
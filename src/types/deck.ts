@@ -0,0 +1,61 @@
+/**
+ * Deckbuilding types. After the draft each player builds a commander limited
+ * deck from their picks; picks not in the main deck or used as commanders
+ * make up the sideboard.
+ */
+
+import { CardInPool } from './card';
+
+/**
+ * A player's deck built from their picks
+ */
+export interface DeckBuild {
+  /** IDs of the chosen commanders (up to two) */
+  commanderIds: string[];
+  /** Copies of each drafted card in the main deck, keyed by card ID */
+  mainDeck: Record<string, number>;
+  /** Basic lands added to the main deck, keyed by color (W, U, B, R, G) */
+  basicLands: Record<string, number>;
+}
+
+/**
+ * A deck's drafted cards, split by where they are
+ */
+export interface DeckCards {
+  /** The chosen commanders */
+  commanders: CardInPool[];
+  /** Drafted cards in the main deck (basic lands not included) */
+  mainDeck: CardInPool[];
+  /** Drafted cards left out of the deck */
+  sideboard: CardInPool[];
+}
+
+/**
+ * File formats decks and pools can be exported to and imported from
+ */
+export type DeckFileFormat = 'text' | 'mtgo' | 'arena' | 'cockatrice' | 'csv';
+
+/**
+ * Part of a deck a card is in
+ */
+export type DeckSection = 'commander' | 'main' | 'sideboard';
+
+/**
+ * One line of an exported deck: a card, how many copies and where they go
+ */
+export interface DeckFileEntry {
+  /** Part of the deck the copies are in */
+  section: DeckSection;
+  /** Number of copies */
+  quantity: number;
+  /** Card name */
+  name: string;
+  /** Set code of the printing, if known */
+  set?: string;
+  /** Collector number of the printing, if known */
+  collectorNumber?: string;
+  /** Scryfall ID of the printing, if known */
+  scryfallId?: string;
+  /** Color identity of the card (e.g. ["W", "U"]), if known */
+  colorIdentity?: string[];
+}
@@ -1,25 +1,150 @@
-import { CardInPool, Pile, Pack, PlayerPicks } from './card';
+import { CardInPool, CardInstance, ColorIdentity, Pile, Pack, PlayerPicks } from './card';
+import { DeckBuild } from './deck';
 
 /**
  * Draft types and interfaces for the Solomon Draft format
  * These define the structure of draft state, actions, and game flow
  */
 
+/**
+ * Identifies one of the two players in a draft
+ */
+export type PlayerId = 'P1' | 'P2';
+
+/**
+ * Two-player draft formats. In Solomon, one player splits a pack into two
+ * piles and the other chooses one. In Winston, players take turns looking at
+ * three face-down piles fed from the pool, taking a pile or passing it. In
+ * grid, nine cards are laid out 3×3 and each player takes a row or column.
+ */
+export type DraftFormat = 'solomon' | 'winston' | 'grid';
+
+/**
+ * A row or column of a 3×3 grid, numbered from the top left
+ */
+export type GridLine = `${'row' | 'col'}-${1 | 2 | 3}`;
+
+/**
+ * How strongly a bot opponent plays
+ */
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Commit-reveal record of a fair start, where both players supplied entropy for the pool shuffle
+ */
+export interface FairStart {
+  /** SHA-256 commitment the first player sent before seeing the other's entropy */
+  commitment: string;
+  /** Entropy revealed by the committing player */
+  committerEntropy: string;
+  /** Entropy supplied by the responding player */
+  responderEntropy: string;
+}
+
+/**
+ * One slot of a pack template: a card of a color group (W, U, B, R, G,
+ * C for colorless, M for multicolor) or, for "*", any card
+ */
+export type CollationSlot = ColorIdentity | '*';
+
+/**
+ * Rules for building packs from the shuffled pool. Without any rules, packs
+ * are dealt straight from the top of the shuffle.
+ */
+export interface PackCollation {
+  /** Spread each color group as evenly across the packs as the pool allows */
+  balanceColors?: boolean;
+  /** Spread each rarity as evenly across the packs as the pool allows */
+  spreadRarities?: boolean;
+  /** Most lands in one pack */
+  maxLands?: number;
+  /** Most colorless cards in one pack */
+  maxColorless?: number;
+  /** Slots every pack is filled from, in order; slots past its end take any card */
+  template?: CollationSlot[];
+}
+
+/**
+ * Variant rules for Solomon splits. Without any rules, a pack is split into
+ * two piles of at least one card each.
+ */
+export interface SplitRules {
+  /** Piles the splitter makes; the chooser takes one and the splitter the rest (2 if not set) */
+  pileCount?: number;
+  /** Fewest cards in each pile (1 if not set) */
+  minPileSize?: number;
+  /** Most cards in each pile */
+  maxPileSize?: number;
+  /** Whether the splitter may also put cards in a burn pile, which no one drafts */
+  burnPile?: boolean;
+}
+
 /**
  * Configuration settings for a draft session.
  * Defines the parameters that control how the draft is conducted.
  */
 export interface DraftSettings {
-  /** Number of cards per pack */
+  /** Draft format (Solomon if not set) */
+  format?: DraftFormat;
+  /** Number of cards per pack (always 9 in grid, one card per grid position) */
   packSize: number;
   /** Number of rounds to draft (each round = 2 packs) */
   numberOfRounds: number;
+  /** Player who splits the first pack of each round */
+  firstSplitter: PlayerId;
   /** Total number of cards in the draft pool */
   poolSize: number;
   /** Seed string for reproducible draft order */
   seed: string;
+  /** Fair start record, if both players contributed to the shuffle */
+  fairStart?: FairStart;
+  /** Difficulty of the bot playing each seat (seats without an entry are played by people) */
+  bots?: Partial<Record<PlayerId, BotDifficulty>>;
+  /** Rules the packs were built by, if they were not dealt straight from the shuffle */
+  collation?: PackCollation;
+  /** Solomon split variant, if packs are not split into two piles */
+  splitRules?: SplitRules;
 }
 
+/**
+ * Settings chosen by the players before a draft starts.
+ * The pool size and seed are derived when the draft is created.
+ */
+export type DraftOptions = Omit<DraftSettings, 'poolSize' | 'seed' | 'fairStart'>;
+
+/**
+ * Phases of a draft. The first part names the active player, the second
+ * whether they are splitting a pack or choosing a pile (Solomon), looking
+ * at the piles (Winston) or picking a row or column (grid).
+ */
+export type DraftPhase =
+  | 'P1-split'
+  | 'P1-choose'
+  | 'P2-split'
+  | 'P2-choose'
+  | 'P1-look'
+  | 'P2-look'
+  | 'P1-pick'
+  | 'P2-pick';
+
+/**
+ * Commands accepted by the draft engine.
+ * Each command is a discriminated union member keyed by `type`.
+ */
+export type DraftCommand =
+  /** Deal the next pack from the pool to the splitting player */
+  | { type: 'start-round' }
+  /** Split the active pack into piles */
+  | { type: 'split-pack'; piles: Pile[] }
+  /** Choose one of the piles on the active pack */
+  | { type: 'choose-pile'; pileId: string }
+  /** Winston: take the pile being looked at */
+  | { type: 'take-pile' }
+  /** Winston: pass the pile being looked at, adding a card from the pool to it */
+  | { type: 'pass-pile' }
+  /** Grid: take the cards left in a row or column of the active grid */
+  | { type: 'pick-line'; line: GridLine };
+
 /**
  * Represents a single action in the draft history.
  * Each action is recorded with full context for replay and analysis.
@@ -30,30 +155,41 @@ export interface DraftAction {
   /** Round number when this action occurred */
   round: number;
   /** Phase of the draft when this action occurred */
-  phase: 'P1-split' | 'P1-choose' | 'P2-split' | 'P2-choose';
+  phase: DraftPhase;
   /** Type of action performed */
-  actionType: 'pack-dealt' | 'pack-split' | 'pile-chosen';
+  actionType: 'pack-dealt' | 'pack-split' | 'pile-chosen' | 'pile-taken' | 'pile-passed' | 'line-picked';
   /** When this action occurred */
   timestamp: Date;
+  /** Chain hash the opponent reported for the history before this move (moves applied from turn tokens) */
+  receivedChainHash?: string;
   /** Action-specific data */
   data: {
     // For pack-dealt actions
     /** Cards in the dealt pack */
-    packCards?: CardInPool[];
+    packCards?: CardInstance[];
     // For pack-split actions
     /** Piles created during splitting */
     piles?: Pile[];
     /** Which player did the splitting */
-    splitter?: 'P1' | 'P2';
+    splitter?: PlayerId;
     // For pile-chosen actions
     /** ID of the chosen pile */
     chosenPile?: string;
     /** Which player made the choice */
-    chooser?: 'P1' | 'P2';
+    chooser?: PlayerId;
     /** Cards that were chosen */
-    chosenCards?: CardInPool[];
+    chosenCards?: CardInstance[];
     /** Cards that remained with the splitter */
-    remainingCards?: CardInPool[];
+    remainingCards?: CardInstance[];
+    /** Cards no one drafts: the burn pile of a split, or what is left of a grid after its second pick */
+    discardedCards?: CardInstance[];
+    // For pile-taken and pile-passed actions (Winston), which also set chosenPile,
+    // chooser and, for a taken pile or the card drawn after passing the last pile, chosenCards
+    /** Cards put on a pile from the pool: on the passed pile, or in place of the taken one */
+    addedCards?: CardInstance[];
+    // For line-picked actions (grid), which also set chooser, chosenCards and, on a grid's second pick, discardedCards
+    /** Row or column that was picked */
+    line?: GridLine;
   };
 }
 
@@ -64,16 +200,22 @@ export interface DraftAction {
 export interface DraftState {
   /** Configuration settings for this draft */
   settings: DraftSettings;
-  /** All cards available in the draft pool */
-  cardsInPool: CardInPool[];
+  /** Cards left in the draft pool, one instance per copy, in dealing order */
+  cardsInPool: CardInstance[];
+  /** Cards in the pool when the draft started, in dealing order (used to replay history) */
+  initialPool: CardInstance[];
   /** Current round number (1-based) */
   currentRound: number;
   /** Current pack within the round (1 or 2) */
   currentPack: number;
   /** Current phase of the draft */
-  currentPhase: 'P1-split' | 'P1-choose' | 'P2-split' | 'P2-choose';
-  /** Currently active pack being drafted */
+  currentPhase: DraftPhase;
+  /** Currently active pack being drafted (in Winston, the three piles; in grid, the nine cards row by row) */
   activePack: Pack | null;
+  /** Winston: index of the pile the active player is looking at */
+  currentPile?: number;
+  /** Grid: positions (0-8, row by row) of the active grid's cards that have already been picked */
+  takenSlots?: number[];
   /** Player 1's collected cards organized by color */
   p1Picks: PlayerPicks;
   /** Player 2's collected cards organized by color */
@@ -82,6 +224,8 @@ export interface DraftState {
   isComplete: boolean;
   /** Complete history of all actions taken */
   history: DraftAction[];
+  /** Decks the players have built from their picks once the draft is complete */
+  decks?: Partial<Record<PlayerId, DeckBuild>>;
 }
 
 /**
@@ -112,4 +256,6 @@ export interface DeckListInput {
   name?: string;
   /** Optional seed string for reproducible drafts */
   seed?: string;
+  /** Draft settings carried by the seed, if it records them */
+  settings?: DraftOptions;
 }
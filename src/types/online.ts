@@ -0,0 +1,47 @@
+import { DraftCommand, DraftState, PlayerId } from './draft';
+
+/**
+ * Message types for real-time play through the draft server (see /server).
+ * Messages are sent as JSON over a WebSocket. The server owns the draft state:
+ * clients send commands and render the state the server broadcasts back.
+ */
+
+/**
+ * Error codes the draft server can send
+ */
+export type OnlineErrorCode =
+  | 'bad-message'
+  | 'room-not-found'
+  | 'room-full'
+  | 'invalid-draft'
+  | 'not-in-room'
+  | 'not-your-turn'
+  | 'invalid-command';
+
+/**
+ * Messages sent from a client to the draft server
+ */
+export type ClientMessage =
+  /** Host a new room for a draft that has been created locally but not yet played */
+  | { type: 'create-room'; draft: DraftState }
+  /** Join an existing room in the free seat */
+  | { type: 'join-room'; roomId: string }
+  /** Reclaim a seat after a disconnect */
+  | { type: 'reconnect'; roomId: string; reconnectToken: string }
+  /** Apply a draft command as the player in this connection's seat */
+  | { type: 'command'; command: DraftCommand }
+  /** Give up the seat and leave the room */
+  | { type: 'leave-room' };
+
+/**
+ * Messages sent from the draft server to a client
+ */
+export type ServerMessage =
+  /** The connection now holds a seat in a room */
+  | { type: 'joined'; roomId: string; seat: PlayerId; reconnectToken: string; draft: DraftState }
+  /** The authoritative draft state after a command */
+  | { type: 'state'; draft: DraftState }
+  /** Which seats currently have a connected player */
+  | { type: 'presence'; connected: Record<PlayerId, boolean> }
+  /** A request was rejected */
+  | { type: 'error'; code: OnlineErrorCode; message: string };
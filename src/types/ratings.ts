@@ -0,0 +1,36 @@
+/**
+ * Card rating types. Ratings are imported per cube from a CSV or JSON file
+ * and scaled to 0-5, so ratings from different sources can be compared.
+ */
+
+/**
+ * Ratings imported for one cube or deck list
+ */
+export interface CardRatings {
+  /** Pool the ratings belong to (e.g. "cubecobra:abc"), see getRatingPoolKey */
+  poolKey: string;
+  /** File the ratings were imported from */
+  source: string;
+  /** When the ratings were imported */
+  importedAt: Date;
+  /** Overall score of each card, keyed by normalized card name */
+  scores: Record<string, number>;
+  /** Scores for particular archetypes or color pairs (e.g. "WU"), keyed by archetype then normalized card name */
+  archetypeScores: Record<string, Record<string, number>>;
+}
+
+/**
+ * How a rating is estimated for a card no imported rating covers
+ */
+export interface RatingFallback {
+  /** Base rating by rarity (common, uncommon, rare, mythic) */
+  rarityRatings: Record<string, number>;
+  /** Cards at or below this mana value get the cheap bonus */
+  cheapMaxCmc: number;
+  /** Added to the rating of cheap cards */
+  cheapBonus: number;
+  /** Cards at or above this mana value get the expensive penalty */
+  expensiveMinCmc: number;
+  /** Subtracted from the rating of expensive cards */
+  expensivePenalty: number;
+}
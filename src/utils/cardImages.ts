@@ -0,0 +1,21 @@
+import { Card } from '@/types/card';
+
+/**
+ * Image shown when a card has no Scryfall image
+ */
+export const PLACEHOLDER_CARD_IMAGE = '/placeholder-card.png';
+
+/**
+ * Gets the appropriate image URL for a card, handling both single-faced and double-faced cards
+ * @param card - The card to get the image URL for
+ * @returns The image URL for the card
+ */
+export function getCardImageUrl(card: Card): string {
+  // For double-faced cards, use the front face image
+  if (card.card_faces && card.card_faces.length > 0) {
+    return card.card_faces[0].image_uris?.normal || card.card_faces[0].image_uris?.small || PLACEHOLDER_CARD_IMAGE;
+  }
+
+  // For single-faced cards, use the root image_uris
+  return card.image_uris?.normal || card.image_uris?.small || PLACEHOLDER_CARD_IMAGE;
+}
@@ -0,0 +1,94 @@
+import { Card, CardInPool, CardInstance, PlayerPicks } from '@/types/card';
+
+/**
+ * Helpers for moving between card lists grouped by quantity (deck lists,
+ * seeds, exports) and the individual card instances a draft deals with.
+ */
+
+/**
+ * Builds the instance ID of one copy of a card
+ * @param card - The card
+ * @param copy - Which copy of the card this is (1-based)
+ * @returns Instance ID, e.g. "<scryfall id>#2"
+ */
+export function getInstanceId(card: Card, copy: number): string {
+  return `${card.id}#${copy}`;
+}
+
+/**
+ * Expands cards with quantities into one instance per copy, keeping their order.
+ * Copies of a card are numbered across the whole list, so a card listed twice
+ * still gets distinct instance IDs.
+ * @param cards - Cards with quantities
+ * @returns One instance per copy
+ */
+export function expandCopies(cards: CardInPool[]): CardInstance[] {
+  const copies = new Map<string, number>();
+  const instances: CardInstance[] = [];
+
+  for (const { card, quantity } of cards) {
+    for (let i = 0; i < quantity; i++) {
+      const copy = (copies.get(card.id) ?? 0) + 1;
+      copies.set(card.id, copy);
+      instances.push({ card, quantity: 1, instanceId: getInstanceId(card, copy) });
+    }
+  }
+
+  return instances;
+}
+
+/**
+ * Groups copies of the same card into one entry with their total quantity,
+ * in the order each card first appears
+ * @param cards - Cards or card instances
+ * @returns One entry per card
+ */
+export function groupCopies(cards: CardInPool[]): CardInPool[] {
+  const grouped = new Map<string, CardInPool>();
+
+  for (const { card, quantity } of cards) {
+    const existing = grouped.get(card.id);
+    grouped.set(card.id, { card, quantity: (existing?.quantity ?? 0) + quantity });
+  }
+
+  return [...grouped.values()];
+}
+
+/**
+ * Gets every card a player picked, with copies of the same card grouped
+ * @param picks - Player's picks organized by color
+ * @returns One entry per card
+ */
+export function groupPicks(picks: PlayerPicks): CardInPool[] {
+  return groupCopies(Object.values(picks).flat());
+}
+
+/**
+ * Gives instance IDs to the card entries of a draft saved before instances existed,
+ * numbering the entries of each card in order. Such entries were dealt as a unit,
+ * so each one becomes a single instance whatever its quantity.
+ * @param entries - Stored card entries, in order
+ * @returns One instance per entry
+ */
+export function numberCopies(entries: CardInPool[]): CardInstance[] {
+  const copies = new Map<string, number>();
+
+  return entries.map(entry => {
+    const copy = (copies.get(entry.card.id) ?? 0) + 1;
+    copies.set(entry.card.id, copy);
+    return { ...entry, instanceId: getInstanceId(entry.card, copy) };
+  });
+}
+
+/**
+ * Gives an instance ID to a card entry from a draft saved before instances existed.
+ * Such entries were dealt as a unit, so each is treated as the first copy of its card.
+ * @param entry - Stored card entry
+ * @returns The entry as a card instance
+ */
+export function reviveInstance(entry: CardInPool & { instanceId?: string }): CardInstance {
+  if (typeof entry.instanceId === 'string') {
+    return entry as CardInstance;
+  }
+  return { ...entry, instanceId: getInstanceId(entry.card, 1) };
+}
@@ -0,0 +1,115 @@
+import { CollationSlot, PackCollation } from '@/types/draft';
+
+/**
+ * Pack collation rules written as short codes, for seeds and share links.
+ *
+ * A code lists the rules separated by "-": "b" balances colors, "r" spreads
+ * rarities, "l<n>" and "c<n>" cap lands and colorless cards per pack, and
+ * "t<slots>" gives the pack template, e.g. "b-l2-tWUBRGM*".
+ */
+
+/**
+ * Characters a pack template is written with: a color group per slot, or "*" for any card
+ */
+const TEMPLATE_SLOTS: CollationSlot[] = ['W', 'U', 'B', 'R', 'G', 'C', 'M', '*'];
+
+/**
+ * Pattern matching a collation code
+ */
+export const COLLATION_CODE_PATTERN = /^(?:b|r|l\d+|c\d+|t[WUBRGCM*]+)(?:-(?:b|r|l\d+|c\d+|t[WUBRGCM*]+))*$/;
+
+/**
+ * Checks whether collation rules change how packs are built
+ * @param collation - Collation rules
+ * @returns True if any rule is set
+ */
+export function hasCollationRules(collation: PackCollation | undefined): collation is PackCollation {
+  return !!collation && (
+    !!collation.balanceColors ||
+    !!collation.spreadRarities ||
+    collation.maxLands !== undefined ||
+    collation.maxColorless !== undefined ||
+    (collation.template?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Reads a pack template typed by a player, e.g. "WUBRGM*" or "W U B R G M *"
+ * @param text - Template text (spaces and case are ignored)
+ * @returns The template's slots (empty for blank text)
+ * @throws Error if the text has a character that is not a slot
+ */
+export function parseTemplate(text: string): CollationSlot[] {
+  const slots = text.replace(/\s+/g, '').toUpperCase().split('').filter(Boolean);
+  const invalid = slots.find(slot => !TEMPLATE_SLOTS.includes(slot as CollationSlot));
+  if (invalid) {
+    throw new Error(`"${invalid}" is not a pack template slot; use W, U, B, R, G, C (colorless), M (multicolor) or * (any card)`);
+  }
+  return slots as CollationSlot[];
+}
+
+/**
+ * Writes collation rules as a code
+ * @param collation - Collation rules
+ * @returns Code for the rules, or an empty string if there are none
+ */
+export function encodeCollation(collation: PackCollation | undefined): string {
+  if (!hasCollationRules(collation)) return '';
+
+  const rules: string[] = [];
+  if (collation.balanceColors) rules.push('b');
+  if (collation.spreadRarities) rules.push('r');
+  if (collation.maxLands !== undefined) rules.push(`l${collation.maxLands}`);
+  if (collation.maxColorless !== undefined) rules.push(`c${collation.maxColorless}`);
+  if (collation.template?.length) rules.push(`t${collation.template.join('')}`);
+  return rules.join('-');
+}
+
+/**
+ * Reads collation rules from a code
+ * @param code - Code written by encodeCollation
+ * @returns The collation rules, or null if the code is not valid
+ */
+export function decodeCollation(code: string): PackCollation | null {
+  if (!COLLATION_CODE_PATTERN.test(code)) return null;
+
+  const collation: PackCollation = {};
+  for (const rule of code.split('-')) {
+    const value = rule.slice(1);
+    switch (rule[0]) {
+      case 'b':
+        collation.balanceColors = true;
+        break;
+      case 'r':
+        collation.spreadRarities = true;
+        break;
+      case 'l':
+        collation.maxLands = parseInt(value, 10);
+        break;
+      case 'c':
+        collation.maxColorless = parseInt(value, 10);
+        break;
+      case 't':
+        collation.template = value.split('') as CollationSlot[];
+        break;
+    }
+  }
+  return collation;
+}
+
+/**
+ * Describes collation rules for display
+ * @param collation - Collation rules
+ * @returns Readable summary, e.g. "balanced colors, at most 2 lands, template WUBRGM*"
+ */
+export function describeCollation(collation: PackCollation | undefined): string {
+  if (!hasCollationRules(collation)) return 'dealt straight from the shuffle';
+
+  const rules: string[] = [];
+  if (collation.balanceColors) rules.push('balanced colors');
+  if (collation.spreadRarities) rules.push('spread rarities');
+  if (collation.maxLands !== undefined) rules.push(`at most ${collation.maxLands} ${collation.maxLands === 1 ? 'land' : 'lands'}`);
+  if (collation.maxColorless !== undefined) rules.push(`at most ${collation.maxColorless} colorless`);
+  if (collation.template?.length) rules.push(`template ${collation.template.join('')}`);
+  return rules.join(', ');
+}
@@ -0,0 +1,47 @@
+/**
+ * Minimal CSV helpers for the card rating and deck file formats
+ */
+
+/**
+ * Splits one CSV line into cells, honoring double-quoted cells
+ * @param line - CSV line
+ * @returns Cell values
+ */
+export function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Joins cells into one CSV line, quoting cells that contain commas, quotes or line breaks
+ * @param cells - Cell values
+ * @returns CSV line
+ */
+export function formatCsvLine(cells: string[]): string {
+  return cells.map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',');
+}
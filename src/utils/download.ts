@@ -0,0 +1,17 @@
+/**
+ * Downloads a file with the given content and filename
+ * @param content - File content (text, or a Blob such as an image)
+ * @param filename - Name of the file to download
+ * @param type - MIME type of the file
+ */
+export function downloadFile(content: string | Blob, filename: string, type = 'text/plain'): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,53 @@
+import { DraftCommand } from '@/types/draft';
+
+/**
+ * Shape checks for draft commands received from another machine (the online
+ * server and peer-to-peer play). A command that passes has the fields its type
+ * needs; whether it is allowed in the draft's current state is still up to the engine.
+ */
+
+/**
+ * Pattern matching a grid row or column name
+ */
+const GRID_LINE_PATTERN = /^(row|col)-[1-3]$/;
+
+/**
+ * Checks whether a value is a draft command with a known type and a valid payload
+ * @param value - Value to check
+ * @returns True if the value has the shape of a DraftCommand
+ */
+export function isDraftCommand(value: unknown): value is DraftCommand {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const fields = value as Record<string, unknown>;
+  switch (fields.type) {
+    case 'start-round':
+    case 'take-pile':
+    case 'pass-pile':
+      return true;
+    case 'split-pack':
+      return Array.isArray(fields.piles) && fields.piles.every(isPile);
+    case 'choose-pile':
+      return typeof fields.pileId === 'string';
+    case 'pick-line':
+      return typeof fields.line === 'string' && GRID_LINE_PATTERN.test(fields.line);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether a value is a pile of card instances
+ * @param value - Value to check
+ * @returns True for an object with a string ID and a list of cards with instance IDs
+ */
+function isPile(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { id, cards } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    Array.isArray(cards) &&
+    cards.every(card => typeof card === 'object' && card !== null && typeof (card as Record<string, unknown>).instanceId === 'string')
+  );
+}
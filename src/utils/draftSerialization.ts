@@ -0,0 +1,100 @@
+import { DraftState, DraftAction } from '@/types/draft';
+import { CardInstance, Pile, PlayerPicks } from '@/types/card';
+import { reviveInstance } from './cardInstances';
+
+/**
+ * Helpers for turning stored draft data back into a usable DraftState.
+ *
+ * Drafts leave memory through IndexedDB and JSON, which do not always keep
+ * Date objects intact (JSON turns them into ISO strings). These helpers
+ * restore the types the rest of the app expects, and give card instance IDs
+ * to drafts saved before cards had them.
+ */
+
+/**
+ * Converts a stored timestamp (Date, ISO string or epoch milliseconds) to a Date
+ * @param value - Stored timestamp
+ * @returns Date object (invalid input produces the Unix epoch rather than an Invalid Date)
+ */
+export function reviveDate(value: unknown): Date {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return new Date(0);
+}
+
+/**
+ * Restores a list of card instances loaded from storage
+ * @param cards - Stored cards (possibly without instance IDs)
+ * @returns Card instances
+ */
+function reviveCards(cards: CardInstance[]): CardInstance[] {
+  return cards.map(reviveInstance);
+}
+
+/**
+ * Restores piles loaded from storage
+ * @param piles - Stored piles
+ * @returns Piles whose cards are card instances
+ */
+function revivePiles(piles: Pile[]): Pile[] {
+  return piles.map(pile => ({ ...pile, cards: reviveCards(pile.cards) }));
+}
+
+/**
+ * Restores a player's picks loaded from storage
+ * @param picks - Stored picks
+ * @returns Picks whose cards are card instances
+ */
+function revivePicks(picks: PlayerPicks): PlayerPicks {
+  const revived: PlayerPicks = {};
+  for (const [color, cards] of Object.entries(picks)) {
+    revived[color] = reviveCards(cards);
+  }
+  return revived;
+}
+
+/**
+ * Restores a history entry loaded from storage
+ * @param action - Stored history entry
+ * @returns History entry with its timestamp and cards revived
+ */
+export function reviveDraftAction(action: DraftAction): DraftAction {
+  const { packCards, piles, chosenCards, remainingCards, addedCards, discardedCards } = action.data;
+  return {
+    ...action,
+    timestamp: reviveDate(action.timestamp),
+    data: {
+      ...action.data,
+      ...(packCards && { packCards: reviveCards(packCards) }),
+      ...(piles && { piles: revivePiles(piles) }),
+      ...(chosenCards && { chosenCards: reviveCards(chosenCards) }),
+      ...(remainingCards && { remainingCards: reviveCards(remainingCards) }),
+      ...(addedCards && { addedCards: reviveCards(addedCards) }),
+      ...(discardedCards && { discardedCards: reviveCards(discardedCards) }),
+    },
+  };
+}
+
+/**
+ * Restores a draft state loaded from storage
+ * @param draft - Stored draft state
+ * @returns Draft state with all history timestamps revived and every card an instance
+ */
+export function reviveDraftState(draft: DraftState): DraftState {
+  return {
+    ...draft,
+    cardsInPool: reviveCards(draft.cardsInPool),
+    initialPool: reviveCards(draft.initialPool),
+    activePack: draft.activePack && {
+      ...draft.activePack,
+      cards: reviveCards(draft.activePack.cards),
+      ...(draft.activePack.piles && { piles: revivePiles(draft.activePack.piles) }),
+    },
+    p1Picks: revivePicks(draft.p1Picks),
+    p2Picks: revivePicks(draft.p2Picks),
+    history: draft.history.map(reviveDraftAction),
+  };
+}
@@ -0,0 +1,261 @@
+import { CardInPool, PlayerPicks } from '@/types/card';
+import { DraftAction, DraftState, FairStart } from '@/types/draft';
+import { generateRandomSeed } from './random';
+import { parseShortSeed } from './seedUtils';
+
+/**
+ * Tamper detection for drafts played between two browsers.
+ *
+ * Fair start (commit-reveal): the pool shuffle seed is derived from entropy
+ * supplied by both players, so neither can pick the pack order alone.
+ *   1. The committer picks secret entropy and sends only its SHA-256 hash (the commitment).
+ *   2. The responder sends their own entropy in the clear.
+ *   3. The committer reveals their entropy; the responder checks it against the commitment.
+ * The committer is bound to their entropy before seeing the responder's, and the
+ * responder only ever sees a hash, so neither can steer the shuffle.
+ *
+ * Hash chain: every history entry is folded into a running SHA-256 hash that starts
+ * from the draft seed. Turn tokens carry the sender's chain hash, and the receiver
+ * compares it with their own, so any edit to the seed, dealt packs or earlier moves
+ * on either side shows up as a mismatch.
+ */
+
+/**
+ * Number of hex characters of the chain hash carried in turn tokens
+ */
+export const CHAIN_HASH_LENGTH = 12;
+
+/**
+ * Number of hex characters of the derived fair start shuffle seed
+ */
+const FAIR_SEED_LENGTH = 16;
+
+/**
+ * Prefixes of the codes exchanged during a fair start
+ */
+const FAIR_START_CODE_PREFIXES = {
+  commitment: 'fs-c',
+  entropy: 'fs-e',
+  reveal: 'fs-r',
+} as const;
+
+/**
+ * Kind of code exchanged during a fair start
+ */
+export type FairStartCodeKind = keyof typeof FAIR_START_CODE_PREFIXES;
+
+/**
+ * Result of verifying a draft against its fair start and the opponent's hash chain
+ */
+export interface DraftVerification {
+  /** Result of checking the fair start, or null if the draft did not use one */
+  fairStart: { verified: boolean; message: string } | null;
+  /** Verification failures keyed by the ID of the history entry they apply to */
+  failures: Record<string, string>;
+  /** IDs of history entries whose chain hash matched the opponent's */
+  verifiedActionIds: string[];
+}
+
+/**
+ * Hashes a string with SHA-256
+ * @param text - Text to hash
+ * @returns Promise resolving to the lowercase hex digest
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generates secret entropy for one side of a fair start
+ * @returns Random entropy string
+ */
+export function createEntropy(): string {
+  return generateRandomSeed(16);
+}
+
+/**
+ * Creates the commitment for a player's entropy
+ * @param entropy - The committer's secret entropy
+ * @returns Promise resolving to the commitment hash
+ */
+export function createCommitment(entropy: string): Promise<string> {
+  return sha256Hex(`commit:${entropy}`);
+}
+
+/**
+ * Derives the pool shuffle seed from both players' entropy
+ * @param fairStart - Commitment and entropy from both players
+ * @returns Promise resolving to the shuffle seed
+ */
+export async function deriveFairSeed(fairStart: FairStart): Promise<string> {
+  const hash = await sha256Hex(`seed:${fairStart.committerEntropy}:${fairStart.responderEntropy}`);
+  return hash.slice(0, FAIR_SEED_LENGTH);
+}
+
+/**
+ * Formats a value as a code to send to the opponent during a fair start
+ * @param kind - What the code carries
+ * @param value - Commitment or entropy
+ * @returns Code string, e.g. "fs-c.<hash>"
+ */
+export function formatFairStartCode(kind: FairStartCodeKind, value: string): string {
+  return `${FAIR_START_CODE_PREFIXES[kind]}.${value}`;
+}
+
+/**
+ * Reads a code received from the opponent during a fair start
+ * @param input - Pasted code
+ * @param kind - The kind of code expected at this step
+ * @returns The commitment or entropy in the code
+ * @throws Error if the code is not the expected kind
+ */
+export function parseFairStartCode(input: string, kind: FairStartCodeKind): string {
+  const [prefix, value, ...rest] = input.trim().split('.');
+  if (prefix !== FAIR_START_CODE_PREFIXES[kind] || !value || rest.length > 0 || !/^[a-z0-9]+$/.test(value)) {
+    throw new Error(`That is not a ${kind} code`);
+  }
+  return value;
+}
+
+/**
+ * Checks a fair start: the revealed entropy must match the commitment, and the
+ * draft seed must use the shuffle seed derived from both players' entropy.
+ * @param fairStart - Fair start recorded in the draft settings
+ * @param seed - The draft's seed
+ * @returns Promise resolving to the check result
+ */
+export async function verifyFairStart(
+  fairStart: FairStart,
+  seed: string
+): Promise<{ verified: boolean; message: string }> {
+  if (await createCommitment(fairStart.committerEntropy) !== fairStart.commitment) {
+    return { verified: false, message: 'The revealed entropy does not match the commitment' };
+  }
+
+  const shortSeed = parseShortSeed(seed);
+  if (!shortSeed || shortSeed.randomSeed !== await deriveFairSeed(fairStart)) {
+    return { verified: false, message: "The seed's shuffle does not match both players' entropy" };
+  }
+
+  return { verified: true, message: 'Pack order was shuffled with entropy from both players' };
+}
+
+/**
+ * Describes a history entry in a canonical form for hashing.
+ * IDs and timestamps are left out, and cards are sorted, so both players
+ * produce the same description for the same move.
+ * @param action - History entry
+ * @returns Canonical description
+ */
+function describeAction(action: DraftAction): string {
+  const cardIds = (cards: { card: { id: string } }[] = []): string =>
+    cards.map(entry => entry.card.id).sort().join(',');
+
+  switch (action.actionType) {
+    case 'pack-dealt':
+      return `deal|${action.round}|${action.phase}|${cardIds(action.data.packCards)}`;
+    case 'pack-split':
+      return `split|${action.round}|${action.phase}|${[...(action.data.piles ?? [])]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(pile => `${pile.id}=${cardIds(pile.cards)}`)
+        .join(';')}`;
+    case 'pile-chosen':
+      return `choose|${action.round}|${action.phase}|${action.data.chosenPile ?? ''}`;
+    case 'pile-taken':
+      return `take|${action.round}|${action.phase}|${action.data.chosenPile ?? ''}`;
+    case 'pile-passed':
+      return `pass|${action.round}|${action.phase}|${action.data.chosenPile ?? ''}`;
+    case 'line-picked':
+      return `pick|${action.round}|${action.phase}|${action.data.line ?? ''}`;
+  }
+}
+
+/**
+ * Computes the hash chain over a draft's history
+ * @param seed - Draft seed (the start of the chain)
+ * @param history - History entries to fold in
+ * @returns Promise resolving to the chain hash before each entry, followed by the final hash
+ */
+export async function computeHashChain(seed: string, history: DraftAction[]): Promise<string[]> {
+  const chain = [await sha256Hex(`genesis:${seed}`)];
+  for (const action of history) {
+    chain.push(await sha256Hex(`${chain[chain.length - 1]}|${describeAction(action)}`));
+  }
+  return chain;
+}
+
+/**
+ * Gets the shortened chain hash of a draft's whole history, as carried in turn tokens
+ * @param seed - Draft seed
+ * @param history - History entries
+ * @returns Promise resolving to the shortened chain hash
+ */
+export async function getChainHash(seed: string, history: DraftAction[]): Promise<string> {
+  const chain = await computeHashChain(seed, history);
+  return chain[chain.length - 1].slice(0, CHAIN_HASH_LENGTH);
+}
+
+/**
+ * Hashes the visible state of a draft so two players running the same draft can
+ * confirm they agree. Covers the seed, position, remaining pool, active pack and
+ * both players' picks; action IDs and timestamps differ per browser and are left out.
+ * @param draft - Draft to hash
+ * @returns Promise resolving to the shortened state hash
+ */
+export async function getStateHash(draft: DraftState): Promise<string> {
+  const cardList = (cards: CardInPool[] = []): string =>
+    cards.map(entry => `${entry.card.id}x${entry.quantity}`).sort().join(',');
+  const picks = (playerPicks: PlayerPicks): string =>
+    cardList(Object.values(playerPicks).flat());
+
+  const state = [
+    draft.settings.seed,
+    `${draft.currentRound}/${draft.currentPack}/${draft.currentPhase}/${draft.isComplete}`,
+    // Winston only: which pile is being looked at
+    ...(draft.currentPile !== undefined ? [String(draft.currentPile)] : []),
+    // Grid only: which positions of the grid have been picked
+    ...(draft.takenSlots !== undefined ? [draft.takenSlots.join(',')] : []),
+    cardList(draft.cardsInPool),
+    draft.activePack
+      ? `${draft.activePack.id}:${cardList(draft.activePack.cards)}:${(draft.activePack.piles ?? [])
+          .map(pile => `${pile.id}=${cardList(pile.cards)}`)
+          .join(';')}`
+      : '',
+    picks(draft.p1Picks),
+    picks(draft.p2Picks),
+  ].join('|');
+
+  return (await sha256Hex(`state:${state}`)).slice(0, CHAIN_HASH_LENGTH);
+}
+
+/**
+ * Verifies a draft: its fair start, and every move applied from an opponent's
+ * turn token against the chain hash the opponent reported for it.
+ * @param draft - Draft to verify
+ * @returns Promise resolving to the verification result
+ */
+export async function verifyDraft(draft: DraftState): Promise<DraftVerification> {
+  const { seed, fairStart } = draft.settings;
+  const chain = await computeHashChain(seed, draft.history);
+  const failures: Record<string, string> = {};
+  const verifiedActionIds: string[] = [];
+
+  draft.history.forEach((action, index) => {
+    if (!action.receivedChainHash) return;
+
+    if (chain[index].slice(0, CHAIN_HASH_LENGTH) === action.receivedChainHash) {
+      verifiedActionIds.push(action.id);
+    } else {
+      failures[action.id] =
+        "The opponent's history before this move does not match this draft's. " +
+        'The seed, a dealt pack or an earlier move was changed on one side.';
+    }
+  });
+
+  return {
+    fairStart: fairStart ? await verifyFairStart(fairStart, seed) : null,
+    failures,
+    verifiedActionIds,
+  };
+}
@@ -0,0 +1,129 @@
+import { DraftCommand, DraftState } from '@/types/draft';
+import { fromBase64Url, toBase64Url } from './seedUtils';
+import { isDraftCommand } from './draftCommands';
+
+/**
+ * Message format for peer-to-peer play over a WebRTC data channel.
+ *
+ * Both peers run the draft engine locally and exchange only commands. Every
+ * message is a JSON object with a protocol version `v` and a `type`:
+ *
+ *   { v: 1, type: 'hello', draft }
+ *     Sent by the host when the channel opens. Carries the draft to play
+ *     (settings, pool and any history so far). The host plays P1, the guest P2.
+ *
+ *   { v: 1, type: 'command', seq, command, stateHash }
+ *     A draft command the sender applied locally. `seq` is the length of the
+ *     sender's history before the command, so commands are applied in order.
+ *     `stateHash` is the sender's state hash after applying it.
+ *
+ *   { v: 1, type: 'ack', seq, stateHash }
+ *     Sent after applying a peer's command, with the receiver's own state hash.
+ *
+ * After every command each side compares the other's state hash with its own,
+ * so a desync is detected by both players. Connection setup uses manual
+ * signaling: the host's offer and the guest's answer are exchanged as codes
+ * (base64url JSON of the session description, prefixed "offer." / "answer.").
+ */
+
+/**
+ * Current peer protocol version
+ */
+export const PEER_PROTOCOL_VERSION = 1;
+
+/**
+ * Messages exchanged between peers
+ */
+export type PeerMessage =
+  /** Host's draft, sent when the channel opens */
+  | { v: typeof PEER_PROTOCOL_VERSION; type: 'hello'; draft: DraftState }
+  /** A command applied by the sender */
+  | { v: typeof PEER_PROTOCOL_VERSION; type: 'command'; seq: number; command: DraftCommand; stateHash: string }
+  /** The receiver's state hash after applying a command */
+  | { v: typeof PEER_PROTOCOL_VERSION; type: 'ack'; seq: number; stateHash: string };
+
+/**
+ * Kind of signaling code
+ */
+export type SignalKind = 'offer' | 'answer';
+
+/**
+ * Serializes a peer message for the data channel
+ * @param message - Message to send
+ * @returns JSON text
+ */
+export function encodePeerMessage(message: PeerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Parses and shape-checks a message received from the peer
+ * @param raw - JSON text from the data channel
+ * @returns Parsed message
+ * @throws Error if the message is malformed or from another protocol version
+ */
+export function decodePeerMessage(raw: string): PeerMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new Error('Peer sent a message that is not valid JSON');
+  }
+
+  if (typeof message !== 'object' || message === null) {
+    throw new Error('Peer sent a message that is not an object');
+  }
+
+  const fields = message as Record<string, unknown>;
+  if (fields.v !== PEER_PROTOCOL_VERSION) {
+    throw new Error(`Peer uses protocol version ${String(fields.v)}, expected ${PEER_PROTOCOL_VERSION}. Both players need the same app version.`);
+  }
+
+  const hasSeq = typeof fields.seq === 'number' && Number.isInteger(fields.seq) && fields.seq >= 0;
+  const hasHash = typeof fields.stateHash === 'string';
+  switch (fields.type) {
+    case 'hello':
+      if (typeof fields.draft === 'object' && fields.draft !== null) return message as PeerMessage;
+      break;
+    case 'command':
+      if (hasSeq && hasHash && isDraftCommand(fields.command)) return message as PeerMessage;
+      break;
+    case 'ack':
+      if (hasSeq && hasHash) return message as PeerMessage;
+      break;
+  }
+
+  throw new Error(`Peer sent an invalid "${String(fields.type)}" message`);
+}
+
+/**
+ * Encodes a session description as a code to send to the other player
+ * @param kind - Whether this is the host's offer or the guest's answer
+ * @param description - Local session description (with ICE candidates gathered)
+ * @returns Signaling code
+ */
+export function encodeSignal(kind: SignalKind, description: RTCSessionDescriptionInit): string {
+  return `${kind}.${toBase64Url(JSON.stringify({ type: description.type, sdp: description.sdp }))}`;
+}
+
+/**
+ * Decodes a signaling code from the other player
+ * @param input - Pasted code
+ * @param kind - The kind of code expected
+ * @returns Session description
+ * @throws Error if the code is not the expected kind or is damaged
+ */
+export function decodeSignal(input: string, kind: SignalKind): RTCSessionDescriptionInit {
+  const code = input.trim();
+  if (!code.startsWith(`${kind}.`)) {
+    throw new Error(`That is not an ${kind} code`);
+  }
+
+  try {
+    const description = JSON.parse(fromBase64Url(code.slice(kind.length + 1))) as RTCSessionDescriptionInit;
+    if (description.type !== kind || typeof description.sdp !== 'string') throw new Error();
+    return description;
+  } catch {
+    throw new Error(`The ${kind} code is damaged - copy it again`);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Deterministic random number utilities.
+ *
+ * Drafts are shuffled with a seedable PRNG so that the same pool and the same
+ * short random seed always produce the same card order. This lets a seed
+ * encode the randomness of a draft instead of the full card list.
+ */
+
+/**
+ * Characters used when generating random seeds (lowercase base36)
+ */
+const SEED_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ * Used to turn seed strings into PRNG state.
+ *
+ * @param text - String to hash
+ * @returns 32-bit unsigned hash
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ * The generator returns floats in [0, 1) like Math.random().
+ *
+ * @param seed - Seed string; the same seed always yields the same sequence
+ * @returns Function returning the next random number
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles an array with the Fisher-Yates algorithm using a seeded PRNG
+ *
+ * @param array - Array to shuffle (not modified)
+ * @param seed - Seed controlling the shuffle
+ * @returns New shuffled array
+ */
+export function shuffleWithSeed<T>(array: T[], seed: string): T[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Generates a short random seed string using the browser's crypto API
+ *
+ * @param length - Number of characters in the seed
+ * @returns Random lowercase base36 string
+ */
+export function generateRandomSeed(length = 8): string {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(values, value => SEED_ALPHABET[value % SEED_ALPHABET.length]).join('');
+}
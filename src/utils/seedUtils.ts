@@ -1,10 +1,16 @@
 import { CardInPool } from '@/types/card';
+import { DraftFormat, DraftOptions, PlayerId } from '@/types/draft';
+import { hashString } from './random';
+import { decodeCollation, encodeCollation } from './collation';
+import { decodeSplitRules, encodeSplitRules } from './splitRules';
 
 /**
  * Seed utilities for creating and reconstructing draft seeds.
  * 
  * Seeds allow users to recreate the exact same draft order by sharing
- * a compact string that encodes the card order and quantities.
+ * a compact string. Two formats exist:
+ * - Short seeds name the pool source and a random seed for the seeded shuffle
+ * - Long-form seeds encode the full card order and quantities
  * 
  * This is useful for:
  * - Sharing interesting draft scenarios
@@ -12,61 +18,207 @@ import { CardInPool } from '@/types/card';
  * - Testing different pack sizes with the same card order
  */
 
-// Hardcoded key for obfuscation (not security)
+// Hardcoded key for obfuscation of v1 seeds (not security)
 const HASH_KEY = "SolomonDraft2024!@#";
 
+/**
+ * Prefix identifying the current long-form seed format
+ */
+const SEED_V2_PREFIX = 'v2.';
+
 /**
  * Creates a compact representation of card order for hashing.
  * This interface stores only the essential data needed to reconstruct
- * a draft: card names and quantities.
+ * a draft: card names, printings and quantities.
  */
-interface CardData {
-  /** Name of the card */
-  name: string;
+export interface CardData {
+  /** Name of the card (v1 seeds only) */
+  name?: string;
+  /** Set code of the printing (v2 seeds only) */
+  set?: string;
+  /** Collector number of the printing (v2 seeds only) */
+  collectorNumber?: string;
   /** Number of copies in the pool */
   quantity: number;
 }
 
+/**
+ * Draft settings recorded in a seed
+ */
+export type SeedSettings = Pick<DraftOptions, 'format' | 'packSize' | 'numberOfRounds' | 'firstSplitter' | 'collation' | 'splitRules'>;
+
+/**
+ * A long-form seed decoded into its card order and settings
+ */
+export interface DecodedSeed {
+  /** Format version of the seed */
+  version: 1 | 2;
+  /** Cards in dealing order */
+  cards: CardData[];
+  /** Settings recorded in the seed (v2 only) */
+  settings?: SeedSettings;
+}
+
+/**
+ * JSON payload stored inside a v2 seed
+ */
+interface SeedPayloadV2 {
+  /** Pack size */
+  p: number;
+  /** Number of rounds */
+  r: number;
+  /** Player who splits first */
+  f: PlayerId;
+  /** Draft format, if not Solomon */
+  m?: DraftFormat;
+  /** Split rules code, if the splits differ from a classic Solomon split */
+  s?: string;
+  /** Comma-separated printings as "set/collector" with an optional "*quantity" suffix */
+  c: string;
+}
+
 /**
  * Generates a seed from a randomized card order.
  * 
- * This function creates a compact, shareable string that encodes the exact
- * order and quantities of cards in a draft pool. The seed can be used to
- * recreate the same draft with different pack sizes or settings.
+ * This function creates a shareable string that encodes the exact order,
+ * printings and quantities of cards in a draft pool along with the draft
+ * settings. Seeds use the v2 format:
+ * 
+ *   v2.<base64url payload>.<checksum>
+ * 
+ * The checksum lets a truncated or mistyped seed be reported clearly instead
+ * of producing a different draft.
+ * 
+ * Copies of a card dealt one after another are written once with their
+ * quantity, so the seed stays short while keeping the exact order.
  * 
  * @param cardOrder - The shuffled card order from the draft pool
- * @returns Base64-encoded seed string that can be shared
- */
-export function hashCardOrder(cardOrder: CardInPool[]): string {
-  // Create compact representation with only essential data
-  const cardData: CardData[] = cardOrder.map(card => ({
-    name: card.card.name,
-    quantity: card.quantity
-  }));
-  
-  console.log('Creating seed with card names:', cardData.slice(0, 5).map(c => c.name), '... (total:', cardData.length, ')');
-  
-  // Simple obfuscation with XOR to make the seed less readable
-  const dataString = JSON.stringify(cardData);
-  const obfuscated = xorEncrypt(dataString, HASH_KEY);
-  
-  // Convert to base64 for safe sharing and URL compatibility
-  const seed = btoa(obfuscated);
+ * @param settings - Draft settings to record in the seed
+ * @returns Seed string that can be shared
+ */
+export function hashCardOrder(cardOrder: CardInPool[], settings: SeedSettings): string {
+  const payload: SeedPayloadV2 = {
+    p: settings.packSize,
+    r: settings.numberOfRounds,
+    f: settings.firstSplitter,
+    ...(settings.format && settings.format !== 'solomon' && { m: settings.format }),
+    ...(encodeSplitRules(settings.splitRules) && { s: encodeSplitRules(settings.splitRules) }),
+    c: groupAdjacentCopies(cardOrder)
+      .map(({ card, quantity }) => {
+        const printing = `${card.set}/${card.collector_number}`;
+        return quantity > 1 ? `${printing}*${quantity}` : printing;
+      })
+      .join(','),
+  };
+
+  const body = toBase64Url(JSON.stringify(payload));
+  const seed = `${SEED_V2_PREFIX}${body}.${computeChecksum(body)}`;
   console.log('Generated seed length:', seed.length);
   return seed;
 }
 
+/**
+ * Merges runs of consecutive copies of the same card into one entry
+ * @param cards - Cards in dealing order
+ * @returns Cards in the same order, with each run's quantities added together
+ */
+function groupAdjacentCopies(cards: CardInPool[]): CardInPool[] {
+  const grouped: CardInPool[] = [];
+  for (const { card, quantity } of cards) {
+    const last = grouped[grouped.length - 1];
+    if (last && last.card.id === card.id) {
+      last.quantity += quantity;
+    } else {
+      grouped.push({ card, quantity });
+    }
+  }
+  return grouped;
+}
+
 /**
  * Reconstructs card data from a seed.
  * 
  * This function reverses the hashing process to extract the original
- * card order and quantities from a shared seed string.
+ * card order, quantities and (for v2 seeds) settings from a shared seed string.
+ * Both v2 seeds and the original v1 format (XOR-obfuscated card names) are supported.
  * 
+ * @param seed - The seed string to decode
+ * @returns Decoded card order and settings
+ * @throws Error if the seed format is invalid, truncated or corrupted
+ */
+export function dehashCardOrder(seed: string): DecodedSeed {
+  const trimmed = seed.trim();
+
+  if (trimmed.startsWith(SEED_V2_PREFIX)) {
+    return decodeSeedV2(trimmed);
+  }
+
+  // Any other "v<n>." prefix is a newer format this version does not understand
+  const versionMatch = trimmed.match(/^v(\d+)\./);
+  if (versionMatch) {
+    throw new Error(`Unsupported seed version: v${versionMatch[1]}. Please update the app to load this seed.`);
+  }
+
+  return { version: 1, cards: decodeSeedV1(trimmed) };
+}
+
+/**
+ * Decodes a v2 seed after verifying its checksum
+ * @param seed - Seed starting with the v2 prefix
+ * @returns Decoded seed
+ */
+function decodeSeedV2(seed: string): DecodedSeed {
+  const parts = seed.slice(SEED_V2_PREFIX.length).split('.');
+  if (parts.length !== 2 || !parts[1]) {
+    throw new Error('Seed is incomplete: the checksum is missing. Make sure the whole seed was copied.');
+  }
+
+  const [body, checksum] = parts;
+  if (computeChecksum(body) !== checksum) {
+    throw new Error('Seed is incomplete or corrupted (checksum mismatch). Make sure the whole seed was copied.');
+  }
+
+  let payload: SeedPayloadV2;
+  try {
+    payload = JSON.parse(fromBase64Url(body));
+  } catch (error) {
+    throw new Error(`Invalid seed format: ${error}`);
+  }
+
+  const splitRules = payload.s ? decodeSplitRules(payload.s) : undefined;
+  if (splitRules === null) {
+    throw new Error(`Invalid seed format: unknown split rules "${payload.s}"`);
+  }
+
+  const cards: CardData[] = payload.c.split(',').map(entry => {
+    const [printing, quantity] = entry.split('*');
+    const separator = printing.indexOf('/');
+    return {
+      set: printing.slice(0, separator),
+      collectorNumber: printing.slice(separator + 1),
+      quantity: quantity ? parseInt(quantity, 10) : 1,
+    };
+  });
+
+  return {
+    version: 2,
+    cards,
+    settings: {
+      packSize: payload.p,
+      numberOfRounds: payload.r,
+      firstSplitter: payload.f,
+      ...(payload.m && { format: payload.m }),
+      ...(splitRules && { splitRules }),
+    },
+  };
+}
+
+/**
+ * Decodes a v1 seed (XOR-obfuscated JSON of card names and quantities)
  * @param seed - The base64-encoded seed string to decode
  * @returns Array of card data with names and quantities
- * @throws Error if the seed format is invalid or corrupted
  */
-export function dehashCardOrder(seed: string): CardData[] {
+function decodeSeedV1(seed: string): CardData[] {
   try {
     console.log('Dehashing seed:', seed);
     
@@ -89,6 +241,146 @@ export function dehashCardOrder(seed: string): CardData[] {
   }
 }
 
+/**
+ * Computes the checksum stored at the end of a v2 seed
+ * @param body - Encoded seed payload
+ * @returns 8-character hex checksum
+ */
+function computeChecksum(body: string): string {
+  return hashString(`${SEED_V2_PREFIX}${body}`).toString(16).padStart(8, '0');
+}
+
+/**
+ * Encodes a string as URL-safe base64 (UTF-8, no padding)
+ * @param text - Text to encode
+ * @returns Base64url string
+ */
+export function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 produced by toBase64Url
+ * @param encoded - Base64url string
+ * @returns Decoded text
+ */
+export function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Identifies an online deck list or cube that a draft pool was loaded from
+ */
+export interface PoolSource {
+  /** Site hosting the list */
+  type: 'moxfield' | 'cubecobra';
+  /** Deck or cube ID on that site */
+  id: string;
+}
+
+/**
+ * A short seed decoded into its parts.
+ * Short seeds store where the pool came from and the random seed used to
+ * shuffle it, rather than the full card order.
+ */
+export interface ShortSeed {
+  /** Where the pool can be loaded from */
+  source: PoolSource;
+  /** Random seed passed to the seeded shuffle */
+  randomSeed: string;
+  /** Settings recorded in the seed, if any */
+  settings?: SeedSettings;
+}
+
+/**
+ * Prefixes used for each pool source in short seeds
+ */
+const SHORT_SEED_PREFIXES: Record<PoolSource['type'], string> = {
+  cubecobra: 'cc',
+  moxfield: 'mf',
+};
+
+/**
+ * Letters marking a draft format in a short seed (Solomon has none)
+ */
+const SHORT_SEED_FORMATS: Record<string, DraftFormat> = {
+  w: 'winston',
+  g: 'grid',
+};
+
+/**
+ * Pattern matching a short seed:
+ * <source prefix>:<source id>:<random seed>[:<pack size>x<rounds>p<first splitter>[w|g][:<collation code>][:<split rules code>]]
+ * where "w" marks a Winston draft and "g" a grid draft. Split rules codes start with "s", which no collation code does.
+ */
+const SHORT_SEED_PATTERN = /^(cc|mf):([A-Za-z0-9-]+):([a-z0-9]+)(?::(\d+)x(\d+)p([12])([wg]?)(?::((?!s)[A-Za-z0-9*-]+))?(?::(s[a-z0-9-]+))?)?$/;
+
+/**
+ * Creates a short seed from a pool source and a random seed.
+ *
+ * Short seeds are only a few dozen characters long. Reproducing the draft
+ * requires loading the same list from the source, so the long-form seed
+ * from hashCardOrder remains the fallback when the list may have changed.
+ *
+ * @param source - Where the pool was loaded from
+ * @param randomSeed - Random seed used to shuffle the pool
+ * @param settings - Draft settings to record in the seed
+ * @returns Short seed string, e.g. "cc:my-cube:k3j9x2ab:6x15p1" or, with collation and split rules,
+ *          "cc:my-cube:k3j9x2ab:6x15p1:b-l2:s3-b"
+ */
+export function createShortSeed(source: PoolSource, randomSeed: string, settings?: SeedSettings): string {
+  const seed = `${SHORT_SEED_PREFIXES[source.type]}:${source.id}:${randomSeed}`;
+  if (!settings) return seed;
+
+  const firstSplitter = settings.firstSplitter === 'P1' ? 1 : 2;
+  const formatCode = Object.keys(SHORT_SEED_FORMATS).find(code => SHORT_SEED_FORMATS[code] === settings.format) ?? '';
+  const collationCode = encodeCollation(settings.collation);
+  const splitRulesCode = encodeSplitRules(settings.splitRules);
+  return `${seed}:${settings.packSize}x${settings.numberOfRounds}p${firstSplitter}${formatCode}` +
+    `${collationCode ? `:${collationCode}` : ''}${splitRulesCode ? `:${splitRulesCode}` : ''}`;
+}
+
+/**
+ * Decodes a short seed into its pool source and random seed
+ *
+ * @param seed - Seed string to decode
+ * @returns The decoded seed, or null if the string is not a short seed
+ */
+export function parseShortSeed(seed: string): ShortSeed | null {
+  const match = seed.trim().match(SHORT_SEED_PATTERN);
+  if (!match) return null;
+
+  const collation = match[8] ? decodeCollation(match[8]) : undefined;
+  if (collation === null) return null;
+  const splitRules = match[9] ? decodeSplitRules(match[9]) : undefined;
+  if (splitRules === null) return null;
+
+  return {
+    source: {
+      type: match[1] === 'cc' ? 'cubecobra' : 'moxfield',
+      id: match[2],
+    },
+    randomSeed: match[3],
+    settings: match[4]
+      ? {
+          packSize: parseInt(match[4], 10),
+          numberOfRounds: parseInt(match[5], 10),
+          firstSplitter: match[6] === '1' ? 'P1' : 'P2',
+          ...(match[7] && { format: SHORT_SEED_FORMATS[match[7]] }),
+          ...(collation && { collation }),
+          ...(splitRules && { splitRules }),
+        }
+      : undefined,
+  };
+}
+
 /**
  * Simple XOR encryption for obfuscation
  * @param text - Text to encrypt
@@ -0,0 +1,117 @@
+import { DraftFormat, DraftOptions, PlayerId } from '@/types/draft';
+import { decodeCollation, encodeCollation } from './collation';
+import { decodeSplitRules, encodeSplitRules } from './splitRules';
+
+/**
+ * Share link utilities for deep-linking into a draft.
+ *
+ * A share link carries a seed or deck list URL plus optional draft settings,
+ * so opening it loads the same pool without pasting anything by hand:
+ *
+ *   https://<host>/Solomon_Draft/#seed=<seed>&packSize=6&rounds=15&first=P1
+ *
+ * Pack collation rules are carried as a collation code (&collation=b-l2), split
+ * variants as a split rules code (&split=s3-b), and Winston and grid drafts as
+ * &format=winston or &format=grid.
+ *
+ * Play-by-link turn links carry a turn token instead (#turn=<token>), and
+ * hot-seat windows carry the player they are for (#seat=P2).
+ *
+ * Parameters are written to the hash (so they never reach the static host),
+ * but the query string is read as well for hand-written links.
+ */
+
+/**
+ * Parameters that can be passed to the app through its URL
+ */
+export interface ShareLinkParams {
+  /** Seed to load (short or long-form) */
+  seed?: string;
+  /** Moxfield or CubeCobra URL to load */
+  deckUrl?: string;
+  /** Draft settings to apply once the pool is loaded */
+  settings?: Partial<DraftOptions>;
+  /** Turn token to apply to a saved draft (play-by-link) */
+  turn?: string;
+  /** Player a hot-seat window is for */
+  seat?: PlayerId;
+}
+
+/**
+ * Reads share link parameters from a location
+ * @param location - Location to read (defaults to the current page)
+ * @returns The parameters found, or null if the URL has no seed, deck list, turn token or seat
+ */
+export function parseShareLink(location: Location = window.location): ShareLinkParams | null {
+  const params = new URLSearchParams(location.search);
+  const hashParams = new URLSearchParams(location.hash.replace(/^#/, ''));
+
+  // Hash parameters take precedence over query parameters
+  const get = (name: string): string | null => hashParams.get(name) ?? params.get(name);
+
+  const seed = get('seed')?.trim() || undefined;
+  const deckUrl = get('deck')?.trim() || undefined;
+  const turn = get('turn')?.trim() || undefined;
+  const seatParam = get('seat');
+  const seat = seatParam === 'P1' || seatParam === 'P2' ? (seatParam as PlayerId) : undefined;
+  if (!seed && !deckUrl && !turn && !seat) return null;
+
+  const settings: Partial<DraftOptions> = {};
+  const packSize = parsePositiveInt(get('packSize'));
+  const numberOfRounds = parsePositiveInt(get('rounds'));
+  const firstSplitter = get('first');
+  const collation = decodeCollation(get('collation') ?? '');
+  const format = get('format');
+  const splitRules = decodeSplitRules(get('split') ?? '');
+
+  if (packSize) settings.packSize = packSize;
+  if (numberOfRounds) settings.numberOfRounds = numberOfRounds;
+  if (firstSplitter === 'P1' || firstSplitter === 'P2') settings.firstSplitter = firstSplitter as PlayerId;
+  if (collation) settings.collation = collation;
+  if (format === 'solomon' || format === 'winston' || format === 'grid') settings.format = format as DraftFormat;
+  if (splitRules) settings.splitRules = splitRules;
+
+  return {
+    seed,
+    deckUrl,
+    settings: Object.keys(settings).length > 0 ? settings : undefined,
+    turn,
+    seat,
+  };
+}
+
+/**
+ * Builds a link that opens the app and loads the given seed, deck list, turn or hot-seat window.
+ * The link is rooted at the app's configured base path (e.g. /Solomon_Draft/).
+ * @param params - What the link should load
+ * @returns Absolute URL
+ */
+export function buildShareLink(params: ShareLinkParams): string {
+  const hashParams = new URLSearchParams();
+
+  if (params.seed) hashParams.set('seed', params.seed);
+  if (params.deckUrl) hashParams.set('deck', params.deckUrl);
+  if (params.settings?.packSize) hashParams.set('packSize', String(params.settings.packSize));
+  if (params.settings?.numberOfRounds) hashParams.set('rounds', String(params.settings.numberOfRounds));
+  if (params.settings?.firstSplitter) hashParams.set('first', params.settings.firstSplitter);
+  const collationCode = encodeCollation(params.settings?.collation);
+  if (collationCode) hashParams.set('collation', collationCode);
+  if (params.settings?.format && params.settings.format !== 'solomon') hashParams.set('format', params.settings.format);
+  const splitRulesCode = encodeSplitRules(params.settings?.splitRules);
+  if (splitRulesCode) hashParams.set('split', splitRulesCode);
+  if (params.turn) hashParams.set('turn', params.turn);
+  if (params.seat) hashParams.set('seat', params.seat);
+
+  return `${window.location.origin}${import.meta.env.BASE_URL}#${hashParams.toString()}`;
+}
+
+/**
+ * Parses a positive integer URL parameter
+ * @param value - Raw parameter value
+ * @returns The number, or undefined if missing or invalid
+ */
+function parsePositiveInt(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return !isNaN(parsed) && parsed > 0 ? parsed : undefined;
+}
@@ -0,0 +1,152 @@
+import { SplitRules } from '@/types/draft';
+
+/**
+ * Solomon split variants written as short codes, for seeds and share links.
+ *
+ * A code always starts with "s<n>", the number of piles, followed by any of
+ * "n<n>" and "x<n>" for the fewest and most cards per pile and "b" for a
+ * burn pile, separated by "-", e.g. "s3-n2-x4-b".
+ */
+
+/**
+ * Most piles a pack can be split into (turn tokens write each pile as one digit)
+ */
+const MAX_PILE_COUNT = 9;
+
+/**
+ * Pattern matching a split rules code
+ */
+export const SPLIT_RULES_CODE_PATTERN = /^s\d+(?:-n\d+)?(?:-x\d+)?(?:-b)?$/;
+
+/**
+ * Split rules with every default filled in
+ */
+export interface ResolvedSplitRules {
+  /** Piles the splitter makes */
+  pileCount: number;
+  /** Fewest cards in each pile */
+  minPileSize: number;
+  /** Most cards in each pile, if capped */
+  maxPileSize?: number;
+  /** Whether the splitter may put cards in a burn pile */
+  burnPile: boolean;
+}
+
+/**
+ * Fills in the defaults of a classic Solomon split: two piles of at least one card
+ * @param rules - Split rules, if any
+ * @returns The rules with every default filled in
+ */
+export function resolveSplitRules(rules: SplitRules | undefined): ResolvedSplitRules {
+  return {
+    pileCount: rules?.pileCount ?? 2,
+    minPileSize: rules?.minPileSize ?? 1,
+    ...(rules?.maxPileSize !== undefined && { maxPileSize: rules.maxPileSize }),
+    burnPile: !!rules?.burnPile,
+  };
+}
+
+/**
+ * Checks whether split rules differ from a classic Solomon split
+ * @param rules - Split rules
+ * @returns True if any rule changes how packs are split
+ */
+export function hasSplitRules(rules: SplitRules | undefined): rules is SplitRules {
+  const resolved = resolveSplitRules(rules);
+  return (
+    resolved.pileCount !== 2 ||
+    resolved.minPileSize !== 1 ||
+    resolved.maxPileSize !== undefined ||
+    resolved.burnPile
+  );
+}
+
+/**
+ * Checks that split rules can be used with a pack size
+ * @param rules - Split rules
+ * @param packSize - Cards per pack
+ * @throws Error naming the rule that cannot be met
+ */
+export function validateSplitRules(rules: SplitRules, packSize: number): void {
+  const { pileCount, minPileSize, maxPileSize, burnPile } = resolveSplitRules(rules);
+
+  if (!Number.isInteger(pileCount) || pileCount < 2 || pileCount > MAX_PILE_COUNT) {
+    throw new Error(`The number of piles must be a whole number from 2 to ${MAX_PILE_COUNT}`);
+  }
+  if (!Number.isInteger(minPileSize) || minPileSize < 1) {
+    throw new Error('The fewest cards per pile must be a whole number of 1 or more');
+  }
+  if (maxPileSize !== undefined && (!Number.isInteger(maxPileSize) || maxPileSize < minPileSize)) {
+    throw new Error(`The most cards per pile must be a whole number of at least ${minPileSize} (the fewest cards per pile)`);
+  }
+  if (pileCount * minPileSize > packSize) {
+    throw new Error(
+      `${pileCount} piles of at least ${minPileSize} ${minPileSize === 1 ? 'card' : 'cards'} need ${pileCount * minPileSize} cards, but packs hold ${packSize}`
+    );
+  }
+  if (maxPileSize !== undefined && !burnPile && pileCount * maxPileSize < packSize) {
+    throw new Error(
+      `${pileCount} piles of at most ${maxPileSize} ${maxPileSize === 1 ? 'card' : 'cards'} hold ${pileCount * maxPileSize} cards, but packs hold ${packSize}; raise the most cards per pile or allow a burn pile`
+    );
+  }
+}
+
+/**
+ * Writes split rules as a code
+ * @param rules - Split rules
+ * @returns Code for the rules, or an empty string for a classic split
+ */
+export function encodeSplitRules(rules: SplitRules | undefined): string {
+  if (!hasSplitRules(rules)) return '';
+
+  const { pileCount, minPileSize, maxPileSize, burnPile } = resolveSplitRules(rules);
+  const parts = [`s${pileCount}`];
+  if (minPileSize !== 1) parts.push(`n${minPileSize}`);
+  if (maxPileSize !== undefined) parts.push(`x${maxPileSize}`);
+  if (burnPile) parts.push('b');
+  return parts.join('-');
+}
+
+/**
+ * Reads split rules from a code
+ * @param code - Code written by encodeSplitRules
+ * @returns The split rules, or null if the code is not valid
+ */
+export function decodeSplitRules(code: string): SplitRules | null {
+  if (!SPLIT_RULES_CODE_PATTERN.test(code)) return null;
+
+  const rules: SplitRules = {};
+  for (const part of code.split('-')) {
+    const value = parseInt(part.slice(1), 10);
+    switch (part[0]) {
+      case 's':
+        if (value !== 2) rules.pileCount = value;
+        break;
+      case 'n':
+        rules.minPileSize = value;
+        break;
+      case 'x':
+        rules.maxPileSize = value;
+        break;
+      case 'b':
+        rules.burnPile = true;
+        break;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Describes split rules for display
+ * @param rules - Split rules
+ * @returns Readable summary, e.g. "3 piles of 2-4 cards, plus a burn pile"
+ */
+export function describeSplitRules(rules: SplitRules | undefined): string {
+  const { pileCount, minPileSize, maxPileSize, burnPile } = resolveSplitRules(rules);
+  const sizes = maxPileSize === undefined
+    ? minPileSize === 1 ? '' : ` of at least ${minPileSize} cards`
+    : maxPileSize === minPileSize
+      ? ` of ${minPileSize} ${minPileSize === 1 ? 'card' : 'cards'}`
+      : ` of ${minPileSize}-${maxPileSize} cards`;
+  return `${pileCount} piles${sizes}${burnPile ? ', plus a burn pile' : ''}`;
+}
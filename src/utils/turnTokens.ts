@@ -0,0 +1,302 @@
+import { DraftAction, DraftCommand, DraftPhase, DraftState, GridLine, PlayerId } from '@/types/draft';
+import { Pile } from '@/types/card';
+import { hashString } from './random';
+import { getChainHash } from './fairPlay';
+import { BURN_PILE_ID } from '@/constants/draftDefaults';
+
+/**
+ * Turn tokens for asynchronous play-by-link drafts.
+ *
+ * Each player keeps their own copy of the draft, started from the same seed.
+ * After a split, a choice, a grid pick or (in Winston) a whole turn of passes and takes, the player sends a short token describing it;
+ * the opponent pastes it to apply the same move to their copy. A token looks like:
+ *
+ *   t2.<seed hash>.<turn>.<move>.<chain hash>.<checksum>
+ *
+ * - seed hash: identifies the draft the token belongs to
+ * - turn: number of player moves made before this move (base36)
+ * - move: "s" plus one pile number per pack card for a split, 0 for the burn pile (e.g. "s121130"),
+ *   "c" plus the pile number for a choice (e.g. "c2"), "w" plus a "p" for each
+ *   Winston pile passed and a "t" for the pile taken, in order (e.g. "wppt"), or "g" plus
+ *   "r" or "c" and a number for the grid row or column picked (e.g. "gc3")
+ * - chain hash: the sender's hash chain over the history before the move (see fairPlay),
+ *   letting the receiver detect a seed, pack or earlier move that differs between the two copies
+ * - checksum: catches tokens that were mistyped or cut off when pasted
+ *
+ * Cards are referenced by their position in the dealt pack, which is the same
+ * for both players because the pack order comes from the shared seed.
+ * Older t1 tokens (without a chain hash) are still accepted but cannot be verified.
+ */
+
+/**
+ * Prefix identifying the current turn token format
+ */
+const TURN_TOKEN_PREFIX = 't2';
+
+/**
+ * Prefix of the first turn token format, which had no chain hash
+ */
+const TURN_TOKEN_V1_PREFIX = 't1';
+
+/**
+ * A move decoded from a turn token
+ */
+export type TurnMove =
+  /** Split: pile number (1-based, or 0 for the burn pile) for each card of the active pack, in pack order */
+  | { type: 'split'; assignment: number[] }
+  /** Choice: pile number (1-based) of the chosen pile */
+  | { type: 'choose'; pile: number }
+  /** Winston turn: each pile passed or taken, in order */
+  | { type: 'winston'; moves: Array<'take' | 'pass'> }
+  /** Grid pick: the row or column taken */
+  | { type: 'grid'; line: GridLine };
+
+/**
+ * A decoded turn token
+ */
+export interface TurnToken {
+  /** Hash of the draft's seed */
+  seedHash: string;
+  /** Number of player moves made before this move */
+  turn: number;
+  /** The move to apply */
+  move: TurnMove;
+  /** Sender's chain hash over the history before the move (missing in t1 tokens) */
+  chainHash?: string;
+}
+
+/**
+ * Hashes a draft seed for use in turn tokens
+ * @param seed - Draft seed
+ * @returns 8-character hex hash
+ */
+export function getSeedHash(seed: string): string {
+  return hashString(seed).toString(16).padStart(8, '0');
+}
+
+/**
+ * Gets the player whose move it is in a phase
+ * @param phase - Current draft phase
+ * @returns The active player
+ */
+export function getActivePlayer(phase: DraftPhase): PlayerId {
+  return phase.startsWith('P1') ? 'P1' : 'P2';
+}
+
+/**
+ * Counts the player moves in a draft's history (the current turn number)
+ * @param history - Draft history
+ * @returns Number of player moves made so far
+ */
+export function getTurnNumber(history: DraftAction[]): number {
+  return history.filter(action => action.actionType !== 'pack-dealt').length;
+}
+
+/**
+ * Creates the turn token for the most recent player move in a draft (in Winston, the most recent turn)
+ * @param draft - Draft to read the last move from
+ * @returns Promise resolving to the turn token, or null if no move has been made yet
+ *          or a Winston turn is still under way
+ */
+export async function createLastTurnToken(draft: DraftState): Promise<string | null> {
+  const { history } = draft;
+  const moveIndex = findLastIndex(history, action => action.actionType !== 'pack-dealt');
+  if (moveIndex === -1) return null;
+
+  const action = history[moveIndex];
+  if (isWinstonMove(action) && !draft.isComplete && getActivePlayer(draft.currentPhase) === action.data.chooser) {
+    return null;
+  }
+
+  // A Winston token carries the player's whole turn, so it starts at the turn's first move
+  const firstIndex = isWinstonMove(action)
+    ? findLastIndex(history.slice(0, moveIndex), entry => !isWinstonMove(entry) || entry.round !== action.round) + 1
+    : moveIndex;
+  const turn = getTurnNumber(history.slice(0, firstIndex));
+  let move: string;
+
+  if (action.actionType === 'pack-split') {
+    const dealtIndex = findLastIndex(history.slice(0, moveIndex), entry => entry.actionType === 'pack-dealt');
+    const packCards = history[dealtIndex]?.data.packCards ?? [];
+    const piles = action.data.piles ?? [];
+    const burnPile = piles.find(pile => pile.id === BURN_PILE_ID);
+    const choosablePiles = piles.filter(pile => pile !== burnPile);
+    move = 's' + packCards
+      .map(entry => burnPile?.cards.some(card => card.instanceId === entry.instanceId)
+        ? 0
+        : choosablePiles.findIndex(pile => pile.cards.some(card => card.instanceId === entry.instanceId)) + 1)
+      .join('');
+  } else if (isWinstonMove(action)) {
+    move = 'w' + history
+      .slice(firstIndex, moveIndex + 1)
+      .map(entry => (entry.actionType === 'pile-taken' ? 't' : 'p'))
+      .join('');
+  } else if (action.actionType === 'line-picked') {
+    move = 'g' + (action.data.line ?? '').replace('ow-', '').replace('ol-', '');
+  } else {
+    const splitIndex = findLastIndex(history.slice(0, moveIndex), entry => entry.actionType === 'pack-split');
+    const piles = (history[splitIndex]?.data.piles ?? []).filter(pile => pile.id !== BURN_PILE_ID);
+    move = 'c' + (piles.findIndex(pile => pile.id === action.data.chosenPile) + 1);
+  }
+
+  const chainHash = await getChainHash(draft.settings.seed, history.slice(0, firstIndex));
+  const body = [TURN_TOKEN_PREFIX, getSeedHash(draft.settings.seed), turn.toString(36), move, chainHash].join('.');
+  return `${body}.${getChecksum(body)}`;
+}
+
+/**
+ * Decodes a turn token. Accepts either the bare token or a link containing it.
+ * @param input - Turn token or play-by-link URL
+ * @returns Decoded token
+ * @throws Error if the token is malformed or fails its checksum
+ */
+export function parseTurnToken(input: string): TurnToken {
+  let token = input.trim();
+
+  // Pull the token out of a link (…#turn=t2.…)
+  const linkMatch = token.match(/[#?&]turn=([^&]+)/);
+  if (linkMatch) token = decodeURIComponent(linkMatch[1]);
+
+  const parts = token.split('.');
+  const isV1 = parts[0] === TURN_TOKEN_V1_PREFIX && parts.length === 5;
+  if (!isV1 && !(parts[0] === TURN_TOKEN_PREFIX && parts.length === 6)) {
+    throw new Error('Not a valid turn token');
+  }
+
+  const [, seedHash, turnText, moveText] = parts;
+  const chainHash = isV1 ? undefined : parts[4];
+  const checksum = parts[parts.length - 1];
+  if (getChecksum(parts.slice(0, -1).join('.')) !== checksum) {
+    throw new Error('Turn token checksum mismatch - it may have been cut off or mistyped');
+  }
+
+  const turn = parseInt(turnText, 36);
+  if (isNaN(turn) || turn < 0) {
+    throw new Error('Turn token has an invalid turn number');
+  }
+
+  if (/^s[0-9]+$/.test(moveText)) {
+    return { seedHash, turn, chainHash, move: { type: 'split', assignment: moveText.slice(1).split('').map(Number) } };
+  }
+  if (/^c[1-9]$/.test(moveText)) {
+    return { seedHash, turn, chainHash, move: { type: 'choose', pile: Number(moveText.slice(1)) } };
+  }
+  if (/^w[tp]+$/.test(moveText)) {
+    const moves = moveText.slice(1).split('').map(move => (move === 't' ? 'take' : 'pass') as 'take' | 'pass');
+    return { seedHash, turn, chainHash, move: { type: 'winston', moves } };
+  }
+  if (/^g[rc][1-3]$/.test(moveText)) {
+    const line = `${moveText[1] === 'r' ? 'row' : 'col'}-${moveText[2]}` as GridLine;
+    return { seedHash, turn, chainHash, move: { type: 'grid', line } };
+  }
+
+  throw new Error('Turn token has an invalid move');
+}
+
+/**
+ * Converts a turn token into draft commands after checking it belongs to this draft
+ * and is the next move in its history.
+ * @param draft - Draft the token should be applied to (with its pack already dealt)
+ * @param token - Decoded turn token
+ * @returns Commands to pass to the draft engine, in order (one, except for a Winston turn)
+ * @throws Error if the token is for another draft, was already applied, or skips ahead
+ */
+export function getTurnCommands(draft: DraftState, token: TurnToken): DraftCommand[] {
+  if (token.seedHash !== getSeedHash(draft.settings.seed)) {
+    throw new Error('This turn token belongs to a different draft');
+  }
+
+  const expectedTurn = getTurnNumber(draft.history);
+  if (token.turn < expectedTurn) {
+    throw new Error(`This turn (move ${token.turn + 1}) has already been applied`);
+  }
+  if (token.turn > expectedTurn) {
+    throw new Error(`This turn is out of order: expected move ${expectedTurn + 1}, got move ${token.turn + 1}. Apply the earlier turns first.`);
+  }
+
+  const pack = draft.activePack;
+  if (!pack) {
+    throw new Error('There is no pack to apply this turn to');
+  }
+
+  if (token.move.type === 'choose') {
+    const pile = pack.piles?.filter(candidate => candidate.id !== BURN_PILE_ID)[token.move.pile - 1];
+    if (!pile) {
+      throw new Error('This turn chooses a pile that does not exist');
+    }
+    return [{ type: 'choose-pile', pileId: pile.id }];
+  }
+  if (token.move.type === 'winston') {
+    return token.move.moves.map(move => ({ type: move === 'take' ? 'take-pile' : 'pass-pile' }));
+  }
+  if (token.move.type === 'grid') {
+    return [{ type: 'pick-line', line: token.move.line }];
+  }
+
+  const { assignment } = token.move;
+  if (assignment.length !== pack.cards.length) {
+    throw new Error('This turn splits a pack of a different size');
+  }
+
+  const pileCount = Math.max(...assignment);
+  const piles: Pile[] = Array.from({ length: pileCount }, (_, index) => ({
+    id: `pile-${index + 1}`,
+    cards: pack.cards.filter((_, cardIndex) => assignment[cardIndex] === index + 1),
+  }));
+  if (assignment.includes(0)) {
+    piles.push({ id: BURN_PILE_ID, cards: pack.cards.filter((_, cardIndex) => assignment[cardIndex] === 0) });
+  }
+
+  return [{ type: 'split-pack', piles }];
+}
+
+/**
+ * Records the opponent's chain hash on the first move just applied from their turn token,
+ * so the draft can be verified against it later
+ * @param draft - Draft after applying the token's moves
+ * @param chainHash - Chain hash carried by the token
+ * @param moveCount - Number of moves the token applied
+ * @returns Draft with the chain hash stored on the first of those moves
+ */
+export function recordReceivedChainHash(draft: DraftState, chainHash: string, moveCount = 1): DraftState {
+  const moveIndices = draft.history
+    .map((action, index) => (action.actionType !== 'pack-dealt' ? index : -1))
+    .filter(index => index !== -1);
+  const moveIndex = moveIndices[moveIndices.length - moveCount] ?? -1;
+  if (moveIndex === -1) return draft;
+
+  const history = [...draft.history];
+  history[moveIndex] = { ...history[moveIndex], receivedChainHash: chainHash };
+  return { ...draft, history };
+}
+
+/**
+ * Checks whether a history entry is a Winston take or pass
+ * @param action - History entry
+ * @returns True for pile-taken and pile-passed entries
+ */
+function isWinstonMove(action: DraftAction): boolean {
+  return action.actionType === 'pile-taken' || action.actionType === 'pile-passed';
+}
+
+/**
+ * Computes the short checksum appended to turn tokens
+ * @param body - Token text before the checksum
+ * @returns Base36 checksum
+ */
+function getChecksum(body: string): string {
+  return hashString(body).toString(36);
+}
+
+/**
+ * Finds the index of the last array element matching a predicate
+ * @param array - Array to search
+ * @param predicate - Test for each element
+ * @returns Index of the last match, or -1
+ */
+function findLastIndex<T>(array: T[], predicate: (item: T) => boolean): number {
+  for (let i = array.length - 1; i >= 0; i--) {
+    if (predicate(array[i])) return i;
+  }
+  return -1;
+}